@@ -0,0 +1,197 @@
+import { readFileSync, statSync } from 'fs';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import type { ComplexityMetric, ComplexityThresholds } from './types.js';
+import { getExceededMetrics } from './rules/shared.js';
+import { getUnitKeys, withoutLineNumbers } from './utils.js';
+import type { ProjectAnalysis } from './standalone/index.js';
+
+/** A known violation recorded in a baseline file */
+export interface BaselineEntry {
+  /** Path relative to the lint working directory, with `/` separators */
+  file: string;
+  /** Line-free unit key (see `createUnitKeyer`), so entries survive code moving */
+  functionName: string;
+  cyclomatic: number;
+  cognitive: number;
+}
+
+/** Baseline entries indexed by file and function name */
+export type Baseline = Map<string, BaselineEntry>;
+
+/** Line numbers are dropped so entries from older baselines, which kept them, still match */
+function baselineKey(file: string, functionName: string): string {
+  return `${file}\0${withoutLineNumbers(functionName)}`;
+}
+
+function isBaselineEntry(value: unknown): value is BaselineEntry {
+  const entry = value as Partial<BaselineEntry> | null;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.file === 'string' &&
+    typeof entry.functionName === 'string' &&
+    typeof entry.cyclomatic === 'number' &&
+    typeof entry.cognitive === 'number'
+  );
+}
+
+/**
+ * Validate parsed baseline JSON.
+ * @throws Error if the value is not an array of baseline entries
+ */
+export function parseBaselineEntries(json: unknown, source = 'baseline'): BaselineEntry[] {
+  if (!Array.isArray(json)) {
+    throw new Error(`Invalid complexity baseline "${source}": expected an array of entries`);
+  }
+  json.forEach((entry, index) => {
+    if (!isBaselineEntry(entry)) {
+      throw new Error(
+        `Invalid complexity baseline "${source}": entry ${index} must have file, functionName, cyclomatic and cognitive`
+      );
+    }
+  });
+  return json;
+}
+
+/**
+ * Index entries by file and function name. Functions that share a name in the
+ * same file (e.g. several anonymous callbacks) share the highest recorded scores.
+ */
+export function createBaseline(entries: readonly BaselineEntry[]): Baseline {
+  const baseline: Baseline = new Map();
+  for (const entry of entries) {
+    const key = baselineKey(entry.file, entry.functionName);
+    const existing = baseline.get(key);
+    baseline.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            cyclomatic: Math.max(existing.cyclomatic, entry.cyclomatic),
+            cognitive: Math.max(existing.cognitive, entry.cognitive),
+          }
+        : entry
+    );
+  }
+  return baseline;
+}
+
+function readError(path: string, error: unknown): Error {
+  const reason = error instanceof Error ? error.message : String(error);
+  return new Error(`Cannot read complexity baseline "${path}": ${reason}`, { cause: error });
+}
+
+export function readBaselineEntries(path: string): BaselineEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw readError(path, error);
+  }
+  return parseBaselineEntries(json, path);
+}
+
+const baselineCache = new Map<string, { mtimeMs: number; baseline: Baseline }>();
+
+/**
+ * Load a baseline file, reusing the parsed result until the file changes.
+ * The rule calls this once per linted file.
+ */
+export function loadBaseline(path: string): Baseline {
+  let mtimeMs: number;
+  try {
+    ({ mtimeMs } = statSync(path));
+  } catch (error) {
+    throw readError(path, error);
+  }
+  const cached = baselineCache.get(path);
+  if (cached?.mtimeMs === mtimeMs) return cached.baseline;
+
+  const baseline = createBaseline(readBaselineEntries(path));
+  baselineCache.set(path, { mtimeMs, baseline });
+  return baseline;
+}
+
+/** Path of `filename` as stored in a baseline: relative to `cwd`, `/`-separated. */
+export function toBaselinePath(cwd: string, filename: string): string {
+  const absolute = isAbsolute(filename) ? filename : resolve(cwd, filename);
+  return relative(cwd, absolute).split(sep).join('/');
+}
+
+/**
+ * The recorded score for a function, or `undefined` if it is not baselined.
+ * A violation is suppressed while its current score does not exceed this.
+ */
+export function getBaselineScore(
+  baseline: Baseline,
+  file: string,
+  functionName: string,
+  metric: ComplexityMetric
+): number | undefined {
+  return baseline.get(baselineKey(file, functionName))?.[metric];
+}
+
+function compareEntries(a: BaselineEntry, b: BaselineEntry): number {
+  return a.file.localeCompare(b.file) || a.functionName.localeCompare(b.functionName);
+}
+
+/**
+ * Record every function in the project that the `complexity/complexity` rule
+ * would report with the given thresholds.
+ */
+export function generateBaseline(
+  project: ProjectAnalysis,
+  thresholds: ComplexityThresholds
+): BaselineEntry[] {
+  const entries: BaselineEntry[] = [];
+
+  for (const file of project.files) {
+    const keys = getUnitKeys(file.functions.map((fn) => fn.name));
+    file.functions.forEach((fn, i) => {
+      if (getExceededMetrics(fn, thresholds).length === 0) return;
+
+      entries.push({
+        file: file.filename,
+        functionName: keys[i],
+        cyclomatic: fn.cyclomatic,
+        cognitive: fn.cognitive,
+      });
+    });
+  }
+
+  return [...createBaseline(entries).values()].toSorted(compareEntries);
+}
+
+/**
+ * Drop entries for functions that were removed or now pass the thresholds,
+ * and lower the remaining scores to their current values so improvements
+ * cannot regress. Scores that went up are left as recorded.
+ *
+ * When `isAnalyzed` is given, entries for files it rejects are kept unchanged.
+ */
+export function pruneBaseline(
+  entries: readonly BaselineEntry[],
+  current: readonly BaselineEntry[],
+  isAnalyzed?: (file: string) => boolean
+): BaselineEntry[] {
+  const currentBaseline = createBaseline(current);
+
+  return [...createBaseline(entries).values()]
+    .flatMap((entry) => {
+      if (isAnalyzed && !isAnalyzed(entry.file)) return [entry];
+      const now = currentBaseline.get(baselineKey(entry.file, entry.functionName));
+      if (!now) return [];
+      return [
+        {
+          ...entry,
+          cyclomatic: Math.min(entry.cyclomatic, now.cyclomatic),
+          cognitive: Math.min(entry.cognitive, now.cognitive),
+        },
+      ];
+    })
+    .toSorted(compareEntries);
+}
+
+export function serializeBaseline(entries: readonly BaselineEntry[]): string {
+  return JSON.stringify(entries, null, 2) + '\n';
+}
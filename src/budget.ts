@@ -0,0 +1,130 @@
+import type { Context, ESTreeNode } from './types.js';
+
+/*
+ * Inline budgets: a `// complexity-budget cognitive=30 cyclomatic=25 -- reason`
+ * comment directly above a function raises its thresholds without disabling
+ * the check. The reason is required and shown in reports.
+ */
+
+export const BUDGET_DIRECTIVE = 'complexity-budget';
+
+/** Metrics a budget directive can set */
+export type BudgetMetric = 'cyclomatic' | 'cognitive' | 'npath' | 'jsx' | 'jsxDepth' | 'depth';
+
+export interface ComplexityBudget {
+  thresholds: Partial<Record<BudgetMetric, number>>;
+  reason: string;
+}
+
+/** A directive comment and its parsed budget, or the reason it is invalid */
+export interface BudgetDirective {
+  comment: { loc: NonNullable<ESTreeNode['loc']>; value: string };
+  budget: ComplexityBudget | null;
+  error: string | null;
+}
+
+const BUDGET_METRICS: ReadonlySet<string> = new Set<BudgetMetric>([
+  'cyclomatic',
+  'cognitive',
+  'npath',
+  'jsx',
+  'jsxDepth',
+  'depth',
+]);
+
+/**
+ * Nodes a directive above a function may be attached to, e.g. the
+ * `export const handler = () => {}` around an arrow function.
+ */
+const DECLARATION_WRAPPERS = new Set([
+  'VariableDeclarator',
+  'VariableDeclaration',
+  'ExportNamedDeclaration',
+  'ExportDefaultDeclaration',
+  'MethodDefinition',
+  'PropertyDefinition',
+  'Property',
+  'AssignmentExpression',
+  'ExpressionStatement',
+]);
+
+const DIRECTIVE_PATTERN = new RegExp(`^\\s*\\*?\\s*${BUDGET_DIRECTIVE}(?:\\s|$)`);
+
+/**
+ * Parse the text of a directive comment (without comment delimiters).
+ * Returns `null` if the comment is not a budget directive.
+ *
+ * @throws Error if the directive is malformed or has no reason
+ */
+export function parseBudgetDirective(text: string): ComplexityBudget | null {
+  const match = DIRECTIVE_PATTERN.exec(text);
+  if (!match) return null;
+
+  const separator = text.indexOf('--', match[0].length);
+  const reason = separator === -1 ? '' : text.slice(separator + 2).trim();
+  if (!reason) {
+    throw new Error(`"${BUDGET_DIRECTIVE}" requires a reason after "--"`);
+  }
+
+  const settings = text.slice(match[0].length, separator).trim().split(/\s+/).filter(Boolean);
+  if (settings.length === 0) {
+    throw new Error(
+      `"${BUDGET_DIRECTIVE}" must set at least one of cyclomatic, cognitive, npath, jsx, jsxDepth, depth`
+    );
+  }
+
+  const thresholds: ComplexityBudget['thresholds'] = {};
+  for (const setting of settings) {
+    const [metric, value] = setting.split('=');
+    if (!BUDGET_METRICS.has(metric)) {
+      throw new Error(`Unknown metric "${metric}" in "${BUDGET_DIRECTIVE}"`);
+    }
+    if (!/^\d+$/.test(value ?? '')) {
+      throw new Error(`Expected a non-negative integer for "${metric}", got "${value ?? ''}"`);
+    }
+    thresholds[metric as BudgetMetric] = Number(value);
+  }
+
+  return { thresholds, reason };
+}
+
+function findDirectiveComment(context: Context, node: ESTreeNode): BudgetDirective | null {
+  const comments = context.sourceCode.getCommentsBefore(node);
+  for (let i = comments.length - 1; i >= 0; i--) {
+    const comment = comments[i];
+    try {
+      const budget = parseBudgetDirective(comment.value);
+      if (budget) return { comment, budget, error: null };
+    } catch (error) {
+      return { comment, budget: null, error: (error as Error).message };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the budget directive directly above a function, or above the
+ * declaration, export or property that contains it.
+ */
+export function findBudgetDirective(
+  context: Context,
+  functionNode: ESTreeNode
+): BudgetDirective | null {
+  // A comment at the top of the file belongs to the first statement, not <module>
+  if (functionNode.type === 'Program') return null;
+
+  let current: ESTreeNode | null | undefined = functionNode;
+  while (current) {
+    const directive = findDirectiveComment(context, current);
+    if (directive) return directive;
+    if (!current.parent || !DECLARATION_WRAPPERS.has(current.parent.type)) return null;
+    current = current.parent;
+  }
+  return null;
+}
+
+/** Suffix for "Maximum allowed is N" when the threshold came from a budget. */
+export function formatBudgetNote(budget: ComplexityBudget | null, metric: BudgetMetric): string {
+  if (budget?.thresholds[metric] === undefined) return '';
+  return ` (${BUDGET_DIRECTIVE}: ${budget.reason})`;
+}
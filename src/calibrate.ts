@@ -0,0 +1,243 @@
+import type { ComplexityMetric } from './types.js';
+import { DEFAULT_MIN_LINES, isBelowMinLines } from './rules/shared.js';
+import type { ProjectAnalysis } from './standalone/index.js';
+
+export const DEFAULT_FLAG_PERCENT = 5;
+
+export const PERCENTILES = [50, 75, 90, 95, 99] as const;
+
+export interface HistogramBucket {
+  /** `0`, `1-2`, `51+` */
+  label: string;
+  from: number;
+  /** Inclusive; `null` for the last, open-ended bucket */
+  to: number | null;
+  count: number;
+}
+
+export interface ScoreDistribution {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  /** Nearest-rank percentiles, keyed by percentage (`50` is the median) */
+  percentiles: Record<(typeof PERCENTILES)[number], number>;
+  /** Buckets from the lowest to the highest non-empty one */
+  histogram: HistogramBucket[];
+}
+
+export interface MetricCalibration {
+  distribution: ScoreDistribution;
+  /** Lowest threshold that flags at most `flagPercent` of the functions */
+  threshold: number;
+  /** Functions scoring above `threshold` */
+  flagged: number;
+}
+
+export interface CalibrationOptions {
+  /** Percentage of functions the thresholds should flag (default: 5) */
+  flagPercent?: number;
+  /** Functions shorter than this are skipped by the rule, so they are left out (default: 10) */
+  minLines?: number;
+}
+
+export interface Calibration {
+  /** Functions the rule checks: all units at least `minLines` long */
+  functions: number;
+  flagPercent: number;
+  minLines: number;
+  cyclomatic: MetricCalibration;
+  cognitive: MetricCalibration;
+}
+
+/** Lower bounds of the histogram buckets; the last bucket is open-ended */
+const HISTOGRAM_EDGES = [0, 1, 3, 6, 11, 16, 21, 31, 51];
+
+/** Lowest threshold each metric's rule option accepts */
+const MINIMUM_THRESHOLD: Record<ComplexityMetric, number> = { cyclomatic: 1, cognitive: 0 };
+
+function percentile(sorted: readonly number[], percentage: number): number {
+  const index = Math.ceil((percentage / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(index, 0), sorted.length - 1)] ?? 0;
+}
+
+function createHistogram(sorted: readonly number[]): HistogramBucket[] {
+  const buckets = HISTOGRAM_EDGES.map((from, i): HistogramBucket => {
+    const next = HISTOGRAM_EDGES[i + 1];
+    const to = next === undefined ? null : next - 1;
+    const label = to === null ? `${from}+` : to === from ? String(from) : `${from}-${to}`;
+    const count = sorted.filter((score) => score >= from && (to === null || score <= to)).length;
+    return { label, from, to, count };
+  });
+  const first = buckets.findIndex((bucket) => bucket.count > 0);
+  const last = buckets.findLastIndex((bucket) => bucket.count > 0);
+  return first === -1 ? [] : buckets.slice(first, last + 1);
+}
+
+export function describeScores(scores: readonly number[]): ScoreDistribution {
+  const sorted = scores.toSorted((a, b) => a - b);
+  const total = sorted.reduce((sum, score) => sum + score, 0);
+  return {
+    count: sorted.length,
+    min: sorted[0] ?? 0,
+    max: sorted.at(-1) ?? 0,
+    mean: sorted.length > 0 ? Math.round((total / sorted.length) * 10) / 10 : 0,
+    percentiles: Object.fromEntries(
+      PERCENTILES.map((p) => [p, percentile(sorted, p)])
+    ) as ScoreDistribution['percentiles'],
+    histogram: createHistogram(sorted),
+  };
+}
+
+/**
+ * The lowest threshold that flags at most `flagPercent` of the scores (the
+ * rule reports scores above the threshold).
+ */
+function recommendThreshold(
+  scores: readonly number[],
+  flagPercent: number,
+  metric: ComplexityMetric
+): MetricCalibration {
+  const sorted = scores.toSorted((a, b) => a - b);
+  const allowed = Math.floor((sorted.length * flagPercent) / 100);
+  const threshold = Math.max(
+    sorted[sorted.length - allowed - 1] ?? MINIMUM_THRESHOLD[metric],
+    MINIMUM_THRESHOLD[metric]
+  );
+  return {
+    distribution: describeScores(sorted),
+    threshold,
+    flagged: sorted.filter((score) => score > threshold).length,
+  };
+}
+
+/**
+ * Describe the score distribution of a project and recommend the
+ * `complexity/complexity` thresholds that would flag about `flagPercent` of
+ * its functions.
+ */
+export function calibrateThresholds(
+  project: ProjectAnalysis,
+  options: CalibrationOptions = {}
+): Calibration {
+  const flagPercent = options.flagPercent ?? DEFAULT_FLAG_PERCENT;
+  const minLines = options.minLines ?? DEFAULT_MIN_LINES;
+  const functions = project.files
+    .flatMap((file) => file.functions)
+    .filter((fn) => !isBelowMinLines(fn.loc, minLines));
+
+  return {
+    functions: functions.length,
+    flagPercent,
+    minLines,
+    cyclomatic: recommendThreshold(
+      functions.map((fn) => fn.cyclomatic),
+      flagPercent,
+      'cyclomatic'
+    ),
+    cognitive: recommendThreshold(
+      functions.map((fn) => fn.cognitive),
+      flagPercent,
+      'cognitive'
+    ),
+  };
+}
+
+const HISTOGRAM_WIDTH = 40;
+
+function formatHistogram(title: string, histogram: readonly HistogramBucket[]): string {
+  const largest = Math.max(...histogram.map((bucket) => bucket.count));
+  const labelWidth = Math.max(...histogram.map((bucket) => bucket.label.length));
+  const lines = histogram.map((bucket) => {
+    const bar = '#'.repeat(Math.ceil((bucket.count / largest) * HISTOGRAM_WIDTH));
+    return `  ${bucket.label.padEnd(labelWidth)}  ${bar ? `${bar} ` : ''}${bucket.count}`;
+  });
+  return `${title}\n${lines.join('\n')}`;
+}
+
+function formatRecommendation(metric: ComplexityMetric, calibration: Calibration): string {
+  const { threshold, flagged } = calibration[metric];
+  const share = ((flagged / calibration.functions) * 100).toFixed(1);
+  return `  ${metric}: ${threshold} (flags ${flagged} of ${calibration.functions} functions, ${share}%)`;
+}
+
+export function formatCalibration(calibration: Calibration): string {
+  const { cyclomatic, cognitive, minLines } = calibration;
+  if (calibration.functions === 0) {
+    return `No functions with at least ${minLines} lines to calibrate against.\n`;
+  }
+
+  const rows: [string, number, number][] = [
+    ['min', cyclomatic.distribution.min, cognitive.distribution.min],
+    ...PERCENTILES.map((p): [string, number, number] => [
+      `p${p}`,
+      cyclomatic.distribution.percentiles[p],
+      cognitive.distribution.percentiles[p],
+    ]),
+    ['max', cyclomatic.distribution.max, cognitive.distribution.max],
+    ['mean', cyclomatic.distribution.mean, cognitive.distribution.mean],
+  ];
+  const table = [
+    '        Cyclomatic  Cognitive',
+    ...rows.map(
+      ([label, a, b]) => `${label.padEnd(6)}  ${String(a).padStart(10)}  ${String(b).padStart(9)}`
+    ),
+  ].join('\n');
+
+  return (
+    [
+      `Analyzed ${calibration.functions} functions with at least ${minLines} lines`,
+      table,
+      formatHistogram('Cyclomatic', cyclomatic.distribution.histogram),
+      formatHistogram('Cognitive', cognitive.distribution.histogram),
+      [
+        `Recommended thresholds (flag about ${calibration.flagPercent}% of functions):`,
+        formatRecommendation('cyclomatic', calibration),
+        formatRecommendation('cognitive', calibration),
+      ].join('\n'),
+      `"complexity/complexity": ${JSON.stringify(['error', getRuleOptions(calibration)])}`,
+    ].join('\n\n') + '\n'
+  );
+}
+
+function getRuleOptions(calibration: Calibration): Record<string, number> {
+  return {
+    cyclomatic: calibration.cyclomatic.threshold,
+    cognitive: calibration.cognitive.threshold,
+    minLines: calibration.minLines,
+  };
+}
+
+const PLUGIN_NAME = 'oxlint-plugin-complexity';
+const RULE_NAME = 'complexity/complexity';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Set the calibrated thresholds in an `.oxlintrc.json` object, keeping the
+ * rule's severity and other options, and register the plugin if needed.
+ */
+export function applyCalibration(
+  config: Record<string, unknown>,
+  calibration: Calibration
+): Record<string, unknown> {
+  const jsPlugins = Array.isArray(config.jsPlugins) ? config.jsPlugins : [];
+  const rules = isObject(config.rules) ? config.rules : {};
+  const existing: unknown = rules[RULE_NAME];
+  const [severity, options] = Array.isArray(existing) ? existing : [existing ?? 'error'];
+  const enabled = severity === 'off' || severity === 0 ? 'error' : severity;
+
+  return {
+    ...config,
+    jsPlugins: jsPlugins.includes(PLUGIN_NAME) ? jsPlugins : [...jsPlugins, PLUGIN_NAME],
+    rules: {
+      ...rules,
+      [RULE_NAME]: [
+        enabled,
+        { ...(isObject(options) ? options : {}), ...getRuleOptions(calibration) },
+      ],
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { existsSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import {
+  generateBaseline,
+  pruneBaseline,
+  readBaselineEntries,
+  serializeBaseline,
+} from '../baseline.js';
+import { toProjectPath } from '../standalone/index.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  analyzePaths,
+  errorMessage,
+  parseProfile,
+  parseThresholds,
+  runWithArgs,
+  PROFILE_OPTIONS,
+  PROFILE_USAGE,
+  THRESHOLD_OPTIONS,
+  THRESHOLD_USAGE,
+  withDefaultIgnores,
+  type CliIO,
+} from './shared.js';
+
+export const DEFAULT_BASELINE_FILE = 'complexity-baseline.json';
+
+type BaselineAction = 'generate' | 'prune';
+const BASELINE_ACTIONS: ReadonlySet<string> = new Set<BaselineAction>(['generate', 'prune']);
+
+export const BASELINE_USAGE = `Usage: oxlint-complexity baseline <generate|prune> [options] [paths...]
+
+generate  Record every function that currently exceeds the thresholds
+prune     Drop entries that were fixed or removed and lower improved scores
+
+Use the same thresholds and profile as your "complexity/complexity" rule
+options, and run from the directory oxlint runs in (file paths are stored
+relative to it).
+
+Options:
+  --file <path>          Baseline file (default: ${DEFAULT_BASELINE_FILE})
+${THRESHOLD_USAGE}
+${PROFILE_USAGE}
+  --ignore <glob>        Skip matching files/directories (repeatable)
+  -h, --help             Show this help
+`;
+
+function parseBaselineArgs(argv: readonly string[]) {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    options: {
+      file: { type: 'string' },
+      ...THRESHOLD_OPTIONS,
+      ...PROFILE_OPTIONS,
+      ignore: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const help = values.help ?? false;
+  const [action, ...paths] = positionals;
+  if (!help && !BASELINE_ACTIONS.has(action)) {
+    throw new Error(`Expected "generate" or "prune" after "baseline", got "${action ?? ''}"`);
+  }
+
+  return {
+    help,
+    action: action as BaselineAction,
+    paths: paths.length > 0 ? paths : ['.'],
+    file: values.file ?? DEFAULT_BASELINE_FILE,
+    thresholds: parseThresholds(values),
+    profile: parseProfile(values.profile),
+    ignore: withDefaultIgnores(values.ignore),
+  };
+}
+
+/** Whether a baseline file path lies under one of the analyzed paths. */
+function createScopeMatcher(io: CliIO, paths: readonly string[]): (file: string) => boolean {
+  const root = resolve(io.cwd);
+  const scopes = paths.map((path) => toProjectPath(root, resolve(root, path)));
+  return (file) =>
+    scopes.some((scope) => scope === '' || file === scope || file.startsWith(`${scope}/`));
+}
+
+/**
+ * `oxlint-complexity baseline generate|prune`: write the baseline file read by
+ * the rule's `baseline` option.
+ */
+export function runBaseline(argv: readonly string[], io: CliIO): number {
+  return runWithArgs(
+    io,
+    BASELINE_USAGE,
+    () => parseBaselineArgs(argv),
+    (args) => {
+      if (args.help) {
+        io.stdout(BASELINE_USAGE);
+        return EXIT_OK;
+      }
+
+      const file = resolve(io.cwd, args.file);
+      if (args.action === 'prune' && !existsSync(file)) {
+        io.stderr(`Baseline file "${args.file}" does not exist; run "baseline generate" first\n`);
+        return EXIT_FAILURE;
+      }
+
+      const project = analyzePaths(io, args.paths, args);
+      if (!project) return EXIT_FAILURE;
+
+      try {
+        const current = generateBaseline(project, args.thresholds);
+        if (args.action === 'generate') {
+          writeFileSync(file, serializeBaseline(current));
+          io.stdout(`Wrote ${current.length} entries to ${args.file}\n`);
+          return EXIT_OK;
+        }
+
+        const previous = readBaselineEntries(file);
+        const pruned = pruneBaseline(previous, current, createScopeMatcher(io, args.paths));
+        writeFileSync(file, serializeBaseline(pruned));
+        io.stdout(
+          `Pruned ${previous.length - pruned.length} of ${previous.length} entries in ${args.file}\n`
+        );
+        return EXIT_OK;
+      } catch (error) {
+        io.stderr(`${errorMessage(error)}\n`);
+        return EXIT_FAILURE;
+      }
+    }
+  );
+}
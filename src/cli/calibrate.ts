@@ -0,0 +1,144 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import {
+  applyCalibration,
+  calibrateThresholds,
+  formatCalibration,
+  DEFAULT_FLAG_PERCENT,
+  type Calibration,
+} from '../calibrate.js';
+import { DEFAULT_MIN_LINES } from '../rules/shared.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  analyzePaths,
+  errorMessage,
+  parseChoice,
+  parseCount,
+  parseProfile,
+  runWithArgs,
+  PROFILE_OPTIONS,
+  PROFILE_USAGE,
+  withDefaultIgnores,
+  type CliIO,
+} from './shared.js';
+
+export const DEFAULT_CONFIG_FILE = '.oxlintrc.json';
+
+type CalibrateFormat = 'table' | 'json';
+const CALIBRATE_FORMATS: readonly CalibrateFormat[] = ['table', 'json'];
+
+export const CALIBRATE_USAGE = `Usage: oxlint-complexity calibrate [options] [paths...]
+
+Print the distribution of cyclomatic and cognitive complexity across the
+project and recommend "complexity/complexity" thresholds that flag a chosen
+percentage of functions.
+
+Options:
+  --flag <percent>       Percentage of functions to flag (default: ${DEFAULT_FLAG_PERCENT})
+  --min-lines <n>        Leave out functions shorter than this, like the rule (default: ${DEFAULT_MIN_LINES})
+  --format <format>      Output ${CALIBRATE_FORMATS.join(' | ')} (default: table)
+  --write                Set the recommended thresholds in the oxlint config file
+  --config <path>        Config file for --write (default: ${DEFAULT_CONFIG_FILE})
+${PROFILE_USAGE}
+  --ignore <glob>        Skip matching files/directories (repeatable)
+  -h, --help             Show this help
+`;
+
+function parsePercent(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_FLAG_PERCENT;
+  const percent = Number(value);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new Error(`--flag expects a percentage between 0 and 100, got "${value}"`);
+  }
+  return percent;
+}
+
+function parseCalibrateArgs(argv: readonly string[]) {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    options: {
+      flag: { type: 'string' },
+      'min-lines': { type: 'string' },
+      format: { type: 'string' },
+      write: { type: 'boolean' },
+      config: { type: 'string' },
+      ...PROFILE_OPTIONS,
+      ignore: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  return {
+    help: values.help ?? false,
+    paths: positionals.length > 0 ? positionals : ['.'],
+    flagPercent: parsePercent(values.flag),
+    minLines: parseCount(values['min-lines'], '--min-lines', DEFAULT_MIN_LINES),
+    format: parseChoice<CalibrateFormat>(values.format, '--format', CALIBRATE_FORMATS, 'table'),
+    write: values.write ?? false,
+    config: values.config ?? DEFAULT_CONFIG_FILE,
+    profile: parseProfile(values.profile),
+    ignore: withDefaultIgnores(values.ignore),
+  };
+}
+
+/**
+ * Set the thresholds in an oxlint config file, creating it if needed.
+ *
+ * @throws Error if the existing file is not a JSON object
+ */
+function writeConfig(path: string, calibration: Calibration): void {
+  let config: unknown = {};
+  if (existsSync(path)) {
+    try {
+      config = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot update ${path}: ${errorMessage(error)}`, { cause: error });
+    }
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Cannot update ${path}: expected a JSON object`);
+  }
+  const updated = applyCalibration(config as Record<string, unknown>, calibration);
+  writeFileSync(path, JSON.stringify(updated, null, 2) + '\n');
+}
+
+/** `oxlint-complexity calibrate`: recommend thresholds from the project's score distribution. */
+export function runCalibrate(argv: readonly string[], io: CliIO): number {
+  return runWithArgs(
+    io,
+    CALIBRATE_USAGE,
+    () => parseCalibrateArgs(argv),
+    (args) => {
+      if (args.help) {
+        io.stdout(CALIBRATE_USAGE);
+        return EXIT_OK;
+      }
+
+      const project = analyzePaths(io, args.paths, {
+        ignore: args.ignore,
+        profile: args.profile,
+      });
+      if (!project) return EXIT_FAILURE;
+
+      const calibration = calibrateThresholds(project, args);
+      io.stdout(
+        args.format === 'json'
+          ? JSON.stringify(calibration, null, 2) + '\n'
+          : formatCalibration(calibration)
+      );
+      if (!args.write) return EXIT_OK;
+
+      try {
+        writeConfig(resolve(io.cwd, args.config), calibration);
+      } catch (error) {
+        io.stderr(`${errorMessage(error)}\n`);
+        return EXIT_FAILURE;
+      }
+      io.stderr(`Updated ${args.config}\n`);
+      return EXIT_OK;
+    }
+  );
+}
@@ -0,0 +1,141 @@
+import { statSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import {
+  compareProjects,
+  formatComparison,
+  COMPARISON_FORMATS,
+  type ComparisonFormat,
+} from '../compare.js';
+import {
+  analyzeProject,
+  analyzeRevision,
+  type ProjectAnalysis,
+  type ProjectAnalysisOptions,
+} from '../standalone/index.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  errorMessage,
+  parseChoice,
+  parseProfile,
+  parseThresholds,
+  runWithArgs,
+  PROFILE_OPTIONS,
+  PROFILE_USAGE,
+  THRESHOLD_OPTIONS,
+  THRESHOLD_USAGE,
+  withDefaultIgnores,
+  type CliIO,
+} from './shared.js';
+
+export const COMPARE_USAGE = `Usage: oxlint-complexity compare --base <rev|dir> [--head <rev|dir>] [options] [paths...]
+
+Compare complexity between two git revisions (read with git show, without
+checking them out) or two directories, and list the functions that got more
+or less complex, new and fixed offenders, and the change per file.
+
+Options:
+  --base <rev|dir>       Revision or directory before the change (required)
+  --head <rev|dir>       Revision or directory after the change (default: working tree)
+  --format <format>      Output ${COMPARISON_FORMATS.join(' | ')} (default: table)
+${THRESHOLD_USAGE}
+${PROFILE_USAGE}
+  --ignore <glob>        Skip matching files/directories (repeatable)
+  -h, --help             Show this help
+`;
+
+function parseCompareArgs(argv: readonly string[]) {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    options: {
+      base: { type: 'string' },
+      head: { type: 'string' },
+      format: { type: 'string' },
+      ...THRESHOLD_OPTIONS,
+      ...PROFILE_OPTIONS,
+      ignore: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const help = values.help ?? false;
+  if (!help && values.base === undefined) throw new Error('--base is required');
+
+  return {
+    help,
+    base: values.base ?? '',
+    head: values.head,
+    paths: positionals.length > 0 ? positionals : ['.'],
+    format: parseChoice<ComparisonFormat>(values.format, '--format', COMPARISON_FORMATS, 'table'),
+    thresholds: parseThresholds(values),
+    profile: parseProfile(values.profile),
+    ignore: withDefaultIgnores(values.ignore),
+  };
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Analyze one side of the comparison: the working tree, a directory, or a git
+ * revision. Returns `undefined` (after printing the error) if it cannot be read.
+ */
+function analyzeSide(
+  io: CliIO,
+  side: string | undefined,
+  paths: readonly string[],
+  options: Pick<ProjectAnalysisOptions, 'ignore' | 'cognitive' | 'profile'>
+): ProjectAnalysis | undefined {
+  const cwd = resolve(io.cwd);
+  let project: ProjectAnalysis;
+  try {
+    if (side === undefined) {
+      project = analyzeProject(paths, { ...options, root: cwd });
+    } else if (isDirectory(resolve(cwd, side))) {
+      project = analyzeProject(paths, { ...options, root: resolve(cwd, side) });
+    } else {
+      project = analyzeRevision(side, paths, { ...options, root: cwd });
+    }
+  } catch (error) {
+    io.stderr(`${errorMessage(error)}\n`);
+    return undefined;
+  }
+
+  for (const { filename, message } of project.errors) {
+    io.stderr(`Skipped ${filename} (${side ?? 'working tree'}): ${message}\n`);
+  }
+  return project;
+}
+
+/** `oxlint-complexity compare`: print the complexity change between two revisions. */
+export function runCompare(argv: readonly string[], io: CliIO): number {
+  return runWithArgs(
+    io,
+    COMPARE_USAGE,
+    () => parseCompareArgs(argv),
+    (args) => {
+      if (args.help) {
+        io.stdout(COMPARE_USAGE);
+        return EXIT_OK;
+      }
+
+      const options = {
+        ignore: args.ignore,
+        cognitive: args.thresholds.cognitive,
+        profile: args.profile,
+      };
+      const before = analyzeSide(io, args.base, args.paths, options);
+      const after = before && analyzeSide(io, args.head, args.paths, options);
+      if (!before || !after) return EXIT_FAILURE;
+
+      io.stdout(formatComparison(compareProjects(before, after, args.thresholds), args.format));
+      return EXIT_OK;
+    }
+  );
+}
@@ -0,0 +1,128 @@
+import type { ProjectAnalysis } from '../standalone/index.js';
+
+export type ReportFormat = 'table' | 'json' | 'csv';
+export type SortMetric = 'cognitive' | 'cyclomatic';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['table', 'json', 'csv'];
+export const SORT_METRICS: readonly SortMetric[] = ['cognitive', 'cyclomatic'];
+
+/** One function in a ranked report */
+export interface FunctionRow {
+  file: string;
+  line: number;
+  /** 1-based, like editor and compiler locations */
+  column: number;
+  name: string;
+  cyclomatic: number;
+  cognitive: number;
+  /** Scores before the change (`null` for new functions), when comparing with a diff base */
+  before?: { cyclomatic: number; cognitive: number } | null;
+}
+
+export interface RankOptions {
+  sort: SortMetric;
+  /** Maximum number of rows (0 = unlimited) */
+  top: number;
+  minCognitive: number;
+  minCyclomatic: number;
+}
+
+export function toFunctionRows(project: ProjectAnalysis): FunctionRow[] {
+  return project.files.flatMap((file) =>
+    file.functions.map((fn) => ({
+      file: file.filename,
+      line: fn.loc.start.line,
+      column: fn.loc.start.column + 1,
+      name: fn.name,
+      cyclomatic: fn.cyclomatic,
+      cognitive: fn.cognitive,
+      ...(fn.before !== undefined && { before: fn.before }),
+    }))
+  );
+}
+
+/**
+ * Filter rows below the minimum scores and sort by the chosen metric
+ * (the other metric, then file/line, break ties so output is stable).
+ */
+export function rankFunctions(rows: readonly FunctionRow[], options: RankOptions): FunctionRow[] {
+  const secondary: SortMetric = options.sort === 'cognitive' ? 'cyclomatic' : 'cognitive';
+  const ranked = rows
+    .filter((row) => row.cognitive >= options.minCognitive)
+    .filter((row) => row.cyclomatic >= options.minCyclomatic)
+    .toSorted(
+      (a, b) =>
+        b[options.sort] - a[options.sort] ||
+        b[secondary] - a[secondary] ||
+        a.file.localeCompare(b.file) ||
+        a.line - b.line
+    );
+  return options.top > 0 ? ranked.slice(0, options.top) : ranked;
+}
+
+const COLUMNS = ['#', 'Cognitive', 'Cyclomatic', 'Function', 'Location'] as const;
+const NUMERIC_COLUMNS = new Set<string>(['#', 'Cognitive', 'Cyclomatic']);
+
+/** `12`, or `8 → 12` / `new → 12` when comparing with a diff base */
+function formatScore(row: FunctionRow, metric: SortMetric): string {
+  if (row.before === undefined) return String(row[metric]);
+  return `${row.before?.[metric] ?? 'new'} → ${row[metric]}`;
+}
+
+export function formatTable(rows: readonly FunctionRow[]): string {
+  if (rows.length === 0) return 'No functions matched.\n';
+
+  const cells = rows.map((row, index) => [
+    String(index + 1),
+    formatScore(row, 'cognitive'),
+    formatScore(row, 'cyclomatic'),
+    row.name,
+    `${row.file}:${row.line}:${row.column}`,
+  ]);
+  const widths = COLUMNS.map((header, i) =>
+    Math.max(header.length, ...cells.map((line) => line[i].length))
+  );
+  const renderLine = (line: readonly string[]): string =>
+    line
+      .map((cell, i) => (NUMERIC_COLUMNS.has(COLUMNS[i]) ? cell.padStart(widths[i]) : cell))
+      .map((cell, i) => (i < line.length - 1 ? cell.padEnd(widths[i]) : cell))
+      .join('  ');
+
+  return (
+    [renderLine(COLUMNS), widths.map((w) => '-'.repeat(w)).join('  '), ...cells.map(renderLine)]
+      .map((line) => line.trimEnd())
+      .join('\n') + '\n'
+  );
+}
+
+export function formatJson(rows: readonly FunctionRow[]): string {
+  return JSON.stringify(rows, null, 2) + '\n';
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(rows: readonly FunctionRow[]): string {
+  const compared = rows.some((row) => row.before !== undefined);
+  const header = ['file', 'line', 'column', 'name', 'cyclomatic', 'cognitive'];
+  if (compared) header.push('cyclomatic_before', 'cognitive_before');
+  const lines = rows.map((row) => {
+    const values = [row.file, row.line, row.column, row.name, row.cyclomatic, row.cognitive];
+    if (compared) values.push(row.before?.cyclomatic ?? '', row.before?.cognitive ?? '');
+    return values.map(escapeCsv).join(',');
+  });
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+export function formatRows(rows: readonly FunctionRow[], format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJson(rows);
+    case 'csv':
+      return formatCsv(rows);
+    default:
+      return formatTable(rows);
+  }
+}
@@ -0,0 +1,98 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { findHotspots, formatHotspots, HOTSPOT_FORMATS, type HotspotFormat } from '../hotspots.js';
+import { readChangeHistory, DEFAULT_SINCE } from '../standalone/churn.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  analyzePaths,
+  errorMessage,
+  parseChoice,
+  parseCount,
+  parseProfile,
+  runWithArgs,
+  PROFILE_OPTIONS,
+  PROFILE_USAGE,
+  withDefaultIgnores,
+  type CliIO,
+} from './shared.js';
+
+const DEFAULT_TOP = 20;
+
+export const HOTSPOTS_USAGE = `Usage: oxlint-complexity hotspots [options] [paths...]
+
+Rank functions and files by how often they changed in the git history
+(git log --numstat) times their cognitive complexity.
+
+Options:
+  --since <date>         Start of the history window, any date git log accepts
+                         (default: "${DEFAULT_SINCE}")
+  --top <n>              Show the N highest-ranked functions and files in table
+                         and html output (default: ${DEFAULT_TOP}, 0 = all)
+  --format <format>      Output ${HOTSPOT_FORMATS.join(' | ')} (html: a treemap page; default: table)
+  --output <path>        Write to a file instead of stdout
+${PROFILE_USAGE}
+  --ignore <glob>        Skip matching files/directories (repeatable)
+  -h, --help             Show this help
+`;
+
+function parseHotspotsArgs(argv: readonly string[]) {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    options: {
+      since: { type: 'string' },
+      top: { type: 'string' },
+      format: { type: 'string' },
+      output: { type: 'string' },
+      ...PROFILE_OPTIONS,
+      ignore: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  return {
+    help: values.help ?? false,
+    paths: positionals.length > 0 ? positionals : ['.'],
+    since: values.since ?? DEFAULT_SINCE,
+    top: parseCount(values.top, '--top', DEFAULT_TOP),
+    format: parseChoice<HotspotFormat>(values.format, '--format', HOTSPOT_FORMATS, 'table'),
+    output: values.output,
+    profile: parseProfile(values.profile),
+    ignore: withDefaultIgnores(values.ignore),
+  };
+}
+
+/** `oxlint-complexity hotspots`: rank code by git churn × cognitive complexity. */
+export function runHotspots(argv: readonly string[], io: CliIO): number {
+  return runWithArgs(
+    io,
+    HOTSPOTS_USAGE,
+    () => parseHotspotsArgs(argv),
+    (args) => {
+      if (args.help) {
+        io.stdout(HOTSPOTS_USAGE);
+        return EXIT_OK;
+      }
+
+      const project = analyzePaths(io, args.paths, {
+        ignore: args.ignore,
+        profile: args.profile,
+      });
+      if (!project) return EXIT_FAILURE;
+
+      let output: string;
+      try {
+        const history = readChangeHistory(args.paths, { root: project.root, since: args.since });
+        output = formatHotspots(findHotspots(project, history), args.format, args.top);
+        if (args.output) writeFileSync(resolve(io.cwd, args.output), output);
+      } catch (error) {
+        io.stderr(`${errorMessage(error)}\n`);
+        return EXIT_FAILURE;
+      }
+      if (!args.output) io.stdout(output);
+      return EXIT_OK;
+    }
+  );
+}
@@ -0,0 +1,107 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { formatHtmlReport } from '../html-report.js';
+import type { ProjectAnalysis } from '../standalone/index.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  analyzePaths,
+  errorMessage,
+  parseProfile,
+  parseThresholds,
+  runWithArgs,
+  PROFILE_OPTIONS,
+  PROFILE_USAGE,
+  withDefaultIgnores,
+  THRESHOLD_OPTIONS,
+  THRESHOLD_USAGE,
+  type CliIO,
+} from './shared.js';
+
+export const HTML_USAGE = `Usage: oxlint-complexity html [options] [paths...]
+
+Write a single offline HTML page for browsing the results: score distribution
+charts, sortable function and file tables, and the source of each file with
+its cognitive increments per line and extraction candidates highlighted.
+
+Options:
+  --output <path>        Write to a file instead of stdout
+  --title <text>         Page title (default: Complexity report)
+${THRESHOLD_USAGE}
+${PROFILE_USAGE}
+  --ignore <glob>        Skip matching files/directories (repeatable)
+  -h, --help             Show this help
+`;
+
+function parseHtmlArgs(argv: readonly string[]) {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    options: {
+      output: { type: 'string' },
+      title: { type: 'string' },
+      ...THRESHOLD_OPTIONS,
+      ...PROFILE_OPTIONS,
+      ignore: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  return {
+    help: values.help ?? false,
+    paths: positionals.length > 0 ? positionals : ['.'],
+    output: values.output,
+    title: values.title,
+    thresholds: parseThresholds(values),
+    profile: parseProfile(values.profile),
+    ignore: withDefaultIgnores(values.ignore),
+  };
+}
+
+/** Source of every analyzed file, by project-relative filename */
+function readSources(project: ProjectAnalysis): Map<string, string> {
+  return new Map(
+    project.files.map(({ filename }) => [
+      filename,
+      readFileSync(join(project.root, filename), 'utf-8'),
+    ])
+  );
+}
+
+/** `oxlint-complexity html`: print or write a self-contained HTML report. */
+export function runHtml(argv: readonly string[], io: CliIO): number {
+  return runWithArgs(
+    io,
+    HTML_USAGE,
+    () => parseHtmlArgs(argv),
+    (args) => {
+      if (args.help) {
+        io.stdout(HTML_USAGE);
+        return EXIT_OK;
+      }
+
+      const project = analyzePaths(io, args.paths, {
+        ignore: args.ignore,
+        cognitive: args.thresholds.cognitive,
+        profile: args.profile,
+      });
+      if (!project) return EXIT_FAILURE;
+
+      let html: string;
+      try {
+        html = formatHtmlReport(project, {
+          sources: readSources(project),
+          thresholds: args.thresholds,
+          title: args.title,
+        });
+        if (args.output) writeFileSync(resolve(io.cwd, args.output), html);
+      } catch (error) {
+        io.stderr(`${errorMessage(error)}\n`);
+        return EXIT_FAILURE;
+      }
+      if (!args.output) io.stdout(html);
+      return EXIT_OK;
+    }
+  );
+}
@@ -0,0 +1,32 @@
+import { runBaseline } from './baseline.js';
+import { runCalibrate } from './calibrate.js';
+import { runCompare } from './compare.js';
+import { runHotspots } from './hotspots.js';
+import { runHtml } from './html.js';
+import { runReport } from './report.js';
+import { runSarif } from './sarif.js';
+import { defaultIO, type CliIO } from './shared.js';
+
+export type { CliIO } from './shared.js';
+export { EXIT_OK, EXIT_FAILURE, EXIT_USAGE } from './shared.js';
+
+type Command = (argv: readonly string[], io: CliIO) => number;
+
+const COMMANDS: Record<string, Command> = {
+  baseline: runBaseline,
+  calibrate: runCalibrate,
+  compare: runCompare,
+  hotspots: runHotspots,
+  html: runHtml,
+  sarif: runSarif,
+};
+
+/**
+ * Run the `oxlint-complexity` command line and return the process exit code.
+ * The first argument selects a subcommand; anything else runs the ranked report.
+ */
+export function runCli(argv: readonly string[], io: CliIO = defaultIO): number {
+  const [name, ...rest] = argv;
+  const command = name === undefined ? undefined : COMMANDS[name];
+  return command ? command(rest, io) : runReport(argv, io);
+}
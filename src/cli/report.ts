@@ -0,0 +1,116 @@
+import { parseArgs } from 'util';
+import { DEFAULT_IGNORE_PATTERNS } from '../standalone/index.js';
+import {
+  formatRows,
+  rankFunctions,
+  REPORT_FORMATS,
+  SORT_METRICS,
+  toFunctionRows,
+  type ReportFormat,
+  type SortMetric,
+} from './format.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  analyzePaths,
+  parseChoice,
+  parseCount,
+  parseDiffOptions,
+  parseProfile,
+  runWithArgs,
+  PROFILE_OPTIONS,
+  PROFILE_USAGE,
+  DIFF_OPTIONS,
+  DIFF_USAGE,
+  withDefaultIgnores,
+  type CliIO,
+} from './shared.js';
+
+const DEFAULT_TOP = 20;
+
+export const REPORT_USAGE = `Usage: oxlint-complexity [options] [paths...]
+
+Analyze JS/TS/JSX/Vue/Svelte/Astro files and print the most complex functions.
+Paths default to the current directory.
+
+Options:
+  --top <n>              Show the N most complex functions (default: ${DEFAULT_TOP}, 0 = all)
+  --sort <metric>        Rank by ${SORT_METRICS.join(' | ')} (default: cognitive)
+  --min-cognitive <n>    Only include functions with cognitive complexity >= n
+  --min-cyclomatic <n>   Only include functions with cyclomatic complexity >= n
+  --format <format>      Output ${REPORT_FORMATS.join(' | ')} (default: table)
+${PROFILE_USAGE}
+${DIFF_USAGE}
+  --compare              With --diff-base: also show each function's scores at <rev>
+  --ignore <glob>        Skip matching files/directories (repeatable; adds to defaults:
+                         ${DEFAULT_IGNORE_PATTERNS.join(', ')})
+  -h, --help             Show this help
+
+Commands:
+  baseline generate|prune   Manage a baseline of known violations (see --help)
+  calibrate                 Recommend thresholds from the score distribution
+  compare                   Compare complexity between two revisions
+  hotspots                  Rank code by git churn times cognitive complexity
+  html                      Write a self-contained HTML report to browse the results
+  sarif                     Write a SARIF 2.1.0 log of threshold violations
+`;
+
+function parseReportArgs(argv: readonly string[], cwd: string) {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    options: {
+      top: { type: 'string' },
+      sort: { type: 'string' },
+      'min-cognitive': { type: 'string' },
+      'min-cyclomatic': { type: 'string' },
+      format: { type: 'string' },
+      ...PROFILE_OPTIONS,
+      ...DIFF_OPTIONS,
+      compare: { type: 'boolean' },
+      ignore: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.compare && values['diff-base'] === undefined) {
+    throw new Error('--compare requires --diff-base');
+  }
+
+  return {
+    help: values.help ?? false,
+    paths: positionals.length > 0 ? positionals : ['.'],
+    top: parseCount(values.top, '--top', DEFAULT_TOP),
+    sort: parseChoice<SortMetric>(values.sort, '--sort', SORT_METRICS, 'cognitive'),
+    minCognitive: parseCount(values['min-cognitive'], '--min-cognitive', 0),
+    minCyclomatic: parseCount(values['min-cyclomatic'], '--min-cyclomatic', 0),
+    format: parseChoice<ReportFormat>(values.format, '--format', REPORT_FORMATS, 'table'),
+    profile: parseProfile(values.profile),
+    ...parseDiffOptions(values, cwd),
+    compareBase: values.compare ?? false,
+    ignore: withDefaultIgnores(values.ignore),
+  };
+}
+
+/**
+ * Print a ranked report of the most complex functions.
+ * Files that fail to parse are reported on stderr and skipped.
+ */
+export function runReport(argv: readonly string[], io: CliIO): number {
+  return runWithArgs(
+    io,
+    REPORT_USAGE,
+    () => parseReportArgs(argv, io.cwd),
+    (args) => {
+      if (args.help) {
+        io.stdout(REPORT_USAGE);
+        return EXIT_OK;
+      }
+
+      const project = analyzePaths(io, args.paths, args);
+      if (!project) return EXIT_FAILURE;
+
+      io.stdout(formatRows(rankFunctions(toFunctionRows(project), args), args.format));
+      return EXIT_OK;
+    }
+  );
+}
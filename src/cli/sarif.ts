@@ -0,0 +1,103 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { formatSarif } from '../sarif.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  analyzePaths,
+  errorMessage,
+  parseDiffOptions,
+  parseProfile,
+  parseThresholds,
+  runWithArgs,
+  PROFILE_OPTIONS,
+  PROFILE_USAGE,
+  DIFF_OPTIONS,
+  DIFF_USAGE,
+  withDefaultIgnores,
+  THRESHOLD_OPTIONS,
+  THRESHOLD_USAGE,
+  type CliIO,
+} from './shared.js';
+
+export const SARIF_USAGE = `Usage: oxlint-complexity sarif [options] [paths...]
+
+Write a SARIF 2.1.0 log of every function over the thresholds, for code
+scanning tools. Rule IDs: complexity/cyclomatic, complexity/cognitive.
+
+Options:
+  --output <path>        Write to a file instead of stdout
+${THRESHOLD_USAGE}
+${PROFILE_USAGE}
+${DIFF_USAGE}
+  --ignore <glob>        Skip matching files/directories (repeatable)
+  -h, --help             Show this help
+`;
+
+function parseSarifArgs(argv: readonly string[], cwd: string) {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    options: {
+      output: { type: 'string' },
+      ...THRESHOLD_OPTIONS,
+      ...PROFILE_OPTIONS,
+      ...DIFF_OPTIONS,
+      ignore: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  return {
+    help: values.help ?? false,
+    paths: positionals.length > 0 ? positionals : ['.'],
+    output: values.output,
+    thresholds: parseThresholds(values),
+    profile: parseProfile(values.profile),
+    ...parseDiffOptions(values, cwd),
+    ignore: withDefaultIgnores(values.ignore),
+  };
+}
+
+/** `oxlint-complexity sarif`: print or write a SARIF log of threshold violations. */
+export function runSarif(argv: readonly string[], io: CliIO): number {
+  return runWithArgs(
+    io,
+    SARIF_USAGE,
+    () => parseSarifArgs(argv, io.cwd),
+    (args) => {
+      if (args.help) {
+        io.stdout(SARIF_USAGE);
+        return EXIT_OK;
+      }
+
+      const project = analyzePaths(io, args.paths, {
+        ignore: args.ignore,
+        cognitive: args.thresholds.cognitive,
+        profile: args.profile,
+        diff: args.diff,
+        diffBase: args.diffBase,
+      });
+      if (!project) return EXIT_FAILURE;
+
+      const sarif = formatSarif(project.files, {
+        ...args.thresholds,
+        srcRoot: pathToFileURL(project.root).href.replace(/\/?$/, '/'),
+      });
+      if (!args.output) {
+        io.stdout(sarif);
+        return EXIT_OK;
+      }
+
+      try {
+        writeFileSync(resolve(io.cwd, args.output), sarif);
+      } catch (error) {
+        io.stderr(`${errorMessage(error)}\n`);
+        return EXIT_FAILURE;
+      }
+      return EXIT_OK;
+    }
+  );
+}
@@ -0,0 +1,162 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  analyzeProject,
+  DEFAULT_IGNORE_PATTERNS,
+  type ProjectAnalysis,
+  type ProjectAnalysisOptions,
+} from '../standalone/index.js';
+import { PROFILE_NAMES, type ProfileName } from '../profile.js';
+import type { ComplexityThresholds } from '../types.js';
+import { DEFAULT_COGNITIVE, DEFAULT_CYCLOMATIC, DEFAULT_MIN_LINES } from '../rules/shared.js';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  cwd: string;
+}
+
+/** Exit codes: 0 success, 1 analysis errors, 2 invalid usage */
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  cwd: process.cwd(),
+};
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function parseCount(value: string | undefined, flag: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${flag} expects a non-negative integer, got "${value}"`);
+  }
+  return count;
+}
+
+export function parseChoice<T extends string>(
+  value: string | undefined,
+  flag: string,
+  choices: readonly T[],
+  fallback: T
+): T {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) {
+    throw new Error(`${flag} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse arguments and run a command, turning argument errors into a usage
+ * message on stderr and exit code 2.
+ */
+export function runWithArgs<T>(
+  io: CliIO,
+  usage: string,
+  parse: () => T,
+  run: (args: T) => number
+): number {
+  let args: T;
+  try {
+    args = parse();
+  } catch (error) {
+    io.stderr(`${errorMessage(error)}\n\n${usage}`);
+    return EXIT_USAGE;
+  }
+  return run(args);
+}
+
+/** Ignore globs from `--ignore`, on top of the defaults */
+export function withDefaultIgnores(ignore: readonly string[] | undefined): string[] {
+  return [...DEFAULT_IGNORE_PATTERNS, ...(ignore ?? [])];
+}
+
+/**
+ * Analyze paths relative to the CLI working directory, reporting skipped
+ * files on stderr. Returns `undefined` (after printing the error) if the
+ * paths cannot be read. `cognitive` is the threshold extraction suggestions
+ * are measured against.
+ */
+export function analyzePaths(
+  io: CliIO,
+  paths: readonly string[],
+  options: Pick<
+    ProjectAnalysisOptions,
+    'ignore' | 'cognitive' | 'profile' | 'diff' | 'diffBase' | 'compareBase'
+  >
+): ProjectAnalysis | undefined {
+  let project: ProjectAnalysis;
+  try {
+    project = analyzeProject(paths, { ...options, root: resolve(io.cwd) });
+  } catch (error) {
+    io.stderr(`${errorMessage(error)}\n`);
+    return undefined;
+  }
+
+  for (const { filename, message } of project.errors) {
+    io.stderr(`Skipped ${filename}: ${message}\n`);
+  }
+  return project;
+}
+
+/** `parseArgs` option for the scoring profile, shared by commands that compute scores */
+export const PROFILE_OPTIONS = {
+  profile: { type: 'string' },
+} as const;
+
+export const PROFILE_USAGE = `  --profile <name>       Scoring profile: ${PROFILE_NAMES.join(' | ')} (default: custom)`;
+
+export function parseProfile(value: string | undefined): ProfileName {
+  return parseChoice<ProfileName>(value, '--profile', PROFILE_NAMES, 'custom');
+}
+
+/** `parseArgs` options that limit a command to the functions a change touches */
+export const DIFF_OPTIONS = {
+  diff: { type: 'string' },
+  'diff-base': { type: 'string' },
+} as const;
+
+export const DIFF_USAGE = `  --diff <path>          Only report functions touched by this unified diff (- for stdin)
+  --diff-base <rev>      Only report functions touched by \`git diff <rev>\``;
+
+export function parseDiffOptions(
+  values: { diff?: string; 'diff-base'?: string },
+  cwd: string
+): Pick<ProjectAnalysisOptions, 'diff' | 'diffBase'> {
+  const path = values.diff;
+  return {
+    diff:
+      path === undefined ? undefined : readFileSync(path === '-' ? 0 : resolve(cwd, path), 'utf-8'),
+    diffBase: values['diff-base'],
+  };
+}
+
+/** `parseArgs` options for the rule thresholds, shared by commands that report violations */
+export const THRESHOLD_OPTIONS = {
+  cyclomatic: { type: 'string' },
+  cognitive: { type: 'string' },
+  'min-lines': { type: 'string' },
+} as const;
+
+export const THRESHOLD_USAGE = `  --cyclomatic <n>       Maximum cyclomatic complexity (default: ${DEFAULT_CYCLOMATIC})
+  --cognitive <n>        Maximum cognitive complexity (default: ${DEFAULT_COGNITIVE})
+  --min-lines <n>        Skip functions shorter than this (default: ${DEFAULT_MIN_LINES})`;
+
+export function parseThresholds(values: {
+  cyclomatic?: string;
+  cognitive?: string;
+  'min-lines'?: string;
+}): ComplexityThresholds {
+  return {
+    cyclomatic: parseCount(values.cyclomatic, '--cyclomatic', DEFAULT_CYCLOMATIC),
+    cognitive: parseCount(values.cognitive, '--cognitive', DEFAULT_COGNITIVE),
+    minLines: parseCount(values['min-lines'], '--min-lines', DEFAULT_MIN_LINES),
+  };
+}
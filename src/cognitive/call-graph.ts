@@ -0,0 +1,172 @@
+import type { CallExpressionNode, ComplexityPoint, ESTreeNode } from '../types.js';
+import { createComplexityPoint, DEFAULT_COMPLEXITY_INCREMENT } from '../utils.js';
+import { isThisCall } from './recursion.js';
+
+/** A group of functions that call each other, e.g. `isEven` and `isOdd` */
+export interface RecursionCycle {
+  /** Names of the functions in the cycle, in source order */
+  members: string[];
+  /** First call from this function to another member of the cycle */
+  call: ESTreeNode;
+}
+
+/**
+ * Calls between the named functions of one file, resolved by name the same
+ * way as self-recursion (`foo()`, `foo.call()`, `this.foo()`). Calls through
+ * `this` only reach methods of the class or object literal the caller belongs
+ * to, and other calls only reach functions that are not methods.
+ */
+export interface CallGraph {
+  addFunction(node: ESTreeNode, name: string): void;
+  addCall(caller: ESTreeNode, calleeName: string, call: ESTreeNode): void;
+  /**
+   * Cycle of two or more functions that each function belongs to, found as
+   * the strongly connected components of the graph. Self-recursion is left to
+   * `isRecursiveCall`.
+   */
+  findCycles(): Map<ESTreeNode, RecursionCycle>;
+}
+
+interface CallEdge {
+  calleeName: string;
+  call: ESTreeNode;
+  /** Class body or object literal whose methods the call can reach; `null` for free functions */
+  owner: ESTreeNode | null;
+}
+
+const MEMBER_TYPES: ReadonlySet<string> = new Set([
+  'MethodDefinition',
+  'PropertyDefinition',
+  'Property',
+]);
+
+/** Class body or object literal a method (or function-valued field) belongs to */
+function getMemberOwner(node: ESTreeNode): ESTreeNode | null {
+  const member = node.parent;
+  if (!member || !MEMBER_TYPES.has(member.type)) return null;
+  return (member as { value?: ESTreeNode | null }).value === node ? (member.parent ?? null) : null;
+}
+
+/**
+ * Class body or object literal `this` refers to at a node: the owner of the
+ * closest non-arrow function, or the class of a field initializer or static
+ * block. `undefined` when `this` is not a known owner.
+ */
+function getThisOwner(node: ESTreeNode): ESTreeNode | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    switch (current.type) {
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+        return getMemberOwner(current) ?? undefined;
+      case 'PropertyDefinition':
+      case 'StaticBlock':
+        return current.parent ?? undefined;
+      case 'Program':
+        return undefined;
+    }
+  }
+  return undefined;
+}
+
+export function createCallGraph(): CallGraph {
+  const names = new Map<ESTreeNode, string>();
+  const owners = new Map<ESTreeNode, ESTreeNode | null>();
+  const nodesByName = new Map<string, ESTreeNode[]>();
+  const edges = new Map<ESTreeNode, CallEdge[]>();
+
+  function getCallees(node: ESTreeNode): { callee: ESTreeNode; call: ESTreeNode }[] {
+    return (edges.get(node) ?? []).flatMap(({ calleeName, call, owner }) =>
+      (nodesByName.get(calleeName) ?? [])
+        .filter((callee) => callee !== node && owners.get(callee) === owner)
+        .map((callee) => ({ callee, call }))
+    );
+  }
+
+  /** Tarjan's algorithm; components are returned with their members in source order. */
+  function findComponents(): ESTreeNode[][] {
+    const visits = new Map<ESTreeNode, { index: number; lowLink: number }>();
+    const stack: ESTreeNode[] = [];
+    const onStack = new Set<ESTreeNode>();
+    const components: ESTreeNode[][] = [];
+
+    function connect(node: ESTreeNode): { index: number; lowLink: number } {
+      const visit = { index: visits.size, lowLink: visits.size };
+      visits.set(node, visit);
+      stack.push(node);
+      onStack.add(node);
+
+      for (const { callee } of getCallees(node)) {
+        const calleeVisit = visits.get(callee);
+        if (!calleeVisit) {
+          visit.lowLink = Math.min(visit.lowLink, connect(callee).lowLink);
+        } else if (onStack.has(callee)) {
+          visit.lowLink = Math.min(visit.lowLink, calleeVisit.index);
+        }
+      }
+
+      if (visit.lowLink === visit.index) {
+        const start = stack.lastIndexOf(node);
+        const component = stack.splice(start);
+        for (const member of component) onStack.delete(member);
+        components.push(component);
+      }
+      return visit;
+    }
+
+    for (const node of names.keys()) {
+      if (!visits.has(node)) connect(node);
+    }
+
+    const order = new Map([...names.keys()].map((node, position) => [node, position]));
+    const position = (node: ESTreeNode) => order.get(node) ?? 0;
+    return components.map((component) => component.toSorted((a, b) => position(a) - position(b)));
+  }
+
+  return {
+    addFunction(node, name) {
+      names.set(node, name);
+      owners.set(node, getMemberOwner(node));
+      const sameName = nodesByName.get(name);
+      if (sameName) sameName.push(node);
+      else nodesByName.set(name, [node]);
+    },
+
+    addCall(caller, calleeName, call) {
+      const owner = isThisCall(call as CallExpressionNode) ? getThisOwner(call) : null;
+      if (owner === undefined) return;
+      const edge = { calleeName, call, owner };
+      const callerEdges = edges.get(caller);
+      if (callerEdges) callerEdges.push(edge);
+      else edges.set(caller, [edge]);
+    },
+
+    findCycles() {
+      const cycles = new Map<ESTreeNode, RecursionCycle>();
+
+      for (const component of findComponents()) {
+        if (component.length < 2) continue;
+        const members = component.map((node) => names.get(node) ?? '<anonymous>');
+        for (const node of component) {
+          const edge = getCallees(node).find(({ callee }) => component.includes(callee));
+          if (edge) cycles.set(node, { members, call: edge.call });
+        }
+      }
+
+      return cycles;
+    },
+  };
+}
+
+/** Cognitive `recursion` increment for a function in a recursion cycle. */
+export function createRecursionCyclePoint(
+  cycle: RecursionCycle,
+  amount: number = DEFAULT_COMPLEXITY_INCREMENT
+): ComplexityPoint {
+  return createComplexityPoint(
+    cycle.call,
+    `mutual recursion (${cycle.members.join(', ')})`,
+    amount,
+    0,
+    'recursion'
+  );
+}
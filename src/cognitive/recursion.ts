@@ -12,55 +12,50 @@ function getPropertyName(prop: ESTreeNode, computed: boolean): string | null {
   return null;
 }
 
-/** Check for direct recursion: foo() inside function foo */
-function isDirectRecursion(callee: ESTreeNode, functionName: string): boolean {
-  return callee?.type === 'Identifier' && callee.name === functionName;
+/** foo() or foo.call(...), foo.apply(...), foo.bind(...)(...) */
+function getFunctionCalleeName(callee: ESTreeNode): string | null {
+  if (callee?.type === 'Identifier') return callee.name;
+  if (callee?.type !== 'MemberExpression') return null;
+  if (callee.object?.type !== 'Identifier') return null;
+  if (callee.property?.type !== 'Identifier') return null;
+  return CALL_APPLY_BIND.has(callee.property.name) ? callee.object.name : null;
 }
 
-/** Check for foo.call(...), foo.apply(...), foo.bind(...)(...) */
-function isCallApplyBindRecursion(callee: ESTreeNode, functionName: string): boolean {
-  if (callee?.type !== 'MemberExpression') return false;
-  if (callee.object?.type !== 'Identifier') return false;
-  if (callee.object.name !== functionName) return false;
-  if (callee.property?.type !== 'Identifier') return false;
-  return CALL_APPLY_BIND.has(callee.property.name);
-}
-
-/** Check for this.foo() or this["foo"]() inside method foo */
-function isThisMethodRecursion(callee: ESTreeNode, functionName: string): boolean {
-  if (callee?.type !== 'MemberExpression') return false;
-  if (callee.object?.type !== 'ThisExpression') return false;
-  const propName = getPropertyName(callee.property, callee.computed ?? false);
-  return propName === functionName;
-}
-
-/** Check for this.foo.call(...), this.foo.apply(...), etc. */
-function isThisMethodCallApplyBindRecursion(callee: ESTreeNode, functionName: string): boolean {
-  if (callee?.type !== 'MemberExpression') return false;
-  if (callee.object?.type !== 'MemberExpression') return false;
-  if (callee.object.object?.type !== 'ThisExpression') return false;
-  if (callee.property?.type !== 'Identifier') return false;
-  if (!CALL_APPLY_BIND.has(callee.property.name)) return false;
-  const propName = getPropertyName(callee.object.property, callee.object.computed ?? false);
-  return propName === functionName;
+/** this.foo(), this["foo"]() or this.foo.call(...), etc. */
+function getMethodCalleeName(callee: ESTreeNode): string | null {
+  if (callee?.type !== 'MemberExpression') return null;
+  if (callee.object?.type === 'ThisExpression') {
+    return getPropertyName(callee.property, callee.computed ?? false);
+  }
+  if (callee.object?.type !== 'MemberExpression') return null;
+  if (callee.object.object?.type !== 'ThisExpression') return null;
+  if (callee.property?.type !== 'Identifier') return null;
+  if (!CALL_APPLY_BIND.has(callee.property.name)) return null;
+  return getPropertyName(callee.object.property, callee.object.computed ?? false);
 }
 
 /**
- * Check if a call expression is a recursive call to the current function.
+ * Name of the function a call expression targets, as used for recursion
+ * detection.
  *
- * Detects:
- * - Direct recursion: foo() inside function foo
+ * Resolves:
+ * - Direct calls: foo()
  * - Call/apply/bind: foo.call(...), foo.apply(...), foo.bind(...)()
- * - Method recursion: this.foo() or this["foo"]() inside method foo
+ * - Method calls: this.foo() or this["foo"]()
  * - Method with call/apply/bind: this.foo.call(...), etc.
  */
-export function isRecursiveCall(node: CallExpressionNode, functionName: string): boolean {
+export function getCalleeName(node: CallExpressionNode): string | null {
   const callee = node.callee as ESTreeNode;
+  return getFunctionCalleeName(callee) ?? getMethodCalleeName(callee);
+}
 
-  return (
-    isDirectRecursion(callee, functionName) ||
-    isCallApplyBindRecursion(callee, functionName) ||
-    isThisMethodRecursion(callee, functionName) ||
-    isThisMethodCallApplyBindRecursion(callee, functionName)
-  );
+/** Whether a call targets a method through `this` rather than a function by name. */
+export function isThisCall(node: CallExpressionNode): boolean {
+  const callee = node.callee as ESTreeNode;
+  return getFunctionCalleeName(callee) === null && getMethodCalleeName(callee) !== null;
+}
+
+/** Check if a call expression is a recursive call to the current function. */
+export function isRecursiveCall(node: CallExpressionNode, functionName: string): boolean {
+  return getCalleeName(node) === functionName;
 }
@@ -9,13 +9,18 @@ import type {
   CallExpressionNode,
   CatchClauseNode,
   SwitchStatementNode,
-  FunctionNode,
   ComplexityResult,
   FunctionScope,
 } from '../types.js';
 import { isElseIf, isDefaultValuePattern, isJsxShortCircuit } from './patterns.js';
-import { isRecursiveCall } from './recursion.js';
-import { createComplexityPoint, DEFAULT_COMPLEXITY_INCREMENT, getFunctionName } from '../utils.js';
+import { getCalleeName } from './recursion.js';
+import { createCallGraph, createRecursionCyclePoint } from './call-graph.js';
+import {
+  createComplexityPoint,
+  DEFAULT_COMPLEXITY_INCREMENT,
+  getUnitName,
+  isFunctionNode,
+} from '../utils.js';
 import { createComplexityVisitor } from '../visitor.js';
 import { getVariablesForFunction } from '../extraction/variable-tracker.js';
 import type { VariableInfo } from '../extraction/types.js';
@@ -31,6 +36,7 @@ interface VisitorContext {
   addComplexity: (node: ESTreeNode, message: string) => void;
   addStructuralComplexity: (node: ESTreeNode, message: string) => void;
   addNestingNode: (node: ESTreeNode) => void;
+  addCall: (caller: ESTreeNode, calleeName: string, call: ESTreeNode) => void;
   ruleContext: Context;
 }
 
@@ -105,8 +111,13 @@ function buildVisitorHandlers(baseVisitor: Partial<Visitor>, ctx: VisitorContext
 
     CallExpression(node: CallExpressionNode): void {
       const scope = ctx.getCurrentScope();
-      if (scope?.name && isRecursiveCall(node, scope.name)) {
+      const calleeName = scope?.name ? getCalleeName(node) : null;
+      if (!scope || !calleeName) return;
+
+      if (calleeName === scope.name) {
         scope.hasRecursiveCall = true;
+      } else {
+        ctx.addCall(scope.node, calleeName, node as ESTreeNode);
       }
     },
 
@@ -154,6 +165,23 @@ function createCognitiveVisitorCore<TResult extends ComplexityResult>(
   options: CognitiveVisitorOptions<TResult>
 ): Visitor {
   let globalFunctionNestingLevel = 0;
+  let callGraph = createCallGraph();
+  let pending: { result: TResult; node: ESTreeNode }[] = [];
+
+  // Results wait for Program:exit so that recursion cycles can be resolved
+  function flushPending(): void {
+    const cycles = callGraph.findCycles();
+    for (const { result, node } of pending) {
+      const cycle = cycles.get(node);
+      if (cycle && !result.points.some((point) => point.kind === 'recursion')) {
+        result.points.push(createRecursionCyclePoint(cycle));
+        result.total += DEFAULT_COMPLEXITY_INCREMENT;
+      }
+      options.onComplexityCalculated(result, node);
+    }
+    callGraph = createCallGraph();
+    pending = [];
+  }
 
   const { context: visitorCtx, baseVisitor } = createComplexityVisitor<CognitiveFunctionScope>({
     createScope: (node, name) => ({
@@ -165,7 +193,8 @@ function createCognitiveVisitorCore<TResult extends ComplexityResult>(
       hasRecursiveCall: false,
     }),
 
-    onEnterFunction(parentScope, node) {
+    onEnterFunction(parentScope, node, scope) {
+      if (scope.name) callGraph.addFunction(node, scope.name);
       if (globalFunctionNestingLevel === 0) {
         options.onEnterTopLevelFunction?.(node);
       }
@@ -173,15 +202,25 @@ function createCognitiveVisitorCore<TResult extends ComplexityResult>(
       if (parentScope && globalFunctionNestingLevel > 0) {
         const functionType =
           node.type === 'ArrowFunctionExpression' ? 'arrow function' : 'function';
-        parentScope.points.push(createComplexityPoint(node, `nested ${functionType}`));
+        parentScope.points.push(
+          createComplexityPoint(
+            node,
+            `nested ${functionType}`,
+            DEFAULT_COMPLEXITY_INCREMENT,
+            0,
+            'nesting-penalty'
+          )
+        );
       }
-      globalFunctionNestingLevel++;
+      if (isFunctionNode(node)) globalFunctionNestingLevel++;
     },
 
     onExitFunction(scope, node) {
-      globalFunctionNestingLevel--;
+      if (isFunctionNode(node)) globalFunctionNestingLevel--;
       if (scope.hasRecursiveCall) {
-        scope.points.push(createComplexityPoint(node, 'recursion'));
+        scope.points.push(
+          createComplexityPoint(node, 'recursion', DEFAULT_COMPLEXITY_INCREMENT, 0, 'recursion')
+        );
       }
     },
 
@@ -189,7 +228,13 @@ function createCognitiveVisitorCore<TResult extends ComplexityResult>(
       const additionalData =
         globalFunctionNestingLevel === 0 ? (options.onExitTopLevelFunction?.(node) ?? {}) : {};
 
-      options.onComplexityCalculated({ ...result, ...additionalData } as TResult, node);
+      const fullResult = { ...result, ...additionalData } as TResult;
+      if (node.type !== 'Program') {
+        pending.push({ result: fullResult, node });
+        return;
+      }
+      flushPending();
+      options.onComplexityCalculated(fullResult, node);
     },
   });
 
@@ -199,7 +244,13 @@ function createCognitiveVisitorCore<TResult extends ComplexityResult>(
     const scope = getCurrentScope();
     if (scope) {
       scope.points.push(
-        createComplexityPoint(node, message, DEFAULT_COMPLEXITY_INCREMENT, scope.nestingLevel)
+        createComplexityPoint(
+          node,
+          message,
+          DEFAULT_COMPLEXITY_INCREMENT,
+          scope.nestingLevel,
+          'structural'
+        )
       );
     }
   }
@@ -216,6 +267,7 @@ function createCognitiveVisitorCore<TResult extends ComplexityResult>(
     addComplexity,
     addStructuralComplexity,
     addNestingNode,
+    addCall: (caller, calleeName, call) => callGraph.addCall(caller, calleeName, call),
     ruleContext: context,
   });
 }
@@ -231,11 +283,15 @@ function createCognitiveVisitorCore<TResult extends ComplexityResult>(
  *
  * ADDITIONAL FEATURES:
  * - Nested function penalty: +1 for each level of function nesting
- * - Recursion detection: +1 for direct recursive calls
+ * - Recursion detection: +1 for direct recursive calls and for each function
+ *   in a mutual recursion cycle (results are delivered at `Program:exit`)
  *
  * EXCLUDED PATTERNS:
  * - Default value patterns: `const x = a || literal`, `a = a || literal`
  * - JSX short-circuit: `{show && <Component />}`
+ *
+ * Always scores with these weights (the `custom` profile); use
+ * `createCombinedComplexityVisitor` to apply another profile or `weights`.
  */
 export function createCognitiveVisitor(
   context: Context,
@@ -262,8 +318,7 @@ export function createCognitiveVisitorWithTracking(
   return createCognitiveVisitorCore<ComplexityResultWithVariables>(context, {
     onExitTopLevelFunction(node) {
       const variables = getVariablesForFunction(context, node);
-      const funcNode = node as FunctionNode;
-      const functionName = getFunctionName(funcNode, funcNode.parent);
+      const functionName = getUnitName(node);
       return { variables, functionName };
     },
 
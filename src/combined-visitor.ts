@@ -3,15 +3,19 @@ import type {
   ESTreeNode,
   FunctionScope,
   ComplexityPoint,
+  ComplexityPointKind,
   LogicalExpressionNode,
   SwitchCaseNode,
   IfStatementNode,
   CatchClauseNode,
+  TryStatementNode,
   AssignmentExpressionNode,
   LabeledJumpStatementNode,
   CallExpressionNode,
+  MemberExpressionNode,
   ConditionalExpressionNode,
   Context,
+  NestingStep,
 } from './types.js';
 import { createComplexityVisitor } from './visitor.js';
 import {
@@ -19,15 +23,33 @@ import {
   LOGICAL_OPERATORS,
   LOGICAL_ASSIGNMENT_OPERATORS,
   createComplexityPoint,
-  DEFAULT_COMPLEXITY_INCREMENT,
   includes,
+  isFunctionNode,
 } from './utils.js';
 import { isElseIf, isDefaultValuePattern, isJsxShortCircuit } from './cognitive/patterns.js';
-import { isRecursiveCall } from './cognitive/recursion.js';
+import { getCalleeName } from './cognitive/recursion.js';
+import { createCallGraph, createRecursionCyclePoint } from './cognitive/call-graph.js';
+import { DEFAULT_PROFILE, type CognitiveWeights, type ScoringProfile } from './profile.js';
+
+/**
+ * A node whose subtree is one level deeper. Cognitive nesting and block depth
+ * mostly coincide: ternary branches only count for cognitive nesting, and `try`
+ * blocks only for depth.
+ */
+interface NestingEntry {
+  step: NestingStep;
+  cognitive: boolean;
+  depth: boolean;
+}
+
+type NestingKind = Partial<Pick<NestingEntry, 'cognitive' | 'depth'>>;
 
 interface CombinedComplexityScope extends FunctionScope {
   nestingLevel: number;
-  nestingNodes: Set<ESTreeNode>;
+  nestingNodes: Map<ESTreeNode, NestingEntry>;
+  /** Constructs enclosing the current node */
+  nestingChain: NestingStep[];
+  deepestNesting: NestingStep[];
   hasRecursiveCall: boolean;
   cyclomaticPoints: ComplexityPoint[];
   cognitivePoints: ComplexityPoint[];
@@ -38,18 +60,76 @@ export interface CombinedComplexityResult {
   cognitive: number;
   cyclomaticPoints: ComplexityPoint[];
   cognitivePoints: ComplexityPoint[];
+  /** Maximum block nesting depth (`if`, `else`, loops, `switch`, `try`, `catch`) */
+  maxDepth: number;
+  /** Constructs along the deepest nesting path, outermost first */
+  deepestNesting: NestingStep[];
+}
+
+interface PendingResult {
+  result: CombinedComplexityResult;
+  node: ESTreeNode;
+  hasRecursiveCall: boolean;
+}
+
+/** Default value patterns and JSX short-circuits have their own weights */
+function getLogicalSequenceWeight(
+  node: LogicalExpressionNode,
+  context: Context,
+  weights: CognitiveWeights
+): number {
+  if (isDefaultValuePattern(node, context)) return weights.defaultValueFallback;
+  if (isJsxShortCircuit(node)) return weights.jsxShortCircuit;
+  return node.operator === '??' ? weights.nullishCoalescing : weights.logicalOperator;
+}
+
+/** The penalty is added to the PARENT scope, not the nested function's own scope */
+function addNestedFunctionPenalty(
+  parentScope: CombinedComplexityScope,
+  node: ESTreeNode,
+  amount: number
+): void {
+  if (amount === 0) return;
+  const functionType = node.type === 'ArrowFunctionExpression' ? 'arrow function' : 'function';
+  parentScope.cognitivePoints.push(
+    createComplexityPoint(node, `nested ${functionType}`, amount, 0, 'nesting-penalty')
+  );
 }
 
 /**
  * Create a combined visitor that calculates both cyclomatic and cognitive complexity
  * in a single AST walk.
+ *
+ * Function results are delivered at `Program:exit`, once the file's call graph
+ * is complete and functions in a recursion cycle have their `recursion` point.
+ *
+ * Each construct adds its weight in the scoring profile, which is read from
+ * `getProfile` at the start of each file; constructs weighted 0 are not counted.
  */
-// eslint-disable-next-line complexity/complexity -- Visitor factory pattern requires many nested handlers
+// complexity-budget cognitive=35 -- visitor factory pattern requires many nested handlers
 export function createCombinedComplexityVisitor(
   context: Context,
-  onComplexityCalculated: (result: CombinedComplexityResult, node: ESTreeNode) => void
+  onComplexityCalculated: (result: CombinedComplexityResult, node: ESTreeNode) => void,
+  getProfile: () => ScoringProfile = () => DEFAULT_PROFILE
 ): Visitor {
+  let { cyclomatic: cyclomaticWeights, cognitive: cognitiveWeights } = DEFAULT_PROFILE;
   let globalFunctionNestingLevel = 0;
+  let callGraph = createCallGraph();
+  let pending: PendingResult[] = [];
+
+  function flushPending(): void {
+    const cycles = callGraph.findCycles();
+    for (const { result, node, hasRecursiveCall } of pending) {
+      const cycle = cycles.get(node);
+      if (cycle && !hasRecursiveCall && cognitiveWeights.recursion > 0) {
+        result.cognitivePoints.push(createRecursionCyclePoint(cycle, cognitiveWeights.recursion));
+        result.cognitive += cognitiveWeights.recursion;
+      }
+      onComplexityCalculated(result, node);
+    }
+    callGraph = createCallGraph();
+    pending = [];
+  }
 
   const { context: visitorContext, baseVisitor } = createComplexityVisitor<CombinedComplexityScope>(
     {
@@ -60,24 +140,29 @@ export function createCombinedComplexityVisitor(
         cyclomaticPoints: [],
         cognitivePoints: [],
         nestingLevel: 0,
-        nestingNodes: new Set(),
+        nestingNodes: new Map(),
+        nestingChain: [],
+        deepestNesting: [],
         hasRecursiveCall: false,
       }),
 
-      onEnterFunction(parentScope, node, _scope) {
+      onEnterFunction(parentScope, node, scope) {
+        // Rule options are only available once a file is being linted
+        if (node.type === 'Program') {
+          ({ cyclomatic: cyclomaticWeights, cognitive: cognitiveWeights } = getProfile());
+        }
+        if (scope.name) callGraph.addFunction(node, scope.name);
+
         // Only add nested function penalty for functions inside other functions
         // (not for top-level arrow functions or callbacks)
-        // The penalty is added to the PARENT scope, not the nested function's own scope
         if (parentScope && globalFunctionNestingLevel > 0) {
-          const functionType =
-            node.type === 'ArrowFunctionExpression' ? 'arrow function' : 'function';
-          parentScope.cognitivePoints.push(createComplexityPoint(node, `nested ${functionType}`));
+          addNestedFunctionPenalty(parentScope, node, cognitiveWeights.nestedFunction);
         }
-        globalFunctionNestingLevel++;
+        if (isFunctionNode(node)) globalFunctionNestingLevel++;
       },
 
       onExitFunction(scope, node) {
-        globalFunctionNestingLevel--;
+        if (isFunctionNode(node)) globalFunctionNestingLevel--;
 
         const cyclomatic = scope.cyclomaticPoints.reduce(
           (sum, point) => sum + point.complexity,
@@ -85,15 +170,20 @@ export function createCombinedComplexityVisitor(
         );
         const cognitive = scope.cognitivePoints.reduce((sum, point) => sum + point.complexity, 0);
 
-        onComplexityCalculated(
-          {
-            cyclomatic,
-            cognitive,
-            cyclomaticPoints: scope.cyclomaticPoints,
-            cognitivePoints: scope.cognitivePoints,
-          },
-          node
-        );
+        const result = {
+          cyclomatic,
+          cognitive,
+          cyclomaticPoints: scope.cyclomaticPoints,
+          cognitivePoints: scope.cognitivePoints,
+          maxDepth: scope.deepestNesting.length,
+          deepestNesting: scope.deepestNesting,
+        };
+        if (node.type !== 'Program') {
+          pending.push({ result, node, hasRecursiveCall: scope.hasRecursiveCall });
+          return;
+        }
+        flushPending();
+        onComplexityCalculated(result, node);
       },
 
       // Required by the base visitor interface; actual reporting is in onExitFunction
@@ -103,57 +193,87 @@ export function createCombinedComplexityVisitor(
 
   const { getCurrentScope } = visitorContext;
 
-  function addCyclomatic(node: ESTreeNode, message: string, amount: number = 1): void {
+  function addCyclomatic(node: ESTreeNode, message: string, amount: number): void {
     const scope = getCurrentScope();
-    if (scope) {
+    if (scope && amount > 0) {
       scope.cyclomaticPoints.push(createComplexityPoint(node, message, amount));
     }
   }
 
-  function addCognitive(node: ESTreeNode, message: string): void {
+  function addCognitive(
+    node: ESTreeNode,
+    message: string,
+    amount: number,
+    kind: ComplexityPointKind = 'flat'
+  ): void {
     const scope = getCurrentScope();
-    if (scope) {
-      scope.cognitivePoints.push(createComplexityPoint(node, message));
+    if (scope && amount > 0) {
+      scope.cognitivePoints.push(createComplexityPoint(node, message, amount, 0, kind));
     }
   }
 
-  function addStructuralCognitive(node: ESTreeNode, message: string): void {
+  function addStructuralCognitive(node: ESTreeNode, message: string, amount: number): void {
     const scope = getCurrentScope();
-    if (scope) {
+    if (scope && amount > 0) {
       scope.cognitivePoints.push(
-        createComplexityPoint(node, message, DEFAULT_COMPLEXITY_INCREMENT, scope.nestingLevel)
+        createComplexityPoint(node, message, amount, scope.nestingLevel, 'structural')
       );
     }
   }
 
-  function addNestingNode(node: ESTreeNode): void {
+  /**
+   * Mark `node` as opening a nesting level for `owner` (the construct shown in
+   * the depth chain). Both kinds of nesting apply unless `kind` says otherwise.
+   */
+  function addNestingNode(
+    node: ESTreeNode,
+    owner: ESTreeNode,
+    construct: string,
+    { cognitive = true, depth = true }: NestingKind = {}
+  ): void {
     const scope = getCurrentScope();
     if (scope) {
-      scope.nestingNodes.add(node);
+      const step = { construct, location: owner.loc ?? node.loc };
+      scope.nestingNodes.set(node, { step, cognitive, depth });
     }
   }
 
   function handleNestingEnter(node: ESTreeNode): void {
     const scope = getCurrentScope();
-    if (!scope?.nestingNodes.has(node)) return;
-    scope.nestingLevel++;
+    const entry = scope?.nestingNodes.get(node);
+    if (!scope || !entry) return;
+    if (entry.cognitive) scope.nestingLevel++;
+    if (entry.depth) {
+      scope.nestingChain.push(entry.step);
+      if (scope.nestingChain.length > scope.deepestNesting.length) {
+        scope.deepestNesting = [...scope.nestingChain];
+      }
+    }
   }
 
   function handleNestingExit(node: ESTreeNode): void {
     const scope = getCurrentScope();
-    if (!scope?.nestingNodes.has(node)) return;
-    scope.nestingLevel--;
+    const entry = scope?.nestingNodes.get(node);
+    if (!scope || !entry) return;
+    if (entry.cognitive) scope.nestingLevel--;
+    if (entry.depth) scope.nestingChain.pop();
     scope.nestingNodes.delete(node);
   }
 
   function handleIfStatement(node: IfStatementNode): void {
-    addCyclomatic(node, 'if');
+    addCyclomatic(node, 'if', cyclomaticWeights.if);
 
     if (isElseIf(node)) {
-      addCognitive(node, 'else if');
+      addCognitive(node, 'else if', cognitiveWeights.elseIf);
+      addNestingNode(node.consequent, node, 'else if', { cognitive: false });
     } else {
-      addStructuralCognitive(node, 'if');
-      addNestingNode(node.consequent);
+      addStructuralCognitive(node, 'if', cognitiveWeights.if);
+      addNestingNode(node.consequent, node, 'if');
+    }
+
+    // Cognitive nesting for `else` is added on exit
+    if (node.alternate && node.alternate.type !== 'IfStatement') {
+      addNestingNode(node.alternate, node.alternate, 'else', { cognitive: false });
     }
   }
 
@@ -163,13 +283,12 @@ export function createCombinedComplexityVisitor(
     const operator = node.operator;
     if (!includes(LOGICAL_OPERATORS, operator)) return;
 
-    // Cyclomatic: always count logical operators
-    addCyclomatic(node, operator);
-
-    // Cognitive: skip default value patterns and JSX short-circuit
-    if (isDefaultValuePattern(node, context) || isJsxShortCircuit(node)) {
-      return;
-    }
+    const isNullish = operator === '??';
+    addCyclomatic(
+      node,
+      operator,
+      isNullish ? cyclomaticWeights.nullishCoalescing : cyclomaticWeights.logicalOperator
+    );
 
     // Cognitive: only count if NOT a continuation of the same operator
     // (e.g., a && b && c counts as +1, not +3)
@@ -178,14 +297,18 @@ export function createCombinedComplexityVisitor(
       parent?.type === 'LogicalExpression' && parent.operator === operator;
 
     if (!isContinuationOfSameOperator) {
-      addCognitive(node, `logical operator '${operator}'`);
+      addCognitive(
+        node,
+        `logical operator '${operator}'`,
+        getLogicalSequenceWeight(node, context, cognitiveWeights)
+      );
     }
   }
 
   function handleLabeledJump(node: ESTreeNode, keyword: string): void {
     const stmt = node as LabeledJumpStatementNode;
     if (stmt.label) {
-      addCognitive(node, `${keyword} to label '${stmt.label.name}'`);
+      addCognitive(node, `${keyword} to label '${stmt.label.name}'`, cognitiveWeights.labeledJump);
     }
   }
 
@@ -196,9 +319,9 @@ export function createCombinedComplexityVisitor(
   } {
     return {
       enter(node: ESTreeNode) {
-        addCyclomatic(node, label);
-        addStructuralCognitive(node, label);
-        addNestingNode((node as { body: ESTreeNode }).body);
+        addCyclomatic(node, label, cyclomaticWeights.loop);
+        addStructuralCognitive(node, label, cognitiveWeights.loop);
+        addNestingNode((node as { body: ESTreeNode }).body, node, label);
       },
       exit(node: ESTreeNode) {
         handleNestingExit((node as { body: ESTreeNode }).body);
@@ -232,8 +355,8 @@ export function createCombinedComplexityVisitor(
 
       // Add 'else' complexity only for plain else blocks, not else-if chains
       if (ifNode.alternate && ifNode.alternate.type !== 'IfStatement') {
-        addCognitive(node, 'else');
-        addNestingNode(ifNode.alternate);
+        addCognitive(node, 'else', cognitiveWeights.else);
+        addNestingNode(ifNode.alternate, ifNode.alternate, 'else', { depth: false });
       }
     },
     'IfStatement > .alternate:exit'(node: ESTreeNode) {
@@ -252,23 +375,32 @@ export function createCombinedComplexityVisitor(
     'DoWhileStatement:exit': doWhileLoop.exit,
 
     SwitchCase(node: ESTreeNode) {
-      const switchCase = node as SwitchCaseNode;
-      if (switchCase.test !== null) {
-        addCyclomatic(node, 'case');
+      if ((node as SwitchCaseNode).test !== null) {
+        addCyclomatic(node, 'case', cyclomaticWeights.case);
+      } else {
+        addCyclomatic(node, 'default', cyclomaticWeights.defaultCase);
       }
     },
     SwitchStatement(node: ESTreeNode) {
-      addStructuralCognitive(node, 'switch');
-      addNestingNode(node);
+      addStructuralCognitive(node, 'switch', cognitiveWeights.switch);
+      addNestingNode(node, node, 'switch');
     },
     'SwitchStatement:exit'(node: ESTreeNode) {
       handleNestingExit(node);
     },
 
+    TryStatement(node: ESTreeNode) {
+      const tryNode = node as TryStatementNode;
+      addNestingNode(tryNode.block, node, 'try', { cognitive: false });
+      if (tryNode.finalizer) {
+        addNestingNode(tryNode.finalizer, tryNode.finalizer, 'finally', { cognitive: false });
+      }
+    },
+
     CatchClause(node: ESTreeNode) {
-      addCyclomatic(node, 'catch');
-      addStructuralCognitive(node, 'catch');
-      addNestingNode((node as CatchClauseNode).body);
+      addCyclomatic(node, 'catch', cyclomaticWeights.catch);
+      addStructuralCognitive(node, 'catch', cognitiveWeights.catch);
+      addNestingNode((node as CatchClauseNode).body, node, 'catch');
     },
     'CatchClause:exit'(node: ESTreeNode) {
       handleNestingExit((node as CatchClauseNode).body);
@@ -276,11 +408,12 @@ export function createCombinedComplexityVisitor(
 
     ConditionalExpression(node: ESTreeNode) {
       const ternary = node as ConditionalExpressionNode;
-      addCyclomatic(node, 'ternary');
-      addStructuralCognitive(node, 'ternary operator');
+      addCyclomatic(node, 'ternary', cyclomaticWeights.ternary);
+      addStructuralCognitive(node, 'ternary operator', cognitiveWeights.ternary);
       // Add nesting for both branches to properly track nested ternaries
-      addNestingNode(ternary.consequent as ESTreeNode);
-      addNestingNode(ternary.alternate as ESTreeNode);
+      const ternaryNesting = { depth: false };
+      addNestingNode(ternary.consequent as ESTreeNode, node, 'ternary', ternaryNesting);
+      addNestingNode(ternary.alternate as ESTreeNode, node, 'ternary', ternaryNesting);
     },
 
     LogicalExpression(node: ESTreeNode) {
@@ -290,7 +423,17 @@ export function createCombinedComplexityVisitor(
     AssignmentExpression(node: ESTreeNode) {
       const assignment = node as AssignmentExpressionNode;
       if (includes(LOGICAL_ASSIGNMENT_OPERATORS, assignment.operator)) {
-        addCyclomatic(node, assignment.operator);
+        addCyclomatic(node, assignment.operator, cyclomaticWeights.logicalAssignment);
+      }
+    },
+
+    AssignmentPattern(node: ESTreeNode) {
+      addCyclomatic(node, 'default value', cyclomaticWeights.defaultValue);
+    },
+
+    MemberExpression(node: ESTreeNode) {
+      if ((node as MemberExpressionNode).optional) {
+        addCyclomatic(node, '?.', cyclomaticWeights.optionalChain);
       }
     },
 
@@ -302,12 +445,18 @@ export function createCombinedComplexityVisitor(
     },
 
     CallExpression(node: ESTreeNode) {
+      if ((node as CallExpressionNode).optional) {
+        addCyclomatic(node, '?.', cyclomaticWeights.optionalChain);
+      }
       const scope = getCurrentScope();
-      if (!scope?.name) return;
+      const calleeName = scope?.name ? getCalleeName(node as CallExpressionNode) : null;
+      if (!scope || !calleeName) return;
 
-      if (!scope.hasRecursiveCall && isRecursiveCall(node as CallExpressionNode, scope.name)) {
+      if (calleeName !== scope.name) {
+        callGraph.addCall(scope.node, calleeName, node);
+      } else if (!scope.hasRecursiveCall) {
         scope.hasRecursiveCall = true;
-        addCognitive(node, 'recursive call');
+        addCognitive(node, 'recursive call', cognitiveWeights.recursion, 'recursion');
       }
     },
   } as Visitor;
@@ -0,0 +1,299 @@
+import type { ComplexityThresholds } from './types.js';
+import { DEFAULT_THRESHOLDS, getExceededMetrics } from './rules/shared.js';
+import type { FunctionAnalysis, ProjectAnalysis } from './standalone/index.js';
+import { matchUnits, type UnitPair } from './unit-matching.js';
+
+export type ComparisonFormat = 'table' | 'json' | 'markdown';
+
+export const COMPARISON_FORMATS: readonly ComparisonFormat[] = ['table', 'json', 'markdown'];
+
+export interface ComplexityScores {
+  cyclomatic: number;
+  cognitive: number;
+}
+
+export type FunctionChangeKind = 'added' | 'removed' | 'increased' | 'decreased';
+
+export interface FunctionChange {
+  file: string;
+  name: string;
+  /** Start line after the change (before it, for removed functions) */
+  line: number;
+  /** `increased` if either score went up, even when the other went down */
+  kind: FunctionChangeKind;
+  /** `null` for added functions */
+  before: ComplexityScores | null;
+  /** `null` for removed functions */
+  after: ComplexityScores | null;
+  /** `after - before`, a missing side counting as 0 */
+  delta: ComplexityScores;
+  /** Over the thresholds before / after the change */
+  offenderBefore: boolean;
+  offenderAfter: boolean;
+}
+
+export interface ScoreChange {
+  before: ComplexityScores;
+  after: ComplexityScores;
+  delta: ComplexityScores;
+}
+
+export interface FileChange extends ScoreChange {
+  file: string;
+}
+
+export interface ProjectComparison {
+  /** Functions that were added, removed or changed score, most increased first */
+  functions: FunctionChange[];
+  /** Over the thresholds after the change but not before */
+  newOffenders: FunctionChange[];
+  /** Over the thresholds before the change but not after (fixed or removed) */
+  removedOffenders: FunctionChange[];
+  /** Files whose summed scores changed */
+  files: FileChange[];
+  total: ScoreChange;
+}
+
+interface LocatedFunction {
+  file: string;
+  fn: FunctionAnalysis;
+}
+
+type FunctionPair = UnitPair<LocatedFunction>;
+
+const ZERO: ComplexityScores = { cyclomatic: 0, cognitive: 0 };
+
+function scoresOf(fn: FunctionAnalysis | undefined): ComplexityScores | null {
+  return fn ? { cyclomatic: fn.cyclomatic, cognitive: fn.cognitive } : null;
+}
+
+function subtract(after: ComplexityScores, before: ComplexityScores): ComplexityScores {
+  return {
+    cyclomatic: after.cyclomatic - before.cyclomatic,
+    cognitive: after.cognitive - before.cognitive,
+  };
+}
+
+function sum(scores: readonly ComplexityScores[]): ComplexityScores {
+  return scores.reduce(
+    (total, s) => ({
+      cyclomatic: total.cyclomatic + s.cyclomatic,
+      cognitive: total.cognitive + s.cognitive,
+    }),
+    ZERO
+  );
+}
+
+function scoreChange(before: ComplexityScores, after: ComplexityScores): ScoreChange {
+  return { before, after, delta: subtract(after, before) };
+}
+
+function getKind(delta: ComplexityScores, [before, after]: FunctionPair): FunctionChangeKind {
+  if (!before) return 'added';
+  if (!after) return 'removed';
+  return delta.cognitive > 0 || delta.cyclomatic > 0 ? 'increased' : 'decreased';
+}
+
+function toChange(pair: FunctionPair, thresholds: ComplexityThresholds): FunctionChange | null {
+  const [before, after] = pair;
+  const current = after ?? before;
+  if (!current) return null;
+
+  const beforeScores = scoresOf(before?.fn);
+  const afterScores = scoresOf(after?.fn);
+  const delta = subtract(afterScores ?? ZERO, beforeScores ?? ZERO);
+  if (before && after && delta.cognitive === 0 && delta.cyclomatic === 0) return null;
+
+  const isOffender = (side: LocatedFunction | null) =>
+    !!side && getExceededMetrics(side.fn, thresholds).length > 0;
+  return {
+    file: current.file,
+    name: current.fn.name,
+    line: current.fn.loc.start.line,
+    kind: getKind(delta, pair),
+    before: beforeScores,
+    after: afterScores,
+    delta,
+    offenderBefore: isOffender(before),
+    offenderAfter: isOffender(after),
+  };
+}
+
+function groupByFile(project: ProjectAnalysis): Map<string, LocatedFunction[]> {
+  return new Map(
+    project.files.map((file) => [
+      file.filename,
+      file.functions.map((fn) => ({ file: file.filename, fn })),
+    ])
+  );
+}
+
+function sumFunctions(functions: readonly LocatedFunction[]): ComplexityScores {
+  return sum(functions.map(({ fn }) => fn));
+}
+
+function hasChanged({ delta }: ScoreChange): boolean {
+  return delta.cognitive !== 0 || delta.cyclomatic !== 0;
+}
+
+/**
+ * Compare two analyses of a project, e.g. of two git revisions. Files are
+ * matched by path and functions by name (see `matchUnits`); a function
+ * is an offender if it exceeds the thresholds like the `complexity/complexity`
+ * rule would report it.
+ */
+export function compareProjects(
+  before: ProjectAnalysis,
+  after: ProjectAnalysis,
+  thresholds: ComplexityThresholds = DEFAULT_THRESHOLDS
+): ProjectComparison {
+  const beforeFiles = groupByFile(before);
+  const afterFiles = groupByFile(after);
+  const filenames = [...new Set([...beforeFiles.keys(), ...afterFiles.keys()])].toSorted();
+  const functions: FunctionChange[] = [];
+  const files: FileChange[] = [];
+
+  for (const file of filenames) {
+    const previous = beforeFiles.get(file) ?? [];
+    const current = afterFiles.get(file) ?? [];
+    const changes = matchUnits(previous, current, ({ fn }) => fn).map((pair) =>
+      toChange(pair, thresholds)
+    );
+    functions.push(...changes.filter((change): change is FunctionChange => change !== null));
+    const totals = scoreChange(sumFunctions(previous), sumFunctions(current));
+    if (hasChanged(totals)) files.push({ file, ...totals });
+  }
+
+  const sorted = functions.toSorted(
+    (a, b) =>
+      b.delta.cognitive - a.delta.cognitive ||
+      b.delta.cyclomatic - a.delta.cyclomatic ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line
+  );
+
+  return {
+    functions: sorted,
+    newOffenders: sorted.filter((fn) => fn.offenderAfter && !fn.offenderBefore),
+    removedOffenders: sorted.filter((fn) => fn.offenderBefore && !fn.offenderAfter),
+    files,
+    total: scoreChange(
+      sumFunctions([...beforeFiles.values()].flat()),
+      sumFunctions([...afterFiles.values()].flat())
+    ),
+  };
+}
+
+/** `8 → 14 (+6)`, `5 (new)`, `8 (removed)` or `7` if unchanged */
+export function formatScoreChange(before: number | null, after: number | null): string {
+  if (before === null) return `${after ?? 0} (new)`;
+  if (after === null) return `${before} (removed)`;
+  if (before === after) return String(after);
+  const delta = after - before;
+  return `${before} → ${after} (${delta > 0 ? '+' : ''}${delta})`;
+}
+
+interface Section {
+  title: string;
+  header: readonly string[];
+  rows: string[][];
+}
+
+function functionRows(changes: readonly FunctionChange[], code: boolean): string[][] {
+  const wrap = (text: string) => (code ? `\`${text}\`` : text);
+  return changes.map((change) => [
+    wrap(change.name),
+    wrap(`${change.file}:${change.line}`),
+    formatScoreChange(change.before?.cognitive ?? null, change.after?.cognitive ?? null),
+    formatScoreChange(change.before?.cyclomatic ?? null, change.after?.cyclomatic ?? null),
+  ]);
+}
+
+function isIncrease(fn: FunctionChange): boolean {
+  return fn.kind === 'added' || fn.kind === 'increased';
+}
+
+function getSections(comparison: ProjectComparison, code: boolean): Section[] {
+  const header = ['Function', 'Location', 'Cognitive', 'Cyclomatic'];
+  const { functions } = comparison;
+  const fileRows = comparison.files.map((file) => [
+    code ? `\`${file.file}\`` : file.file,
+    formatScoreChange(file.before.cognitive, file.after.cognitive),
+    formatScoreChange(file.before.cyclomatic, file.after.cyclomatic),
+  ]);
+
+  return [
+    { title: 'New offenders', header, rows: functionRows(comparison.newOffenders, code) },
+    { title: 'Fixed offenders', header, rows: functionRows(comparison.removedOffenders, code) },
+    { title: 'More complex', header, rows: functionRows(functions.filter(isIncrease), code) },
+    {
+      title: 'Less complex',
+      header,
+      rows: functionRows(functions.filter((fn) => !isIncrease(fn)).toReversed(), code),
+    },
+    { title: 'Files', header: ['File', 'Cognitive', 'Cyclomatic'], rows: fileRows },
+  ].filter((section) => section.rows.length > 0);
+}
+
+function formatTotal({ total }: ProjectComparison): string {
+  const cognitive = formatScoreChange(total.before.cognitive, total.after.cognitive);
+  const cyclomatic = formatScoreChange(total.before.cyclomatic, total.after.cyclomatic);
+  return `Cognitive: ${cognitive}, cyclomatic: ${cyclomatic}`;
+}
+
+function alignColumns(header: readonly string[], rows: readonly string[][]): string {
+  const widths = header.map((cell, i) =>
+    Math.max(cell.length, ...rows.map((row) => row[i].length))
+  );
+  const rule = widths.map((width) => '-'.repeat(width));
+  return [header, rule, ...rows]
+    .map((line) =>
+      line
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+export function formatComparisonTable(comparison: ProjectComparison): string {
+  const sections = getSections(comparison, false);
+  if (sections.length === 0) return 'No complexity changes.\n';
+
+  const blocks = sections.map(
+    ({ title, header, rows }) => `${title} (${rows.length})\n${alignColumns(header, rows)}`
+  );
+  return [formatTotal(comparison), ...blocks].join('\n\n') + '\n';
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/** Markdown for a pull-request comment */
+export function formatComparisonMarkdown(comparison: ProjectComparison): string {
+  const sections = getSections(comparison, true);
+  if (sections.length === 0) return '### Complexity\n\nNo complexity changes.\n';
+
+  const blocks = sections.map(({ title, header, rows }) =>
+    [
+      `#### ${title} (${rows.length})`,
+      '',
+      `| ${header.join(' | ')} |`,
+      `| ${header.map(() => '---').join(' | ')} |`,
+      ...rows.map((row) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+    ].join('\n')
+  );
+  return ['### Complexity', formatTotal(comparison), ...blocks].join('\n\n') + '\n';
+}
+
+export function formatComparison(comparison: ProjectComparison, format: ComparisonFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(comparison, null, 2) + '\n';
+    case 'markdown':
+      return formatComparisonMarkdown(comparison);
+    default:
+      return formatComparisonTable(comparison);
+  }
+}
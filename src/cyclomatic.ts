@@ -29,6 +29,9 @@ import {
  * - ConditionalExpression (ternary): +1
  * - LogicalExpression (&&, ||, ??): +1
  * - Logical assignment (&&=, ||=, ??=): +1
+ *
+ * Always scores with these weights (the `custom` profile); use
+ * `createCombinedComplexityVisitor` to apply another profile or `weights`.
  */
 export function createCyclomaticVisitor(
   onComplexityCalculated: (result: ComplexityResult, node: ESTreeNode) => void
@@ -0,0 +1,348 @@
+import type { Context, ESTreeNode } from '../types.js';
+import type { ExtractionSuggestion, TypedVariable, VariableInfo } from './types.js';
+import { analyzeVariableFlow, isNodeLike, walkChildren } from './flow-analyzer.js';
+import { createExtractionSuggestion, PLACEHOLDER_FUNCTION_NAME } from './suggestion-generator.js';
+
+/** A text replacement over `[start, end)` source offsets */
+export interface TextEdit {
+  range: [number, number];
+  text: string;
+}
+
+export interface ExtractionFix {
+  functionName: string;
+  /** Lines of the statements that are moved (may be narrower than the suggestion) */
+  startLine: number;
+  endLine: number;
+  /** Replace the statements with a call, and insert the new function after the enclosing one */
+  edits: TextEdit[];
+}
+
+type Statement = ESTreeNode & { start: number; end: number };
+
+const FUNCTION_TYPES = new Set([
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ArrowFunctionExpression',
+]);
+
+const STATEMENT_LIST_PARENTS = new Set([
+  'Program',
+  'BlockStatement',
+  'StaticBlock',
+  'SwitchCase',
+  'TSModuleBlock',
+]);
+
+const LOOP_TYPES = new Set([
+  'ForStatement',
+  'ForInStatement',
+  'ForOfStatement',
+  'WhileStatement',
+  'DoWhileStatement',
+]);
+
+/** Constructs that bind to the enclosing function and change meaning when moved */
+const FUNCTION_BOUND_TYPES = new Set(['AwaitExpression', 'YieldExpression']);
+/** Like the above, but arrow functions inherit them too */
+const LEXICALLY_BOUND_TYPES = new Set(['ThisExpression', 'Super', 'MetaProperty']);
+
+function prop<T>(node: ESTreeNode, key: string): T {
+  return (node as unknown as Record<string, T>)[key];
+}
+
+function startLine(node: ESTreeNode): number {
+  return node.loc?.start.line ?? 0;
+}
+
+function endLine(node: ESTreeNode): number {
+  return node.loc?.end.line ?? 0;
+}
+
+/** Statement-list blocks directly nested in a statement (if/else, loop and try bodies). */
+function collectChildBlocks(node: ESTreeNode, blocks: ESTreeNode[]): void {
+  walkChildren(node, (child) => {
+    if (FUNCTION_TYPES.has(child.type)) return;
+    if (child.type === 'BlockStatement') {
+      blocks.push(child);
+    } else {
+      collectChildBlocks(child, blocks);
+    }
+  });
+}
+
+/**
+ * Find the run of sibling statements that starts within the candidate lines.
+ * Candidates are line-based: the last statement is kept whole even if it ends
+ * after the candidate, and a statement that straddles the first line (e.g. a
+ * loop whose body holds the candidate) is searched for a nested block instead.
+ */
+function selectStatements(block: ESTreeNode, from: number, to: number): Statement[] | null {
+  const body = prop<ESTreeNode[]>(block, 'body');
+  const overlapping = body.filter((s) => startLine(s) <= to && endLine(s) >= from);
+  if (overlapping.length === 0) return null;
+
+  if (startLine(overlapping[0]) >= from) return overlapping as Statement[];
+  if (overlapping.length > 1) return null;
+
+  const blocks: ESTreeNode[] = [];
+  collectChildBlocks(overlapping[0], blocks);
+  // A simple statement (e.g. a declaration spanning several lines) is taken whole
+  if (blocks.length === 0) return overlapping as Statement[];
+
+  for (const child of blocks) {
+    const selected = selectStatements(child, from, to);
+    if (selected) return selected;
+  }
+  return null;
+}
+
+/** The statement after which the new function is inserted. */
+function findInsertionAnchor(functionNode: ESTreeNode): Statement | null {
+  let current: ESTreeNode = functionNode;
+  while (current.parent) {
+    if (STATEMENT_LIST_PARENTS.has(current.parent.type)) return current as Statement;
+    // A function inside another function's expression would lose that function's scope
+    if (current !== functionNode && FUNCTION_TYPES.has(current.type)) return null;
+    current = current.parent;
+  }
+  return null;
+}
+
+function isInside(node: ESTreeNode, statements: ReadonlySet<ESTreeNode>): boolean {
+  for (let current: ESTreeNode | null = node; current; current = current.parent ?? null) {
+    if (statements.has(current)) return true;
+  }
+  return false;
+}
+
+/** Whether a `break`/`continue` targets a statement outside the selection. */
+function jumpsOutside(jump: ESTreeNode, statements: ReadonlySet<ESTreeNode>): boolean {
+  const label = prop<{ name: string } | null>(jump, 'label');
+  for (let current = jump.parent; current; current = current.parent) {
+    const matches = label
+      ? current.type === 'LabeledStatement' &&
+        prop<{ name: string }>(current, 'label').name === label.name
+      : LOOP_TYPES.has(current.type) ||
+        (jump.type === 'BreakStatement' && current.type === 'SwitchStatement');
+    if (matches) return !isInside(current, statements);
+    if (statements.has(current)) return true;
+  }
+  return true;
+}
+
+interface SelectionScan {
+  returns: ESTreeNode[];
+  movable: boolean;
+}
+
+/** Whether a node stops meaning the same thing once moved into a new function. */
+function isUnmovable(node: ESTreeNode): boolean {
+  if (LEXICALLY_BOUND_TYPES.has(node.type)) return true;
+  if (node.type === 'Identifier') return prop<string>(node, 'name') === 'arguments';
+  // Re-indenting would change the string contents
+  return node.type === 'TemplateLiteral' && startLine(node) !== endLine(node);
+}
+
+function scanSelection(selection: Statement[]): SelectionScan {
+  const statements = new Set<ESTreeNode>(selection);
+  const scan: SelectionScan = { returns: [], movable: true };
+
+  /** Record control flow that belongs to the enclosing function (not to a nested arrow). */
+  function visitControlFlow(node: ESTreeNode): void {
+    if (FUNCTION_BOUND_TYPES.has(node.type)) scan.movable = false;
+    if (node.type === 'ReturnStatement') scan.returns.push(node);
+    const isJump = node.type === 'BreakStatement' || node.type === 'ContinueStatement';
+    if (isJump && jumpsOutside(node, statements)) scan.movable = false;
+  }
+
+  function visit(node: ESTreeNode, inArrow: boolean): void {
+    if (node.type === 'ArrowFunctionExpression') {
+      walkChildren(node, (child) => visit(child, true));
+      return;
+    }
+    if (FUNCTION_TYPES.has(node.type)) return;
+
+    if (isUnmovable(node)) scan.movable = false;
+    if (!inArrow) visitControlFlow(node);
+    walkChildren(node, (child) => visit(child, inArrow));
+  }
+
+  for (const statement of selection) visit(statement, false);
+  return scan;
+}
+
+/**
+ * Whether the block references a function-local variable that is neither
+ * declared in it nor passed in (e.g. a function declaration hoisted from below).
+ */
+function usesUnpassedVariable(
+  variables: Map<string, VariableInfo>,
+  inputs: readonly TypedVariable[],
+  from: number,
+  to: number
+): boolean {
+  const passed = new Set(inputs.map((v) => v.name));
+  for (const variable of variables.values()) {
+    if (passed.has(variable.name)) continue;
+    if (variable.declarationLine >= from && variable.declarationLine <= to) continue;
+    if (variable.references.some((ref) => ref.line >= from && ref.line <= to)) return true;
+  }
+  return false;
+}
+
+function chooseFunctionName(text: string): string {
+  let name = PLACEHOLDER_FUNCTION_NAME;
+  for (let i = 2; new RegExp(`\\b${name}\\b`).test(text); i++) {
+    name = `${PLACEHOLDER_FUNCTION_NAME}${i}`;
+  }
+  return name;
+}
+
+function getIndent(lines: readonly string[], line: number): string {
+  return /^[ \t]*/.exec(lines[line - 1] ?? '')?.[0] ?? '';
+}
+
+function reindent(text: string, fromIndent: string, toIndent: string): string {
+  return text
+    .split('\n')
+    .map((line, index) => {
+      if (index === 0) return toIndent + line;
+      if (line.trim() === '') return '';
+      return toIndent + (line.startsWith(fromIndent) ? line.slice(fromIndent.length) : line.trim());
+    })
+    .join('\n');
+}
+
+function formatParam(variable: TypedVariable): string {
+  return variable.type ? `${variable.name}: ${variable.type}` : variable.name;
+}
+
+function declarationKeyword(variable: VariableInfo): 'const' | 'let' {
+  return variable.declarationType === 'let' || variable.declarationType === 'var' ? 'let' : 'const';
+}
+
+/**
+ * Whether the statements end by returning from the enclosing function, or
+ * `null` if they cannot move. A `return` can only move as the last statement,
+ * and only when no other variable flows out.
+ */
+function checkMovable(selection: Statement[], hasOutputs: boolean): boolean | null {
+  const scan = scanSelection(selection);
+  if (!scan.movable || scan.returns.length === 0) return scan.movable ? false : null;
+
+  const returnsLast = scan.returns.length === 1 && scan.returns[0] === selection.at(-1);
+  return returnsLast && !hasOutputs ? true : null;
+}
+
+interface ExtractionPlan {
+  selection: Statement[];
+  anchor: Statement;
+  inputs: TypedVariable[];
+  output: VariableInfo | undefined;
+  returnsValue: boolean;
+}
+
+/**
+ * Resolve the suggestion to whole statements and check they can move as-is.
+ * Flow analysis is re-run on the exact statements, which may be wider than the
+ * suggested lines.
+ */
+function createExtractionPlan(
+  functionNode: ESTreeNode,
+  suggestion: ExtractionSuggestion,
+  variables: Map<string, VariableInfo>
+): ExtractionPlan | null {
+  const body = prop<ESTreeNode | undefined>(functionNode, 'body');
+  if (!isNodeLike(body) || body.type !== 'BlockStatement') return null;
+
+  const selection = selectStatements(body, suggestion.range.start, suggestion.range.end);
+  const anchor = findInsertionAnchor(functionNode);
+  if (!selection || !anchor) return null;
+
+  const from = startLine(selection[0]);
+  const to = endLine(selection[selection.length - 1]);
+  const candidate = {
+    startLine: from,
+    endLine: to,
+    complexity: suggestion.complexity,
+    complexityPercentage: suggestion.complexityPercentage,
+    points: [],
+    constructs: [],
+  };
+  const flow = analyzeVariableFlow(candidate, variables, functionNode);
+  const checked = createExtractionSuggestion(candidate, flow);
+  if (checked.confidence !== 'high' || checked.issues.length > 0) return null;
+  if (usesUnpassedVariable(variables, checked.inputs, from, to)) return null;
+
+  const returnsValue = checkMovable(selection, flow.outputs.length > 0);
+  if (returnsValue === null) return null;
+
+  return { selection, anchor, inputs: checked.inputs, output: flow.outputs[0], returnsValue };
+}
+
+function createCallStatement(plan: ExtractionPlan, functionName: string): string {
+  const call = `${functionName}(${plan.inputs.map((v) => v.name).join(', ')})`;
+  if (plan.returnsValue) return `return ${call};`;
+  if (plan.output) return `${declarationKeyword(plan.output)} ${plan.output.name} = ${call};`;
+  return `${call};`;
+}
+
+/**
+ * Plan the edits that extract a high-confidence suggestion into a new function.
+ *
+ * The statements covered by the suggestion move into `function extracted(...)`
+ * placed after the enclosing function; inputs become parameters and the single
+ * output (if any) is returned and assigned at the call site. Returns `null`
+ * when the block cannot be moved without changing behavior (e.g. it uses
+ * `this`, `await`, or jumps to a loop outside the block).
+ */
+export function planExtractionFix(
+  context: Context,
+  functionNode: ESTreeNode,
+  suggestion: ExtractionSuggestion,
+  variables: Map<string, VariableInfo>
+): ExtractionFix | null {
+  if (suggestion.confidence !== 'high') return null;
+  const plan = createExtractionPlan(functionNode, suggestion, variables);
+  if (!plan) return null;
+
+  const { selection, anchor, inputs, output } = plan;
+  const first = selection[0];
+  const last = selection[selection.length - 1];
+  const { text, lines } = context.sourceCode;
+  const functionName = chooseFunctionName(text);
+
+  const anchorIndent = getIndent(lines, startLine(anchor));
+  const statementIndent = getIndent(lines, startLine(first));
+  const unit = statementIndent.startsWith('\t') ? '\t' : '  ';
+  const movedText = reindent(
+    text.slice(first.start, last.end),
+    statementIndent,
+    anchorIndent + unit
+  );
+  const returnLine = output ? `\n${anchorIndent}${unit}return ${output.name};` : '';
+  const declaration =
+    `\n\n${anchorIndent}function ${functionName}(${inputs.map(formatParam).join(', ')}) {\n` +
+    `${movedText}${returnLine}\n${anchorIndent}}`;
+
+  return {
+    functionName,
+    startLine: startLine(first),
+    endLine: endLine(last),
+    edits: [
+      { range: [first.start, last.end], text: createCallStatement(plan, functionName) },
+      { range: [anchor.end, anchor.end], text: declaration },
+    ],
+  };
+}
+
+/** Apply non-overlapping edits to a source string. */
+export function applyTextEdits(text: string, edits: readonly TextEdit[]): string {
+  return edits
+    .toSorted((a, b) => b.range[0] - a.range[0])
+    .reduce(
+      (result, edit) => result.slice(0, edit.range[0]) + edit.text + result.slice(edit.range[1]),
+      text
+    );
+}
@@ -1,21 +1,15 @@
 import type { ComplexityPoint } from '../types.js';
 import type { ExtractionCandidate, ExtractionOptions } from './types.js';
-import { extractConstructFromMessage } from '../utils.js';
 
 const DEFAULT_MIN_COMPLEXITY_PERCENTAGE = 30;
 const DEFAULT_MAX_COMPLEXITY_PERCENTAGE = 70; // Reject candidates covering too much of the function
 const DEFAULT_MAX_LINE_GAP = 2;
 const DEFAULT_MAX_CANDIDATES = 3;
 
-/** Strip surrounding quotes from construct names like "'if'" */
-function extractConstruct(message: string): string {
-  return extractConstructFromMessage(message).replace(/^'|'$/g, '');
-}
-
 function getUniqueConstructs(points: ComplexityPoint[]): string[] {
   const constructs = new Set<string>();
   for (const point of points) {
-    constructs.add(extractConstruct(point.message));
+    constructs.add(point.construct);
   }
   return Array.from(constructs);
 }
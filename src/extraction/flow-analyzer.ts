@@ -119,7 +119,7 @@ const NESTED_FUNCTION_TYPES = new Set([
 
 const SKIP_WALK_KEYS = new Set(['parent', 'loc', 'range']);
 
-function isNodeLike(value: unknown): value is ESTreeNode {
+export function isNodeLike(value: unknown): value is ESTreeNode {
   return typeof value === 'object' && value !== null && 'type' in value;
 }
 
@@ -148,7 +148,7 @@ function resolveRootIdentifier(node: ESTreeNode): string | null {
   return null;
 }
 
-function walkChildren(n: ESTreeNode, visit: (child: ESTreeNode) => void): void {
+export function walkChildren(n: ESTreeNode, visit: (child: ESTreeNode) => void): void {
   for (const key of Object.keys(n)) {
     if (SKIP_WALK_KEYS.has(key)) continue;
     const child = getNodeProp(n, key);
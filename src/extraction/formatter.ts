@@ -1,3 +1,4 @@
+import type { Verbosity } from '../types.js';
 import type { ExtractionSuggestion, TypedVariable } from './types.js';
 import { getConfidenceLabel } from './suggestion-generator.js';
 
@@ -42,8 +43,19 @@ function formatSuggestion(suggestion: ExtractionSuggestion): string {
   return lines.join('\n');
 }
 
-export function formatExtractionSuggestions(suggestions: ExtractionSuggestion[]): string {
-  if (suggestions.length === 0) return '';
+/**
+ * Format extraction suggestions for a report. `minimal` omits them and
+ * `summary` only lists their line ranges.
+ */
+export function formatExtractionSuggestions(
+  suggestions: ExtractionSuggestion[],
+  verbosity: Verbosity = 'full'
+): string {
+  if (suggestions.length === 0 || verbosity === 'minimal') return '';
+  if (verbosity === 'summary') {
+    const ranges = suggestions.map(({ range }) => `lines ${range.start}-${range.end}`);
+    return ` Extraction candidates: ${ranges.join(', ')}.`;
+  }
 
   const header = '\n\nSmart extraction suggestions:';
   const formattedSuggestions = suggestions.map(formatSuggestion).join('\n\n');
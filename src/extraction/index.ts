@@ -1,5 +1,7 @@
 export * from './types.js';
 export { formatExtractionSuggestions } from './formatter.js';
+export { planExtractionFix, applyTextEdits } from './autofix.js';
+export type { ExtractionFix, TextEdit } from './autofix.js';
 
 import type { ESTreeNode, ComplexityPoint } from '../types.js';
 import type { ExtractionSuggestion, ExtractionOptions, VariableInfo } from './types.js';
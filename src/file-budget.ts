@@ -0,0 +1,131 @@
+import type { ComplexityMetric, DiagnosticData, ESTreeNode } from './types.js';
+
+export type FileAggregate = 'sum' | 'max' | 'mean';
+
+/** Limits on the per-function scores of one metric across a file */
+export type FileMetricBudget = Partial<Record<FileAggregate, number>>;
+
+/** `fileBudget` option of `complexity/complexity` */
+export type FileBudget = Partial<Record<ComplexityMetric, FileMetricBudget>>;
+
+export interface FunctionScore {
+  name: string;
+  cyclomatic: number;
+  cognitive: number;
+  loc: ESTreeNode['loc'];
+}
+
+export interface FileBudgetViolation {
+  metric: ComplexityMetric;
+  aggregate: FileAggregate;
+  value: number;
+  limit: number;
+}
+
+const METRICS: readonly ComplexityMetric[] = ['cognitive', 'cyclomatic'];
+const AGGREGATES: readonly FileAggregate[] = ['sum', 'max', 'mean'];
+const TOP_FUNCTIONS = 5;
+
+/** JSON Schema for the `fileBudget` option. */
+export const FILE_BUDGET_SCHEMA = {
+  type: 'object',
+  description: 'Limits on the sum, max or mean of per-function scores across a file',
+  properties: Object.fromEntries(
+    METRICS.map((metric) => [
+      metric,
+      {
+        type: 'object',
+        properties: {
+          sum: { type: 'integer', minimum: 0 },
+          max: { type: 'integer', minimum: 0 },
+          mean: { type: 'number', minimum: 0 },
+        },
+        additionalProperties: false,
+      },
+    ])
+  ),
+  additionalProperties: false,
+} as const;
+
+export function aggregateScores(
+  functions: readonly FunctionScore[],
+  metric: ComplexityMetric
+): Record<FileAggregate, number> {
+  const scores = functions.map((fn) => fn[metric]);
+  const sum = scores.reduce((total, score) => total + score, 0);
+  return {
+    sum,
+    max: scores.length > 0 ? Math.max(...scores) : 0,
+    mean: scores.length > 0 ? sum / scores.length : 0,
+  };
+}
+
+/** Aggregates of a file's functions that exceed the budget. */
+export function getFileBudgetViolations(
+  functions: readonly FunctionScore[],
+  budget: FileBudget
+): FileBudgetViolation[] {
+  const violations: FileBudgetViolation[] = [];
+
+  for (const metric of METRICS) {
+    const limits = budget[metric];
+    if (!limits) continue;
+    const values = aggregateScores(functions, metric);
+    for (const aggregate of AGGREGATES) {
+      const limit = limits[aggregate];
+      if (limit !== undefined && values[aggregate] > limit) {
+        violations.push({ metric, aggregate, value: values[aggregate], limit });
+      }
+    }
+  }
+
+  return violations;
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+/**
+ * `  Line N: name (cognitive C, cyclomatic Y)` for the functions that
+ * contribute most to a metric.
+ */
+export function formatTopFunctions(
+  functions: readonly FunctionScore[],
+  metric: ComplexityMetric
+): string {
+  return functions
+    .filter((fn) => fn[metric] > 0)
+    .toSorted((a, b) => b[metric] - a[metric])
+    .slice(0, TOP_FUNCTIONS)
+    .map(
+      (fn) =>
+        `  Line ${fn.loc?.start.line ?? 0}: ${fn.name} (cognitive ${fn.cognitive}, cyclomatic ${fn.cyclomatic})`
+    )
+    .join('\n');
+}
+
+/** Message template of a file budget report, filled in by `createFileBudgetData` */
+export const FILE_BUDGET_MESSAGE =
+  'File exceeds its complexity budget across {{functions}} functions: {{exceeded}}.{{details}}';
+
+/**
+ * `data` of a file over its budget: the exceeded limits and the functions
+ * that contribute most to the first exceeded metric, plus the violations
+ * JSON-encoded for tools that read lint output.
+ */
+export function createFileBudgetData(
+  functions: readonly FunctionScore[],
+  violations: readonly FileBudgetViolation[]
+): DiagnosticData {
+  const exceeded = violations
+    .map((v) => `${v.metric} ${v.aggregate} ${formatValue(v.value)} (max ${formatValue(v.limit)})`)
+    .join(', ');
+  const { metric } = violations[0];
+  return {
+    functions: functions.length,
+    exceeded,
+    details: `\n\nTop functions by ${metric}:\n${formatTopFunctions(functions, metric)}`,
+    violations: JSON.stringify(violations),
+  };
+}
@@ -0,0 +1,245 @@
+import type { ProjectAnalysis } from './standalone/index.js';
+import { countRangeChanges, type ChangeHistory, type FileChurn } from './standalone/churn.js';
+import { escapeHtml } from './html.js';
+import { layoutTreemap } from './treemap.js';
+
+export type HotspotFormat = 'table' | 'json' | 'html';
+
+export const HOTSPOT_FORMATS: readonly HotspotFormat[] = ['table', 'json', 'html'];
+
+export interface FunctionHotspot {
+  file: string;
+  name: string;
+  line: number;
+  cyclomatic: number;
+  cognitive: number;
+  /** Commits in the window that changed the function's lines */
+  changes: number;
+  /** `changes × cognitive` */
+  score: number;
+}
+
+export interface FileHotspot extends Omit<FileChurn, 'path'> {
+  file: string;
+  /** Sums over the file's functions */
+  cyclomatic: number;
+  cognitive: number;
+  /** `commits × cognitive` */
+  score: number;
+}
+
+export interface HotspotAnalysis {
+  /** Start of the window, as given to `git log --since` */
+  since: string;
+  commits: number;
+  /** Ranked by score; functions and files that did not change are left out */
+  functions: FunctionHotspot[];
+  files: FileHotspot[];
+}
+
+function byScore<T extends { score: number; cognitive: number; file: string }>(a: T, b: T): number {
+  return b.score - a.score || b.cognitive - a.cognitive || a.file.localeCompare(b.file);
+}
+
+/**
+ * Rank functions and files by change frequency × cognitive complexity: code
+ * that is both hard to understand and often changed is where refactoring
+ * pays off first.
+ */
+export function findHotspots(project: ProjectAnalysis, history: ChangeHistory): HotspotAnalysis {
+  const churn = new Map(history.churn.map((entry) => [entry.path, entry]));
+  const functions: FunctionHotspot[] = [];
+  const files: FileHotspot[] = [];
+
+  for (const { filename: file, functions: units } of project.files) {
+    const changes = countRangeChanges(
+      file,
+      units.map((fn) => ({ start: fn.loc.start.line, end: fn.loc.end.line })),
+      history
+    );
+    units.forEach(({ name, loc, cyclomatic, cognitive }, i) => {
+      const score = changes[i] * cognitive;
+      if (score > 0) {
+        functions.push({
+          file,
+          name,
+          line: loc.start.line,
+          cyclomatic,
+          cognitive,
+          changes: changes[i],
+          score,
+        });
+      }
+    });
+
+    const { commits = 0, added = 0, deleted = 0 } = churn.get(file) ?? {};
+    const cognitive = units.reduce((sum, fn) => sum + fn.cognitive, 0);
+    const cyclomatic = units.reduce((sum, fn) => sum + fn.cyclomatic, 0);
+    if (commits * cognitive > 0) {
+      files.push({
+        file,
+        commits,
+        added,
+        deleted,
+        cyclomatic,
+        cognitive,
+        score: commits * cognitive,
+      });
+    }
+  }
+
+  return {
+    since: history.since,
+    commits: history.commits.length,
+    functions: functions.toSorted((a, b) => byScore(a, b) || a.line - b.line),
+    files: files.toSorted(byScore),
+  };
+}
+
+function alignColumns(
+  header: readonly string[],
+  rows: readonly string[][],
+  numeric: number
+): string {
+  const widths = header.map((cell, i) =>
+    Math.max(cell.length, ...rows.map((row) => row[i].length))
+  );
+  const rule = widths.map((width) => '-'.repeat(width));
+  return [header, rule, ...rows]
+    .map((line) =>
+      line
+        .map((cell, i) => (i < numeric ? cell.padStart(widths[i]) : cell.padEnd(widths[i])))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+function formatTitle(title: string, shown: number, total: number): string {
+  return shown < total ? `${title} (top ${shown} of ${total})` : `${title} (${total})`;
+}
+
+/** Top `top` functions and files as aligned tables (`top` 0 = all) */
+export function formatHotspotsTable(analysis: HotspotAnalysis, top = 0): string {
+  const heading = `Hotspots since ${analysis.since} (${analysis.commits} commits)`;
+  if (analysis.files.length === 0) return `${heading}\n\nNo changed code with complexity.\n`;
+
+  const functions = top > 0 ? analysis.functions.slice(0, top) : analysis.functions;
+  const files = top > 0 ? analysis.files.slice(0, top) : analysis.files;
+  const functionTable = alignColumns(
+    ['Score', 'Changes', 'Cognitive', 'Function', 'Location'],
+    functions.map((fn) => [
+      String(fn.score),
+      String(fn.changes),
+      String(fn.cognitive),
+      fn.name,
+      `${fn.file}:${fn.line}`,
+    ]),
+    3
+  );
+  const fileTable = alignColumns(
+    ['Score', 'Commits', 'Cognitive', 'Lines +/-', 'File'],
+    files.map((file) => [
+      String(file.score),
+      String(file.commits),
+      String(file.cognitive),
+      `+${file.added}/-${file.deleted}`,
+      file.file,
+    ]),
+    4
+  );
+
+  return (
+    [
+      heading,
+      `${formatTitle('Functions', functions.length, analysis.functions.length)}\n${functionTable}`,
+      `${formatTitle('Files', files.length, analysis.files.length)}\n${fileTable}`,
+    ].join('\n\n') + '\n'
+  );
+}
+
+const TREEMAP_WIDTH = 960;
+const TREEMAP_HEIGHT = 540;
+
+/** From pale yellow (rarely changed) to red (the most changed file) */
+function heatColor(commits: number, maxCommits: number): string {
+  const heat = maxCommits > 0 ? commits / maxCommits : 0;
+  return `hsl(${Math.round(50 - 50 * heat)}, 85%, ${Math.round(88 - 38 * heat)}%)`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** File tiles sized by cognitive complexity and colored by commits */
+function formatTreemap(files: readonly FileHotspot[]): string {
+  const maxCommits = Math.max(0, ...files.map((file) => file.commits));
+  const tiles = layoutTreemap(
+    files.map((file) => ({ weight: file.cognitive, data: file })),
+    { x: 0, y: 0, width: TREEMAP_WIDTH, height: TREEMAP_HEIGHT }
+  ).map(({ x, y, width, height, data: file }) => {
+    const label = file.file.split('/').at(-1) ?? file.file;
+    const title = `${file.file}\nScore ${file.score}: ${file.commits} commits × cognitive ${file.cognitive}`;
+    const fits = width > label.length * 6.5 + 8 && height > 18;
+    return [
+      `<g><title>${escapeHtml(title)}</title>`,
+      `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="${heatColor(file.commits, maxCommits)}"/>`,
+      fits ? `<text x="${round(x + 4)}" y="${round(y + 14)}">${escapeHtml(label)}</text>` : '',
+      '</g>',
+    ].join('');
+  });
+  return `<svg viewBox="0 0 ${TREEMAP_WIDTH} ${TREEMAP_HEIGHT}" role="img" aria-label="Hotspot treemap">\n${tiles.join('\n')}\n</svg>`;
+}
+
+function formatHtmlTable(header: readonly string[], rows: readonly (string | number)[][]): string {
+  const head = header.map((cell) => `<th>${escapeHtml(cell)}</th>`).join('');
+  const body = rows.map(
+    (row) => `<tr>${row.map((cell) => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`
+  );
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body.join('\n')}\n</tbody>\n</table>`;
+}
+
+const HTML_STYLE = `body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #222; }
+svg { width: 100%; max-width: ${TREEMAP_WIDTH}px; display: block; }
+rect { stroke: #fff; stroke-width: 1; }
+text { font-size: 11px; pointer-events: none; }
+table { border-collapse: collapse; margin-top: 0.5rem; }
+th, td { padding: 0.25rem 0.75rem; border-bottom: 1px solid #ddd; text-align: left; }`;
+
+/** A self-contained HTML page with a treemap of the hotspot files and the top functions */
+export function formatHotspotsHtml(analysis: HotspotAnalysis, top = 0): string {
+  const functions = top > 0 ? analysis.functions.slice(0, top) : analysis.functions;
+  const summary = `Since ${analysis.since}: ${analysis.commits} commits. Tile area is the cognitive complexity of a file, color is how often it changed.`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Complexity hotspots</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>Complexity hotspots</h1>
+<p>${escapeHtml(summary)}</p>
+${formatTreemap(analysis.files)}
+<h2>${escapeHtml(formatTitle('Functions', functions.length, analysis.functions.length))}</h2>
+${formatHtmlTable(
+  ['Score', 'Changes', 'Cognitive', 'Function', 'Location'],
+  functions.map((fn) => [fn.score, fn.changes, fn.cognitive, fn.name, `${fn.file}:${fn.line}`])
+)}
+</body>
+</html>
+`;
+}
+
+export function formatHotspots(analysis: HotspotAnalysis, format: HotspotFormat, top = 0): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(analysis, null, 2) + '\n';
+    case 'html':
+      return formatHotspotsHtml(analysis, top);
+    default:
+      return formatHotspotsTable(analysis, top);
+  }
+}
@@ -0,0 +1,327 @@
+import type { ComplexityPoint, ComplexityThresholds } from './types.js';
+import { describeScores, type HistogramBucket } from './calibrate.js';
+import { escapeHtml } from './html.js';
+import { DEFAULT_THRESHOLDS, getExceededMetrics } from './rules/shared.js';
+import type { FunctionAnalysis, ProjectAnalysis, SourceAnalysis } from './standalone/index.js';
+
+export interface HtmlReportOptions {
+  /** Source of each file by `filename`; files without one get no source view */
+  sources?: ReadonlyMap<string, string>;
+  /** Functions over these are highlighted (default: the rule's defaults) */
+  thresholds?: ComplexityThresholds;
+  /** Page title (default: `Complexity report`) */
+  title?: string;
+}
+
+interface ReportContext {
+  files: readonly SourceAnalysis[];
+  thresholds: ComplexityThresholds;
+}
+
+function fileId(fileIndex: number): string {
+  return `file-${fileIndex}`;
+}
+
+function functionId(fileIndex: number, fnIndex: number): string {
+  return `fn-${fileIndex}-${fnIndex}`;
+}
+
+function cell(value: string | number, className?: string): string {
+  return `<td${className ? ` class="${className}"` : ''}>${escapeHtml(String(value))}</td>`;
+}
+
+function link(href: string, text: string): string {
+  return `<a href="${href}">${escapeHtml(text)}</a>`;
+}
+
+function sum(functions: readonly FunctionAnalysis[], metric: 'cyclomatic' | 'cognitive'): number {
+  return functions.reduce((total, fn) => total + fn[metric], 0);
+}
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 180;
+const CHART_AXIS = 20;
+
+/** Bar chart of a histogram, with the count above each bar and the bucket below */
+function renderChart(title: string, histogram: readonly HistogramBucket[]): string {
+  const largest = Math.max(1, ...histogram.map((bucket) => bucket.count));
+  const slot = CHART_WIDTH / Math.max(histogram.length, 1);
+  const plot = CHART_HEIGHT - 2 * CHART_AXIS;
+  const bars = histogram.map((bucket, i) => {
+    const height = Math.round((bucket.count / largest) * plot);
+    const x = Math.round(i * slot + slot * 0.1);
+    const y = CHART_HEIGHT - CHART_AXIS - height;
+    const middle = Math.round(i * slot + slot / 2);
+    return [
+      `<rect x="${x}" y="${y}" width="${Math.round(slot * 0.8)}" height="${height}"/>`,
+      `<text x="${middle}" y="${y - 4}">${bucket.count}</text>`,
+      `<text x="${middle}" y="${CHART_HEIGHT - 6}">${escapeHtml(bucket.label)}</text>`,
+    ].join('');
+  });
+  return `<figure>
+<figcaption>${escapeHtml(title)}</figcaption>
+<svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${escapeHtml(title)}">
+${bars.join('\n')}
+</svg>
+</figure>`;
+}
+
+function renderDistribution(functions: readonly FunctionAnalysis[]): string {
+  const cognitive = describeScores(functions.map((fn) => fn.cognitive));
+  const cyclomatic = describeScores(functions.map((fn) => fn.cyclomatic));
+  return `<section id="distribution">
+<h2>Distribution</h2>
+<div class="charts">
+${renderChart(`Cognitive complexity (median ${cognitive.percentiles[50]}, p90 ${cognitive.percentiles[90]})`, cognitive.histogram)}
+${renderChart(`Cyclomatic complexity (median ${cyclomatic.percentiles[50]}, p90 ${cyclomatic.percentiles[90]})`, cyclomatic.histogram)}
+</div>
+</section>`;
+}
+
+function renderTable(
+  header: readonly [string, 'text' | 'number'][],
+  rows: readonly string[]
+): string {
+  const head = header
+    .map(([label, type]) => `<th data-type="${type}">${escapeHtml(label)}</th>`)
+    .join('');
+  return `<table class="sortable">
+<thead><tr>${head}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`;
+}
+
+function renderFunctionRow(
+  { files, thresholds }: ReportContext,
+  fileIndex: number,
+  fnIndex: number
+): string {
+  const file = files[fileIndex];
+  const fn = file.functions[fnIndex];
+  const exceeded = getExceededMetrics(fn, thresholds);
+  const over = (metric: 'cyclomatic' | 'cognitive') =>
+    exceeded.includes(metric) ? 'over' : undefined;
+  return [
+    '<tr>',
+    `<td>${link(`#${functionId(fileIndex, fnIndex)}`, fn.name)}</td>`,
+    `<td>${link(`#${fileId(fileIndex)}`, file.filename)}</td>`,
+    cell(fn.loc.start.line),
+    cell(fn.cognitive, over('cognitive')),
+    cell(fn.cyclomatic, over('cyclomatic')),
+    cell(fn.maxDepth),
+    '</tr>',
+  ].join('');
+}
+
+/** Every function, most complex first; the headers sort the table */
+function renderFunctions(context: ReportContext): string {
+  const rows = context.files
+    .flatMap((file, fileIndex) => file.functions.map((fn, fnIndex) => ({ fn, fileIndex, fnIndex })))
+    .toSorted((a, b) => b.fn.cognitive - a.fn.cognitive || b.fn.cyclomatic - a.fn.cyclomatic)
+    .map(({ fileIndex, fnIndex }) => renderFunctionRow(context, fileIndex, fnIndex));
+  return `<section id="functions">
+<h2>Functions</h2>
+${renderTable(
+  [
+    ['Function', 'text'],
+    ['File', 'text'],
+    ['Line', 'number'],
+    ['Cognitive', 'number'],
+    ['Cyclomatic', 'number'],
+    ['Depth', 'number'],
+  ],
+  rows
+)}
+</section>`;
+}
+
+function renderFiles({ files, thresholds }: ReportContext): string {
+  const rows = files.map((file, fileIndex) =>
+    [
+      '<tr>',
+      `<td>${link(`#${fileId(fileIndex)}`, file.filename)}</td>`,
+      cell(file.functions.length),
+      cell(file.functions.filter((fn) => getExceededMetrics(fn, thresholds).length > 0).length),
+      cell(sum(file.functions, 'cognitive')),
+      cell(Math.max(0, ...file.functions.map((fn) => fn.cognitive))),
+      cell(sum(file.functions, 'cyclomatic')),
+      '</tr>',
+    ].join('')
+  );
+  return `<section id="files">
+<h2>Files</h2>
+${renderTable(
+  [
+    ['File', 'text'],
+    ['Functions', 'number'],
+    ['Over threshold', 'number'],
+    ['Cognitive', 'number'],
+    ['Max cognitive', 'number'],
+    ['Cyclomatic', 'number'],
+  ],
+  rows
+)}
+</section>`;
+}
+
+/** Per-line annotations of a file's source view */
+interface LineNotes {
+  points: Map<number, ComplexityPoint[]>;
+  anchors: Map<number, string[]>;
+  /** Extraction candidate covering the line, labeled on its first line */
+  extractions: Map<number, string | null>;
+}
+
+function addNote<T>(notes: Map<number, T[]>, line: number, value: T): void {
+  notes.set(line, [...(notes.get(line) ?? []), value]);
+}
+
+function collectLineNotes(file: SourceAnalysis, fileIndex: number): LineNotes {
+  const notes: LineNotes = { points: new Map(), anchors: new Map(), extractions: new Map() };
+  file.functions.forEach((fn, fnIndex) => {
+    addNote(notes.anchors, fn.loc.start.line, functionId(fileIndex, fnIndex));
+    for (const point of fn.cognitivePoints) addNote(notes.points, point.location.start.line, point);
+    for (const { range, complexity, confidence } of fn.extractionSuggestions) {
+      const label = `Extraction candidate in ${fn.name}: lines ${range.start}-${range.end}, +${complexity} cognitive, ${confidence} confidence`;
+      for (let line = range.start; line <= range.end; line++) {
+        if (notes.extractions.has(line)) continue;
+        notes.extractions.set(line, line === range.start ? label : null);
+      }
+    }
+  });
+  return notes;
+}
+
+function renderSourceLine(text: string, line: number, notes: LineNotes): string {
+  const points = notes.points.get(line) ?? [];
+  const increment = points.reduce((total, point) => total + point.complexity, 0);
+  const anchors = (notes.anchors.get(line) ?? []).map((id) => `<a id="${id}"></a>`).join('');
+  const extraction = notes.extractions.get(line);
+  const label = extraction ? `<span class="candidate">${escapeHtml(extraction)}</span>` : '';
+  const title = points.map((point) => point.message).join('\n');
+  return [
+    `<tr${extraction === undefined ? '' : ' class="extract"'}>`,
+    `<td class="ln">${anchors}${line}</td>`,
+    increment > 0
+      ? `<td class="inc" title="${escapeHtml(title)}">+${increment}</td>`
+      : '<td class="inc"></td>',
+    `<td class="code">${escapeHtml(text)}${label}</td>`,
+    '</tr>',
+  ].join('');
+}
+
+/** Collapsible source of a file with the cognitive increments of each line */
+function renderFileSource(
+  file: SourceAnalysis,
+  fileIndex: number,
+  code: string | undefined
+): string {
+  const summary = `${file.filename}: ${file.functions.length} functions, cognitive ${sum(file.functions, 'cognitive')}`;
+  const notes = collectLineNotes(file, fileIndex);
+  const lines =
+    code === undefined
+      ? '<p>Source not available.</p>'
+      : `<table class="source"><tbody>\n${code
+          .split(/\r?\n/)
+          .map((text, i) => renderSourceLine(text, i + 1, notes))
+          .join('\n')}\n</tbody></table>`;
+  return `<details id="${fileId(fileIndex)}">
+<summary>${escapeHtml(summary)}</summary>
+${lines}
+</details>`;
+}
+
+const STYLE = `body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #222; }
+a { color: #0550ae; }
+table { border-collapse: collapse; }
+th, td { padding: 0.2rem 0.6rem; border-bottom: 1px solid #e5e5e5; text-align: left; }
+th { cursor: pointer; user-select: none; background: #f6f8fa; position: sticky; top: 0; }
+th[data-order="asc"]::after { content: " ▲"; }
+th[data-order="desc"]::after { content: " ▼"; }
+td.over { color: #b42318; font-weight: 600; }
+.charts { display: flex; flex-wrap: wrap; gap: 2rem; }
+figure { margin: 0; }
+svg.chart { width: 360px; }
+svg.chart rect { fill: #5b8def; }
+svg.chart text { font-size: 11px; text-anchor: middle; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; font-family: ui-monospace, monospace; }
+table.source { font: 12px/1.5 ui-monospace, monospace; width: 100%; }
+table.source td { border: none; padding: 0 0.5rem; white-space: pre; vertical-align: top; }
+table.source td.ln { color: #888; text-align: right; width: 1%; }
+table.source td.inc { color: #b42318; font-weight: 600; width: 1%; }
+tr.extract td.code { background: #fff4ce; }
+.candidate { margin-left: 1rem; color: #7a5b00; font-family: system-ui, sans-serif; }`;
+
+/** Sort tables by the clicked column and open the file of a linked function */
+const SCRIPT = `for (const th of document.querySelectorAll('table.sortable th')) {
+  th.addEventListener('click', () => {
+    const table = th.closest('table');
+    const column = th.cellIndex;
+    const ascending = th.dataset.order !== 'asc';
+    for (const other of table.querySelectorAll('th')) delete other.dataset.order;
+    th.dataset.order = ascending ? 'asc' : 'desc';
+    const value = (row) => row.cells[column].textContent;
+    const compare = th.dataset.type === 'number'
+      ? (a, b) => Number(value(a)) - Number(value(b))
+      : (a, b) => value(a).localeCompare(value(b));
+    const body = table.tBodies[0];
+    body.append(...[...body.rows].sort((a, b) => (ascending ? compare(a, b) : compare(b, a))));
+  });
+}
+function reveal() {
+  const target = location.hash && document.getElementById(location.hash.slice(1));
+  if (!target) return;
+  const details = target.closest('details');
+  if (details) details.open = true;
+  target.scrollIntoView();
+}
+window.addEventListener('hashchange', reveal);
+reveal();`;
+
+/**
+ * A single offline HTML page for browsing a project analysis: metric
+ * distribution charts, sortable function and file tables, and the source of
+ * each file with its cognitive increments per line and extraction candidates
+ * highlighted.
+ */
+export function formatHtmlReport(
+  project: ProjectAnalysis,
+  options: HtmlReportOptions = {}
+): string {
+  const title = options.title ?? 'Complexity report';
+  const thresholds = options.thresholds ?? DEFAULT_THRESHOLDS;
+  const context: ReportContext = { files: project.files, thresholds };
+  const functions = project.files.flatMap((file) => file.functions);
+  const over = functions.filter((fn) => getExceededMetrics(fn, thresholds).length > 0).length;
+  const summary = `${project.files.length} files, ${functions.length} functions, ${over} over the thresholds (cyclomatic ${thresholds.cyclomatic}, cognitive ${thresholds.cognitive}).`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(summary)}</p>
+${renderDistribution(functions)}
+${renderFunctions(context)}
+${renderFiles(context)}
+<section id="source">
+<h2>Source</h2>
+${project.files.map((file, i) => renderFileSource(file, i, options.sources?.get(file.filename))).join('\n')}
+</section>
+<script>
+${SCRIPT}
+</script>
+</body>
+</html>
+`;
+}
@@ -1,5 +1,7 @@
 import { definePlugin } from '@oxlint/plugins';
 import { complexity } from './rules/complexity.js';
+import { maxDepth } from './rules/max-depth.js';
+import { classComplexity } from './rules/class-complexity.js';
 
 // Re-export types for library users
 export type {
@@ -9,9 +11,16 @@ export type {
   Visitor,
   FunctionScope,
   ComplexityPoint,
+  ComplexityPointKind,
   ComplexityResult,
+  ComplexityMetric,
+  ComplexityThresholds,
   MaxCyclomaticOptions,
   MaxCognitiveOptions,
+  MaxDepthOptions,
+  ClassComplexityOptions,
+  NestingStep,
+  Verbosity,
 } from './types.js';
 
 // Re-export visitor factory for advanced usage
@@ -21,13 +30,44 @@ export type { VisitorContext } from './visitor.js';
 // Re-export calculators for programmatic use
 export { createCyclomaticVisitor } from './cyclomatic.js';
 export { createCognitiveVisitor } from './cognitive/visitor.js';
+export { calculateNPath } from './npath.js';
+export type { NPathResult, NPathFactor } from './npath.js';
+export { calculateJsxComplexity } from './jsx.js';
+export type { JsxComplexityResult } from './jsx.js';
 
 // Re-export combined visitor for advanced usage
 export { createCombinedComplexityVisitor } from './combined-visitor.js';
 export type { CombinedComplexityResult } from './combined-visitor.js';
 
+// Re-export scoring profiles
+export { PROFILES, PROFILE_NAMES, resolveProfile } from './profile.js';
+export type {
+  ProfileName,
+  ScoringProfile,
+  ScoringWeights,
+  ScoringOptions,
+  CyclomaticWeights,
+  CognitiveWeights,
+} from './profile.js';
+
+// Re-export inline budget directives
+export { parseBudgetDirective, findBudgetDirective } from './budget.js';
+export type { BudgetMetric, ComplexityBudget, BudgetDirective } from './budget.js';
+
+// Re-export file-level budget helpers
+export { aggregateScores, getFileBudgetViolations } from './file-budget.js';
+export type { FileBudget, FileBudgetViolation, FunctionScore } from './file-budget.js';
+
 // Re-export utilities
-export { getFunctionName, createComplexityPoint, summarizeComplexity } from './utils.js';
+export {
+  getFunctionName,
+  getUnitName,
+  isAnalysisUnit,
+  createComplexityPoint,
+  formatPointMessage,
+  summarizeComplexity,
+  VERBOSITY_LEVELS,
+} from './utils.js';
 
 // Re-export extraction analysis
 export type {
@@ -39,11 +79,15 @@ export type {
   VariableInfo,
   TypedVariable,
   ExtractionIssue,
+  ExtractionFix,
+  TextEdit,
 } from './extraction/index.js';
 export {
   analyzeExtractionOpportunities,
   shouldAnalyzeExtraction,
   formatExtractionSuggestions,
+  planExtractionFix,
+  applyTextEdits,
 } from './extraction/index.js';
 
 /**
@@ -53,6 +97,8 @@ export {
  *
  * Rules:
  * - complexity/complexity: Enforce both metrics in one pass
+ * - complexity/max-depth: Enforce a maximum nesting depth
+ * - complexity/class-complexity: Enforce a maximum total complexity per class
  */
 const plugin = definePlugin({
   meta: {
@@ -60,6 +106,8 @@ const plugin = definePlugin({
   },
   rules: {
     complexity,
+    'max-depth': maxDepth,
+    'class-complexity': classComplexity,
   },
 });
 
@@ -0,0 +1,156 @@
+import type { ComplexityPoint, ESTreeNode, LogicalExpressionNode } from './types.js';
+import { createComplexityPoint } from './utils.js';
+import { isNodeLike, walkChildren } from './extraction/flow-analyzer.js';
+
+export interface JsxComplexityResult {
+  total: number;
+  /** Conditional and list rendering, each +1 plus the rendering constructs around it */
+  points: ComplexityPoint[];
+  /** Deepest element nesting in the rendered tree */
+  maxDepth: number;
+}
+
+const FUNCTION_TYPES = new Set([
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ArrowFunctionExpression',
+]);
+
+const JSX_TYPES = new Set(['JSXElement', 'JSXFragment']);
+
+/** Array methods whose callback renders one element per item */
+const LIST_RENDER_METHODS = new Set(['map', 'flatMap']);
+
+function child(node: ESTreeNode, key: string): ESTreeNode | null {
+  const value = (node as unknown as Record<string, unknown>)[key];
+  return isNodeLike(value) ? value : null;
+}
+
+/** Whether an expression evaluates to JSX on at least one of its branches. */
+function rendersJsx(node: ESTreeNode | null): boolean {
+  if (!node) return false;
+  if (JSX_TYPES.has(node.type)) return true;
+  if (node.type === 'ConditionalExpression') {
+    return rendersJsx(child(node, 'consequent')) || rendersJsx(child(node, 'alternate'));
+  }
+  if (node.type === 'LogicalExpression') return rendersJsx(child(node, 'right'));
+  return false;
+}
+
+/** Whether a function body returns JSX, ignoring functions nested in it. */
+function returnsJsx(body: ESTreeNode | null): boolean {
+  if (!body || FUNCTION_TYPES.has(body.type)) return false;
+  if (body.type === 'ReturnStatement') return rendersJsx(child(body, 'argument'));
+  let found = false;
+  walkChildren(body, (c) => {
+    found ||= returnsJsx(c);
+  });
+  return found;
+}
+
+/** `items.map(item => <Item />)`: the method, the list and the rendering callback */
+interface ListRender {
+  method: string;
+  list: ESTreeNode | null;
+  callback: ESTreeNode;
+}
+
+function getListRender(node: ESTreeNode): ListRender | null {
+  if (node.type !== 'CallExpression' || node.callee.type !== 'MemberExpression') return null;
+  const { object, property } = node.callee;
+  if (property.type !== 'Identifier' || !LIST_RENDER_METHODS.has(property.name)) return null;
+
+  const [callback] = node.arguments;
+  if (callback?.type !== 'ArrowFunctionExpression' && callback?.type !== 'FunctionExpression') {
+    return null;
+  }
+  const body = child(callback, 'body');
+  const renders = body?.type === 'BlockStatement' ? returnsJsx(body) : rendersJsx(body);
+  return renders ? { method: property.name, list: object, callback } : null;
+}
+
+/**
+ * Whether a function is the callback of `items.map(item => <Item />)`. Its
+ * JSX is scored as part of the component that renders the list.
+ */
+export function isListRenderCallback(node: ESTreeNode): boolean {
+  const parent = node.parent;
+  return !!parent && getListRender(parent)?.callback === node;
+}
+
+/**
+ * Calculate the JSX render complexity of a function: how tangled the element
+ * tree it renders is, which cognitive complexity deliberately ignores for
+ * `{show && <Panel />}`.
+ *
+ * - `cond && <X />` (also `||`, `??`): +1 for conditional rendering
+ * - `cond ? <A /> : <B />`: +1 for conditional rendering
+ * - `items.map(item => <Item />)`: +1 for list rendering
+ *
+ * Each increment adds the number of conditional and list renderings it is
+ * nested in, so a ternary inside a ternary inside a `.map` costs +3. Nested
+ * functions are separate units, except list-rendering callbacks.
+ */
+export function calculateJsxComplexity(functionNode: ESTreeNode): JsxComplexityResult {
+  const points: ComplexityPoint[] = [];
+  let maxDepth = 0;
+
+  function addPoint(node: ESTreeNode, construct: string, nesting: number): void {
+    points.push(createComplexityPoint(node, construct, 1, nesting, 'structural'));
+  }
+
+  function visitChildren(node: ESTreeNode, nesting: number, depth: number): void {
+    walkChildren(node, (c) => visit(c, nesting, depth));
+  }
+
+  function visitLogical(node: ESTreeNode, nesting: number, depth: number): void {
+    const { operator } = node as LogicalExpressionNode;
+    addPoint(node, `conditional rendering (${operator})`, nesting);
+    visit(child(node, 'left'), nesting, depth);
+    visit(child(node, 'right'), nesting + 1, depth);
+  }
+
+  function visitConditional(node: ESTreeNode, nesting: number, depth: number): void {
+    addPoint(node, 'conditional rendering (ternary)', nesting);
+    visit(child(node, 'test'), nesting, depth);
+    visit(child(node, 'consequent'), nesting + 1, depth);
+    visit(child(node, 'alternate'), nesting + 1, depth);
+  }
+
+  function visitListRender(
+    node: ESTreeNode,
+    list: ListRender,
+    nesting: number,
+    depth: number
+  ): void {
+    addPoint(node, `list rendering (.${list.method})`, nesting);
+    visit(list.list, nesting, depth);
+    visit(child(list.callback, 'body'), nesting + 1, depth);
+  }
+
+  function visit(node: ESTreeNode | null, nesting: number, depth: number): void {
+    if (!node || FUNCTION_TYPES.has(node.type)) return;
+
+    if (JSX_TYPES.has(node.type)) {
+      maxDepth = Math.max(maxDepth, depth + 1);
+      visitChildren(node, nesting, depth + 1);
+      return;
+    }
+    if (node.type === 'LogicalExpression' && rendersJsx(node)) {
+      visitLogical(node, nesting, depth);
+      return;
+    }
+    if (node.type === 'ConditionalExpression' && rendersJsx(node)) {
+      visitConditional(node, nesting, depth);
+      return;
+    }
+    const list = getListRender(node);
+    if (list) visitListRender(node, list, nesting, depth);
+    else visitChildren(node, nesting, depth);
+  }
+
+  // The unit itself is walked even though it is a function
+  visitChildren(functionNode, 0, 0);
+
+  return { total: points.reduce((sum, point) => sum + point.complexity, 0), points, maxDepth };
+}
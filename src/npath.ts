@@ -0,0 +1,199 @@
+import type { ESTreeNode } from './types.js';
+import { LOGICAL_OPERATORS, includes } from './utils.js';
+import { isNodeLike, walkChildren } from './extraction/flow-analyzer.js';
+
+/** A top-level statement of a function body and the paths through it */
+export interface NPathFactor {
+  /** Statement kind, e.g. `if`, `for...of`, `switch`, `expression` */
+  construct: string;
+  /** Number of acyclic paths through the statement; the function's NPath is their product */
+  paths: number;
+  location: {
+    start: { line: number; column: number };
+    end: { line: number; column: number };
+  };
+}
+
+export interface NPathResult {
+  total: number;
+  /** Top-level statements with more than one path, in source order */
+  factors: NPathFactor[];
+}
+
+const FUNCTION_TYPES = new Set([
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ArrowFunctionExpression',
+]);
+
+const STATEMENT_CONSTRUCTS: Record<string, string> = {
+  IfStatement: 'if',
+  ForStatement: 'for',
+  ForInStatement: 'for...in',
+  ForOfStatement: 'for...of',
+  WhileStatement: 'while',
+  DoWhileStatement: 'do...while',
+  SwitchStatement: 'switch',
+  TryStatement: 'try',
+  VariableDeclaration: 'declaration',
+  ReturnStatement: 'return',
+  ThrowStatement: 'throw',
+  ExpressionStatement: 'expression',
+};
+
+const DEFAULT_LOCATION = {
+  start: { line: 0, column: 0 },
+  end: { line: 0, column: 0 },
+} as const;
+
+function child(node: ESTreeNode, key: string): ESTreeNode | null {
+  const value = (node as unknown as Record<string, unknown>)[key];
+  return isNodeLike(value) ? value : null;
+}
+
+function children(node: ESTreeNode, key: string): ESTreeNode[] {
+  const value = (node as unknown as Record<string, unknown>)[key];
+  return Array.isArray(value) ? value.filter(isNodeLike) : [];
+}
+
+/**
+ * Paths through an expression. Short-circuit operators and ternaries add
+ * paths; sub-expressions that are evaluated in sequence multiply.
+ * Nested functions are separate units and contribute a single path.
+ */
+function expressionPaths(node: ESTreeNode | null): number {
+  if (!node || FUNCTION_TYPES.has(node.type)) return 1;
+
+  if (node.type === 'LogicalExpression' && includes(LOGICAL_OPERATORS, node.operator)) {
+    return expressionPaths(node.left) + expressionPaths(node.right);
+  }
+  if (node.type === 'ConditionalExpression') {
+    // The test's own short-circuit paths each lead to one of the branches
+    return (
+      expressionPaths(node.test) -
+      1 +
+      expressionPaths(node.consequent) +
+      expressionPaths(node.alternate)
+    );
+  }
+
+  let paths = 1;
+  walkChildren(node, (c) => {
+    paths *= statementPaths(c);
+  });
+  return paths;
+}
+
+/** Extra paths a condition adds through its `&&`/`||`/`??` operators. */
+function conditionPaths(node: ESTreeNode | null): number {
+  return expressionPaths(node) - 1;
+}
+
+function sequencePaths(statements: readonly ESTreeNode[]): number {
+  return statements.reduce((paths, statement) => paths * statementPaths(statement), 1);
+}
+
+function switchPaths(node: ESTreeNode): number {
+  const cases = children(node, 'cases');
+  const hasDefault = cases.some((c) => child(c, 'test') === null);
+  const casePaths = cases.reduce(
+    (sum, c) => sum + conditionPaths(child(c, 'test')) + sequencePaths(children(c, 'consequent')),
+    0
+  );
+  return conditionPaths(child(node, 'discriminant')) + casePaths + (hasDefault ? 0 : 1);
+}
+
+function tryPaths(node: ESTreeNode): number {
+  const handler = child(node, 'handler');
+  const finalizer = child(node, 'finalizer');
+  const handlerPaths = handler ? statementPaths(child(handler, 'body')) : 0;
+  return (statementPaths(child(node, 'block')) + handlerPaths) * statementPaths(finalizer);
+}
+
+function loopPaths(node: ESTreeNode): number {
+  return conditionPaths(child(node, 'test')) + statementPaths(child(node, 'body')) + 1;
+}
+
+/**
+ * Paths through each kind of statement (Nejmeh's NPath):
+ * - sequence: product of the statements
+ * - if: then + else (1 when absent) + condition operators
+ * - loops: body + 1 (skipped) + condition operators
+ * - switch: sum of the cases, + 1 without a `default`
+ * - try: (block + catch) × finally
+ */
+const STATEMENT_PATHS: Record<string, (node: ESTreeNode) => number> = {
+  BlockStatement: (node) => sequencePaths(children(node, 'body')),
+  StaticBlock: (node) => sequencePaths(children(node, 'body')),
+  IfStatement: (node) =>
+    conditionPaths(child(node, 'test')) +
+    statementPaths(child(node, 'consequent')) +
+    statementPaths(child(node, 'alternate')),
+  ForStatement: loopPaths,
+  ForInStatement: loopPaths,
+  ForOfStatement: loopPaths,
+  WhileStatement: loopPaths,
+  DoWhileStatement: loopPaths,
+  SwitchStatement: switchPaths,
+  TryStatement: tryPaths,
+  LabeledStatement: (node) => statementPaths(child(node, 'body')),
+};
+
+function statementPaths(node: ESTreeNode | null): number {
+  if (!node) return 1;
+  return (STATEMENT_PATHS[node.type] ?? expressionPaths)(node);
+}
+
+/** Top-level statements of a function body, module, static block or field initializer. */
+function getUnitStatements(node: ESTreeNode): ESTreeNode[] {
+  if (node.type === 'Program' || node.type === 'StaticBlock') return children(node, 'body');
+  const body = child(node, node.type === 'PropertyDefinition' ? 'value' : 'body');
+  if (!body) return [];
+  return body.type === 'BlockStatement' ? children(body, 'body') : [body];
+}
+
+/**
+ * Calculate NPath complexity for a function: the number of acyclic execution
+ * paths through its body. Unlike cyclomatic complexity, sequential independent
+ * branches multiply, so five consecutive `if`s give 32 paths rather than 6.
+ *
+ * The breakdown lists the top-level statements the total is the product of.
+ */
+export function calculateNPath(functionNode: ESTreeNode): NPathResult {
+  const statements = getUnitStatements(functionNode);
+  const factors: NPathFactor[] = [];
+  let total = 1;
+
+  for (const statement of statements) {
+    const paths = statementPaths(statement);
+    total *= paths;
+    if (paths > 1) {
+      factors.push({
+        construct: STATEMENT_CONSTRUCTS[statement.type] ?? 'expression',
+        paths,
+        location: statement.loc ?? DEFAULT_LOCATION,
+      });
+    }
+  }
+
+  return { total, factors };
+}
+
+const MAX_BREAKDOWN_FACTORS = 5;
+
+/** List the statements that multiply the path count the most. */
+export function formatNPathBreakdown(factors: readonly NPathFactor[]): string {
+  if (factors.length === 0) return '';
+
+  const largest = factors
+    .toSorted((a, b) => b.paths - a.paths || a.location.start.line - b.location.start.line)
+    .slice(0, MAX_BREAKDOWN_FACTORS);
+  const lines = largest.map(
+    (factor) =>
+      `  Line ${factor.location.start.line}: ×${factor.paths} paths through '${factor.construct}'`
+  );
+  const more = factors.length - largest.length;
+  if (more > 0) lines.push(`  ... and ${more} more`);
+
+  return '\n\nLargest path multipliers:\n' + lines.join('\n');
+}
@@ -0,0 +1,175 @@
+/*
+ * Scoring profiles: how much each construct adds to cyclomatic and cognitive
+ * complexity. A weight of 0 stops counting the construct; nesting still
+ * applies to the code inside it.
+ */
+
+export const PROFILE_NAMES = ['sonar', 'eslint', 'custom'] as const;
+
+export type ProfileName = (typeof PROFILE_NAMES)[number];
+
+export interface CyclomaticWeights {
+  if: number;
+  /** `for`, `for...in`, `for...of`, `while`, `do...while` */
+  loop: number;
+  /** `case` with a test */
+  case: number;
+  /** `default:` */
+  defaultCase: number;
+  catch: number;
+  ternary: number;
+  /** `&&` and `||` */
+  logicalOperator: number;
+  /** `??` */
+  nullishCoalescing: number;
+  /** `&&=`, `||=`, `??=` */
+  logicalAssignment: number;
+  /** Default values of parameters and destructuring patterns: `(a = 1) => {}` */
+  defaultValue: number;
+  /** Each `?.` */
+  optionalChain: number;
+}
+
+export interface CognitiveWeights {
+  /** `if`, plus nesting */
+  if: number;
+  elseIf: number;
+  else: number;
+  /** `for`, `for...in`, `for...of`, `while`, `do...while`, plus nesting */
+  loop: number;
+  /** `switch`, plus nesting */
+  switch: number;
+  /** `catch`, plus nesting */
+  catch: number;
+  /** `? :`, plus nesting */
+  ternary: number;
+  /** A sequence of `&&` or `||` */
+  logicalOperator: number;
+  /** A sequence of `??` */
+  nullishCoalescing: number;
+  /** A logical sequence that only supplies a fallback value: `const items = input || []` */
+  defaultValueFallback: number;
+  /** A `&&` sequence that renders JSX: `{show && <Panel />}` */
+  jsxShortCircuit: number;
+  /** `break label` and `continue label` */
+  labeledJump: number;
+  /** A function declared inside another function, added to the outer function */
+  nestedFunction: number;
+  /** A recursive call, or a call that closes a recursion cycle */
+  recursion: number;
+}
+
+export interface ScoringProfile {
+  cyclomatic: CyclomaticWeights;
+  cognitive: CognitiveWeights;
+}
+
+/** Weights on top of a profile, as given in rule options */
+export interface ScoringWeights {
+  cyclomatic?: Partial<CyclomaticWeights>;
+  cognitive?: Partial<CognitiveWeights>;
+}
+
+export interface ScoringOptions {
+  /** Base weights (default: `custom`) */
+  profile?: ProfileName;
+  weights?: ScoringWeights;
+}
+
+const CUSTOM_PROFILE: ScoringProfile = {
+  cyclomatic: {
+    if: 1,
+    loop: 1,
+    case: 1,
+    defaultCase: 0,
+    catch: 1,
+    ternary: 1,
+    logicalOperator: 1,
+    nullishCoalescing: 1,
+    logicalAssignment: 1,
+    defaultValue: 0,
+    optionalChain: 0,
+  },
+  cognitive: {
+    if: 1,
+    elseIf: 1,
+    else: 1,
+    loop: 1,
+    switch: 1,
+    catch: 1,
+    ternary: 1,
+    logicalOperator: 1,
+    nullishCoalescing: 1,
+    defaultValueFallback: 0,
+    jsxShortCircuit: 0,
+    labeledJump: 1,
+    nestedFunction: 1,
+    recursion: 1,
+  },
+};
+
+/**
+ * - `custom`: this plugin's scoring, meant to be adjusted with `weights`
+ * - `sonar`: the SonarSource cognitive complexity spec, which has no fallback
+ *   or JSX exclusions and adds nothing to a function for the functions
+ *   declared inside it (each is still scored as its own unit)
+ * - `eslint`: ESLint's `complexity` rule, which also counts default values and
+ *   optional chaining
+ */
+export const PROFILES: Readonly<Record<ProfileName, ScoringProfile>> = {
+  custom: CUSTOM_PROFILE,
+  sonar: {
+    cyclomatic: CUSTOM_PROFILE.cyclomatic,
+    cognitive: {
+      ...CUSTOM_PROFILE.cognitive,
+      defaultValueFallback: 1,
+      jsxShortCircuit: 1,
+      nestedFunction: 0,
+    },
+  },
+  eslint: {
+    cyclomatic: { ...CUSTOM_PROFILE.cyclomatic, defaultValue: 1, optionalChain: 1 },
+    cognitive: CUSTOM_PROFILE.cognitive,
+  },
+};
+
+export const DEFAULT_PROFILE = CUSTOM_PROFILE;
+
+/** Resolve a profile name and weight overrides into the weights to score with. */
+export function resolveProfile(options: ScoringOptions = {}): ScoringProfile {
+  const base = PROFILES[options.profile ?? 'custom'];
+  if (!options.weights) return base;
+  return {
+    cyclomatic: { ...base.cyclomatic, ...options.weights.cyclomatic },
+    cognitive: { ...base.cognitive, ...options.weights.cognitive },
+  };
+}
+
+function weightsSchema(weights: object, description: string) {
+  return {
+    type: 'object',
+    description,
+    properties: Object.fromEntries(
+      Object.keys(weights).map((key) => [key, { type: 'integer', minimum: 0 }])
+    ),
+    additionalProperties: false,
+  };
+}
+
+/** JSON Schema properties of rules that compute cyclomatic or cognitive complexity */
+export const PROFILE_SCHEMA_PROPERTIES = {
+  profile: {
+    type: 'string',
+    enum: [...PROFILE_NAMES],
+    description: 'Scoring profile: sonar, eslint or custom (default: custom)',
+  },
+  weights: {
+    type: 'object',
+    description: 'Per-construct weights on top of the profile (0 = not counted)',
+    properties: {
+      cyclomatic: weightsSchema(CUSTOM_PROFILE.cyclomatic, 'Cyclomatic complexity weights'),
+      cognitive: weightsSchema(CUSTOM_PROFILE.cognitive, 'Cognitive complexity weights'),
+    },
+    additionalProperties: false,
+  },
+};
@@ -0,0 +1,145 @@
+import { defineRule } from '@oxlint/plugins';
+import type {
+  Rule,
+  Context,
+  ClassComplexityOptions,
+  ComplexityMetric,
+  VisitorWithHooks,
+  ESTreeNode,
+  ProgramNode,
+} from '../types.js';
+import { getClassName, getUnitName } from '../utils.js';
+import { formatTopFunctions, type FunctionScore } from '../file-budget.js';
+import {
+  createCombinedComplexityVisitor,
+  type CombinedComplexityResult,
+} from '../combined-visitor.js';
+import { DEFAULT_PROFILE, PROFILE_SCHEMA_PROPERTIES, resolveProfile } from '../profile.js';
+
+/** Roughly three methods at the per-function defaults */
+export const DEFAULT_CLASS_CYCLOMATIC = 60;
+export const DEFAULT_CLASS_COGNITIVE = 45;
+
+const METRICS: readonly ComplexityMetric[] = ['cognitive', 'cyclomatic'];
+
+/**
+ * `ClassBody` of the class a function is a method, accessor or
+ * function-valued field of.
+ */
+function getOwningClassBody(node: ESTreeNode): ESTreeNode | null {
+  const member = node.parent;
+  if (member?.type !== 'MethodDefinition' && member?.type !== 'PropertyDefinition') return null;
+  return member.value === node ? member.parent : null;
+}
+
+/**
+ * Enforce a maximum weighted methods per class (WMC): the sum of the
+ * cognitive and cyclomatic scores of a class's methods, accessors and
+ * function-valued fields. Functions nested inside methods, static blocks
+ * and field initializers are not counted.
+ */
+export const classComplexity: Rule = defineRule({
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description: 'Enforce a maximum total complexity of the methods of a class',
+      recommended: false,
+      url: 'https://github.com/itaymendel/oxlint-plugin-complexity#complexityclass-complexity',
+    },
+    messages: {
+      classComplexity:
+        "Class '{{name}}' exceeds its weighted methods complexity across {{methods}} methods: {{exceeded}}.{{details}}",
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          cyclomatic: {
+            type: 'integer',
+            minimum: 0,
+            description: `Maximum sum of method cyclomatic complexity (default: ${DEFAULT_CLASS_CYCLOMATIC})`,
+          },
+          cognitive: {
+            type: 'integer',
+            minimum: 0,
+            description: `Maximum sum of method cognitive complexity (default: ${DEFAULT_CLASS_COGNITIVE})`,
+          },
+          ...PROFILE_SCHEMA_PROPERTIES,
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  createOnce(context: Context) {
+    let limits: Record<ComplexityMetric, number> = {
+      cyclomatic: DEFAULT_CLASS_CYCLOMATIC,
+      cognitive: DEFAULT_CLASS_COGNITIVE,
+    };
+    let profile = DEFAULT_PROFILE;
+    const methodsByClass = new Map<ESTreeNode, FunctionScore[]>();
+
+    function handleComplexityResult(result: CombinedComplexityResult, node: ESTreeNode): void {
+      const classBody = getOwningClassBody(node);
+      if (!classBody) return;
+
+      const methods = methodsByClass.get(classBody) ?? [];
+      methods.push({
+        name: getUnitName(node),
+        cyclomatic: result.cyclomatic,
+        cognitive: result.cognitive,
+        loc: node.loc,
+      });
+      methodsByClass.set(classBody, methods);
+    }
+
+    function checkClass(classBody: ESTreeNode): void {
+      const methods = methodsByClass.get(classBody) ?? [];
+
+      const exceeded = METRICS.map((metric) => ({
+        metric,
+        total: methods.reduce((sum, method) => sum + method[metric], 0),
+      })).filter(({ metric, total }) => total > limits[metric]);
+      if (exceeded.length === 0) return;
+
+      const totals = exceeded
+        .map(({ metric, total }) => `${metric} ${total} (max ${limits[metric]})`)
+        .join(', ');
+      const { metric } = exceeded[0];
+
+      context.report({
+        node: classBody.parent ?? classBody,
+        messageId: 'classComplexity',
+        data: {
+          name: getClassName(classBody),
+          methods: methods.length,
+          exceeded: totals,
+          details: `\n\nTop methods by ${metric}:\n${formatTopFunctions(methods, metric)}`,
+          totals: JSON.stringify(exceeded.map((e) => ({ ...e, max: limits[e.metric] }))),
+        },
+      });
+    }
+
+    const visitor = createCombinedComplexityVisitor(context, handleComplexityResult, () => profile);
+
+    return {
+      before() {
+        const options = (context.options[0] ?? {}) as ClassComplexityOptions;
+        limits = {
+          cyclomatic: options.cyclomatic ?? DEFAULT_CLASS_CYCLOMATIC,
+          cognitive: options.cognitive ?? DEFAULT_CLASS_COGNITIVE,
+        };
+        profile = resolveProfile(options);
+      },
+
+      ...visitor,
+
+      'Program:exit'(node: ESTreeNode) {
+        // Method results are delivered when the file is finished
+        visitor['Program:exit']?.(node as ProgramNode);
+        for (const classBody of methodsByClass.keys()) checkClass(classBody);
+        methodsByClass.clear();
+      },
+    } as VisitorWithHooks;
+  },
+});
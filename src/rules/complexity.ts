@@ -1,13 +1,42 @@
+import { resolve } from 'path';
 import { defineRule } from '@oxlint/plugins';
 import type {
   Rule,
   Context,
-  FunctionNode,
   MaxCognitiveOptions,
   VisitorWithHooks,
   ESTreeNode,
+  ProgramNode,
+  ComplexityMetric,
+  ComplexityPoint,
 } from '../types.js';
-import { getFunctionName, summarizeComplexity, formatBreakdown } from '../utils.js';
+import {
+  getUnitName,
+  createUnitKeyer,
+  getTopCategories,
+  summarizeComplexity,
+  formatBreakdown,
+  showsDetails,
+  type BreakdownOptions,
+} from '../utils.js';
+import { getBaselineScore, loadBaseline, toBaselinePath, type Baseline } from '../baseline.js';
+import { calculateNPath, formatNPathBreakdown } from '../npath.js';
+import { calculateJsxComplexity, isListRenderCallback, type JsxComplexityResult } from '../jsx.js';
+import {
+  DEFAULT_PROFILE,
+  PROFILE_SCHEMA_PROPERTIES,
+  resolveProfile,
+  type ScoringOptions,
+} from '../profile.js';
+import {
+  FILE_BUDGET_SCHEMA,
+  FILE_BUDGET_MESSAGE,
+  createFileBudgetData,
+  getFileBudgetViolations,
+  type FileBudget,
+  type FunctionScore,
+} from '../file-budget.js';
+import { findBudgetDirective, type BudgetDirective, type ComplexityBudget } from '../budget.js';
 import {
   createCombinedComplexityVisitor,
   type CombinedComplexityResult,
@@ -15,18 +44,29 @@ import {
 import {
   normalizeCognitiveCategory,
   parseExtractionOptions,
-  getExtractionOutput,
+  getExtractionReport,
   EXTRACTION_SCHEMA_PROPERTIES,
+  DEFAULT_CYCLOMATIC,
+  DEFAULT_COGNITIVE,
+  DEFAULT_MIN_LINES,
+  isBelowMinLines,
+  createThresholdData,
+  thresholdMessage,
 } from './shared.js';
 
-const DEFAULT_CYCLOMATIC = 20;
-const DEFAULT_COGNITIVE = 15;
-const DEFAULT_MIN_LINES = 10;
-
-interface CombinedComplexityOptions extends Omit<MaxCognitiveOptions, 'max'> {
+interface CombinedComplexityOptions extends Omit<MaxCognitiveOptions, 'max'>, ScoringOptions {
   cyclomatic?: number;
   cognitive?: number;
   minLines?: number;
+  npath?: number;
+  jsx?: number;
+  jsxDepth?: number;
+  baseline?: string;
+  fileBudget?: FileBudget;
+}
+
+function formatBaselineNote(recorded: number | undefined): string {
+  return recorded === undefined ? '' : ` Baseline is ${recorded}.`;
 }
 
 /**
@@ -39,15 +79,48 @@ interface CombinedComplexityOptions extends Omit<MaxCognitiveOptions, 'max'> {
  * - Cyclomatic: 20
  * - Cognitive: 15
  * - minLines: 10 (skip functions with fewer lines for better performance)
+ *
+ * With a `baseline` file, recorded functions are only reported once their
+ * score rises above the recorded value.
+ *
+ * NPath (number of acyclic paths) is only checked when `npath` is set, JSX
+ * render complexity only when `jsx` is set, and JSX element nesting depth
+ * only when `jsxDepth` is set.
+ *
+ * A `// complexity-budget cognitive=30 -- reason` comment above a function
+ * overrides the thresholds for that function; the reason is shown in reports.
+ *
+ * With `fileBudget`, the sum/max/mean of per-function scores is also checked
+ * once per file and reported on the Program node.
+ *
+ * `profile` and `weights` choose how much each construct counts, e.g. to
+ * match SonarQube or ESLint's `complexity` rule.
+ *
+ * `verbosity` controls how much of the summary, breakdown and extraction
+ * suggestions the messages include.
+ *
+ * Every report has a `messageId` and a `data` payload with the function name,
+ * metric, score, threshold and breakdown, for tools that read lint output.
  */
 export const complexity: Rule = defineRule({
   meta: {
     type: 'suggestion',
+    hasSuggestions: true,
     docs: {
       description: 'Enforce maximum cyclomatic and cognitive complexity',
       recommended: true,
       url: 'https://github.com/itaymendel/oxlint-plugin-complexity#complexitycomplexity',
     },
+    messages: {
+      cyclomatic: thresholdMessage('cyclomatic complexity'),
+      cognitive: thresholdMessage('Cognitive Complexity'),
+      npath: thresholdMessage('NPath complexity'),
+      jsx: thresholdMessage('JSX render complexity'),
+      jsxDepth: thresholdMessage('JSX element nesting depth'),
+      fileBudget: FILE_BUDGET_MESSAGE,
+      invalidBudget:
+        'Invalid complexity budget: {{error}}. Expected e.g. "// complexity-budget cognitive=30 -- reason".',
+    },
     schema: [
       {
         type: 'object',
@@ -67,6 +140,28 @@ export const complexity: Rule = defineRule({
             minimum: 0,
             description: 'Minimum lines to analyze (default: 10, 0 = analyze all)',
           },
+          npath: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Maximum NPath complexity (default: not checked)',
+          },
+          jsx: {
+            type: 'integer',
+            minimum: 0,
+            description: 'Maximum JSX render complexity (default: not checked)',
+          },
+          jsxDepth: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Maximum JSX element nesting depth (default: not checked)',
+          },
+          baseline: {
+            type: 'string',
+            description:
+              'Path to a baseline JSON file of known violations, relative to the working directory',
+          },
+          fileBudget: FILE_BUDGET_SCHEMA,
+          ...PROFILE_SCHEMA_PROPERTIES,
           ...EXTRACTION_SCHEMA_PROPERTIES,
         },
         additionalProperties: false,
@@ -78,74 +173,279 @@ export const complexity: Rule = defineRule({
     let maxCyclomatic = DEFAULT_CYCLOMATIC;
     let maxCognitive = DEFAULT_COGNITIVE;
     let minLines = DEFAULT_MIN_LINES;
+    let maxNPath: number | undefined;
+    let maxJsx: number | undefined;
+    let maxJsxDepth: number | undefined;
+    let fileBudget: FileBudget | undefined;
+    let fileFunctions: FunctionScore[] = [];
     let parsed = parseExtractionOptions({});
+    let baseline: Baseline | undefined;
+    let baselinePath = '';
+    let getUnitKey = createUnitKeyer();
+    let profile = DEFAULT_PROFILE;
+
+    /**
+     * Returns the recorded score (`undefined` if there is none), or `null` if
+     * the violation is baselined and should not be reported.
+     */
+    function checkBaseline(
+      unitKey: string,
+      metric: ComplexityMetric,
+      score: number
+    ): number | undefined | null {
+      if (!baseline) return undefined;
+      const recorded = getBaselineScore(baseline, baselinePath, unitKey, metric);
+      if (recorded === undefined) return undefined;
+      return score > recorded ? recorded : null;
+    }
+
+    /** Breakdown options for metrics without configurable tips */
+    function getBreakdownOptions(): BreakdownOptions {
+      return { verbosity: parsed.verbosity, sourceLines: context.sourceCode.lines };
+    }
 
-    function isBelowMinLines(node: ESTreeNode): boolean {
-      if (minLines <= 0 || !node.loc) return false;
-      const functionLines = node.loc.end.line - node.loc.start.line + 1;
-      return functionLines < minLines;
+    function summarize(
+      points: ComplexityPoint[],
+      normalizeCategory?: (category: string) => string
+    ): string {
+      return parsed.verbosity === 'minimal' ? '' : summarizeComplexity(points, normalizeCategory);
     }
 
     function reportCyclomatic(
       node: ESTreeNode,
       functionName: string,
-      result: CombinedComplexityResult
+      unitKey: string,
+      result: CombinedComplexityResult,
+      budget: ComplexityBudget | null
     ): void {
-      if (result.cyclomatic <= maxCyclomatic) return;
+      const max = budget?.thresholds.cyclomatic ?? maxCyclomatic;
+      if (result.cyclomatic <= max) return;
+      const recorded = checkBaseline(unitKey, 'cyclomatic', result.cyclomatic);
+      if (recorded === null) return;
 
-      const summary = summarizeComplexity(result.cyclomaticPoints);
-      const breakdown = formatBreakdown(result.cyclomaticPoints);
+      const points = result.cyclomaticPoints;
+      const summary = summarize(points);
+      const breakdown = formatBreakdown(points, getBreakdownOptions());
 
       context.report({
         node,
-        message: `Function '${functionName}' has cyclomatic complexity of ${result.cyclomatic}. Maximum allowed is ${maxCyclomatic}.${summary}${breakdown}`,
+        messageId: 'cyclomatic',
+        data: createThresholdData({
+          name: functionName,
+          metric: 'cyclomatic',
+          score: result.cyclomatic,
+          max,
+          budget,
+          details: `${formatBaselineNote(recorded)}${summary}${breakdown}`,
+          extra: { baseline: recorded ?? null, categories: getTopCategories(points), points },
+        }),
       });
     }
 
     function reportCognitive(
       node: ESTreeNode,
       functionName: string,
-      result: CombinedComplexityResult
+      unitKey: string,
+      result: CombinedComplexityResult,
+      budget: ComplexityBudget | null
     ): void {
-      if (result.cognitive <= maxCognitive) return;
+      const max = budget?.thresholds.cognitive ?? maxCognitive;
+      if (result.cognitive <= max) return;
+      const recorded = checkBaseline(unitKey, 'cognitive', result.cognitive);
+      if (recorded === null) return;
 
-      const summary = summarizeComplexity(result.cognitivePoints, normalizeCognitiveCategory);
-      const breakdown = formatBreakdown(result.cognitivePoints, parsed.breakdownOptions);
-      const extractionOutput = getExtractionOutput(
+      const points = result.cognitivePoints;
+      const summary = summarize(points, normalizeCognitiveCategory);
+      const breakdown = formatBreakdown(points, {
+        ...parsed.breakdownOptions,
+        sourceLines: context.sourceCode.lines,
+      });
+      const extraction = getExtractionReport(
         parsed,
         context,
         node,
         result.cognitivePoints,
         result.cognitive,
-        maxCognitive
+        max
       );
 
       context.report({
         node,
-        message: `Function '${functionName}' has Cognitive Complexity of ${result.cognitive}. Maximum allowed is ${maxCognitive}.${summary}${breakdown}${extractionOutput}`,
+        messageId: 'cognitive',
+        data: createThresholdData({
+          name: functionName,
+          metric: 'cognitive',
+          score: result.cognitive,
+          max,
+          budget,
+          details: `${formatBaselineNote(recorded)}${summary}${breakdown}${extraction.output}`,
+          extra: {
+            baseline: recorded ?? null,
+            categories: getTopCategories(points, normalizeCognitiveCategory),
+            points,
+            suggestions: extraction.suggestions,
+          },
+        }),
+        ...(extraction.suggest.length > 0 && { suggest: extraction.suggest }),
+      });
+    }
+
+    function reportNPath(
+      node: ESTreeNode,
+      functionName: string,
+      budget: ComplexityBudget | null
+    ): void {
+      const max = budget?.thresholds.npath ?? maxNPath;
+      if (max === undefined) return;
+      const npath = calculateNPath(node);
+      if (npath.total <= max) return;
+
+      context.report({
+        node,
+        messageId: 'npath',
+        data: createThresholdData({
+          name: functionName,
+          metric: 'npath',
+          score: npath.total,
+          max,
+          budget,
+          details: showsDetails(parsed.verbosity) ? formatNPathBreakdown(npath.factors) : '',
+          extra: { points: npath.factors },
+        }),
+      });
+    }
+
+    function formatJsxDetails(maxDepth: number, points: ComplexityPoint[]): string {
+      if (parsed.verbosity === 'minimal') return '';
+      return ` Deepest element nesting is ${maxDepth}.${formatBreakdown(points, getBreakdownOptions())}`;
+    }
+
+    function reportJsx(
+      node: ESTreeNode,
+      functionName: string,
+      budget: ComplexityBudget | null
+    ): void {
+      const max = budget?.thresholds.jsx ?? maxJsx;
+      const maxDepth = budget?.thresholds.jsxDepth ?? maxJsxDepth;
+      // A list's item callback is scored as part of the component rendering the list
+      if ((max === undefined && maxDepth === undefined) || isListRenderCallback(node)) return;
+      const jsx = calculateJsxComplexity(node);
+      if (max !== undefined) reportJsxComplexity(node, functionName, jsx, max, budget);
+      if (maxDepth !== undefined) reportJsxDepth(node, functionName, jsx, maxDepth, budget);
+    }
+
+    function reportJsxComplexity(
+      node: ESTreeNode,
+      functionName: string,
+      jsx: JsxComplexityResult,
+      max: number,
+      budget: ComplexityBudget | null
+    ): void {
+      if (jsx.total <= max) return;
+
+      context.report({
+        node,
+        messageId: 'jsx',
+        data: createThresholdData({
+          name: functionName,
+          metric: 'jsx',
+          score: jsx.total,
+          max,
+          budget,
+          details: formatJsxDetails(jsx.maxDepth, jsx.points),
+          extra: { maxDepth: jsx.maxDepth, points: jsx.points },
+        }),
+      });
+    }
+
+    function reportJsxDepth(
+      node: ESTreeNode,
+      functionName: string,
+      jsx: JsxComplexityResult,
+      max: number,
+      budget: ComplexityBudget | null
+    ): void {
+      if (jsx.maxDepth <= max) return;
+
+      context.report({
+        node,
+        messageId: 'jsxDepth',
+        data: createThresholdData({
+          name: functionName,
+          metric: 'jsxDepth',
+          score: jsx.maxDepth,
+          max,
+          budget,
+          details: '',
+        }),
+      });
+    }
+
+    function reportInvalidBudget(directive: BudgetDirective): void {
+      context.report({
+        loc: directive.comment.loc,
+        messageId: 'invalidBudget',
+        data: { error: directive.error },
       });
     }
 
     function handleComplexityResult(result: CombinedComplexityResult, node: ESTreeNode): void {
-      if (isBelowMinLines(node)) return;
+      const functionName = getUnitName(node);
+      // Keyed before the min-lines check so ordinals count every unit, as in the baseline
+      const unitKey = getUnitKey(functionName);
+      if (fileBudget) {
+        const { cyclomatic, cognitive } = result;
+        fileFunctions.push({ name: functionName, cyclomatic, cognitive, loc: node.loc });
+      }
 
-      const funcNode = node as FunctionNode;
-      const functionName = getFunctionName(funcNode, funcNode.parent);
+      if (isBelowMinLines(node.loc, minLines)) return;
 
-      reportCyclomatic(node, functionName, result);
-      reportCognitive(node, functionName, result);
+      const directive = findBudgetDirective(context, node);
+      if (directive?.error) reportInvalidBudget(directive);
+      const budget = directive?.budget ?? null;
+
+      reportCyclomatic(node, functionName, unitKey, result, budget);
+      reportCognitive(node, functionName, unitKey, result, budget);
+      reportNPath(node, functionName, budget);
+      reportJsx(node, functionName, budget);
     }
 
+    const visitor = createCombinedComplexityVisitor(context, handleComplexityResult, () => profile);
+
     return {
       before() {
         const options = (context.options[0] ?? {}) as CombinedComplexityOptions;
         maxCyclomatic = options.cyclomatic ?? DEFAULT_CYCLOMATIC;
         maxCognitive = options.cognitive ?? DEFAULT_COGNITIVE;
         minLines = options.minLines ?? DEFAULT_MIN_LINES;
+        maxNPath = options.npath;
+        maxJsx = options.jsx;
+        maxJsxDepth = options.jsxDepth;
+        fileBudget = options.fileBudget;
+        fileFunctions = [];
         parsed = parseExtractionOptions(options);
+        profile = resolveProfile(options);
+        baseline = options.baseline
+          ? loadBaseline(resolve(context.cwd, options.baseline))
+          : undefined;
+        baselinePath = toBaselinePath(context.cwd, context.filename);
+        getUnitKey = createUnitKeyer();
       },
 
-      ...createCombinedComplexityVisitor(context, handleComplexityResult),
+      ...visitor,
+
+      'Program:exit'(node: ESTreeNode) {
+        // Finishes the <module> unit first, so it counts toward the file budget
+        visitor['Program:exit']?.(node as ProgramNode);
+        if (!fileBudget) return;
+        const violations = getFileBudgetViolations(fileFunctions, fileBudget);
+        if (violations.length === 0) return;
+        context.report({
+          node,
+          messageId: 'fileBudget',
+          data: createFileBudgetData(fileFunctions, violations),
+        });
+      },
     } as VisitorWithHooks;
   },
 });
@@ -0,0 +1,98 @@
+import { defineRule } from '@oxlint/plugins';
+import type {
+  Rule,
+  Context,
+  MaxDepthOptions,
+  NestingStep,
+  VisitorWithHooks,
+  ESTreeNode,
+} from '../types.js';
+import { getUnitName } from '../utils.js';
+import { findBudgetDirective } from '../budget.js';
+import {
+  createCombinedComplexityVisitor,
+  type CombinedComplexityResult,
+} from '../combined-visitor.js';
+import { createThresholdData, thresholdMessage } from './shared.js';
+
+export const DEFAULT_MAX_DEPTH = 4;
+
+export function formatNestingChain(steps: readonly NestingStep[]): string {
+  if (steps.length === 0) return '';
+
+  const chain = steps.map((step) => step.construct).join(' > ');
+  const lines = steps.map(
+    (step, index) => `  Line ${step.location.start.line}: ${'  '.repeat(index)}${step.construct}`
+  );
+  return `\n\nDeepest nesting: ${chain}\n${lines.join('\n')}`;
+}
+
+/**
+ * Enforce a maximum block nesting depth per function.
+ *
+ * Depth counts `if`/`else`, loops, `switch`, `try`/`catch`/`finally`; an
+ * `else if` stays at the depth of its `if`. Nested functions start again
+ * at depth 0. Reports list the chain of constructs on the deepest path.
+ * A `// complexity-budget depth=6 -- reason` comment overrides `max` for one
+ * function (invalid directives are reported by `complexity/complexity`).
+ */
+export const maxDepth: Rule = defineRule({
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description: 'Enforce a maximum nesting depth of blocks',
+      recommended: false,
+      url: 'https://github.com/itaymendel/oxlint-plugin-complexity#complexitymax-depth',
+    },
+    messages: {
+      maxDepth: thresholdMessage('nesting depth'),
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          max: {
+            type: 'integer',
+            minimum: 0,
+            description: `Maximum nesting depth (default: ${DEFAULT_MAX_DEPTH})`,
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+
+  createOnce(context: Context) {
+    let max = DEFAULT_MAX_DEPTH;
+
+    function handleComplexityResult(result: CombinedComplexityResult, node: ESTreeNode): void {
+      if (result.maxDepth <= max) return;
+      const budget = findBudgetDirective(context, node)?.budget ?? null;
+      const limit = budget?.thresholds.depth ?? max;
+      if (result.maxDepth <= limit) return;
+
+      context.report({
+        node,
+        messageId: 'maxDepth',
+        data: createThresholdData({
+          name: getUnitName(node),
+          metric: 'depth',
+          score: result.maxDepth,
+          max: limit,
+          budget,
+          details: formatNestingChain(result.deepestNesting),
+          extra: { chain: result.deepestNesting },
+        }),
+      });
+    }
+
+    return {
+      before() {
+        const options = (context.options[0] ?? {}) as MaxDepthOptions;
+        max = options.max ?? DEFAULT_MAX_DEPTH;
+      },
+
+      ...createCombinedComplexityVisitor(context, handleComplexityResult),
+    } as VisitorWithHooks;
+  },
+});
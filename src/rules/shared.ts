@@ -1,12 +1,56 @@
-import type { Context, ComplexityPoint, ESTreeNode, MaxCognitiveOptions } from '../types.js';
-import { type BreakdownOptions } from '../utils.js';
+import type {
+  Context,
+  ComplexityMetric,
+  ComplexityPoint,
+  ComplexityThresholds,
+  DiagnosticData,
+  ESTreeNode,
+  MaxCognitiveOptions,
+  Suggestion,
+  Verbosity,
+} from '../types.js';
+import { VERBOSITY_LEVELS, type BreakdownOptions } from '../utils.js';
 import {
   analyzeExtractionOpportunities,
   shouldAnalyzeExtraction,
   formatExtractionSuggestions,
   type ExtractionOptions,
+  type ExtractionSuggestion,
 } from '../extraction/index.js';
 import { getVariablesForFunction } from '../extraction/variable-tracker.js';
+import { planExtractionFix, type ExtractionFix } from '../extraction/autofix.js';
+import { formatBudgetNote, type BudgetMetric, type ComplexityBudget } from '../budget.js';
+
+export const DEFAULT_CYCLOMATIC = 20;
+export const DEFAULT_COGNITIVE = 15;
+export const DEFAULT_MIN_LINES = 10;
+
+export const DEFAULT_THRESHOLDS: ComplexityThresholds = {
+  cyclomatic: DEFAULT_CYCLOMATIC,
+  cognitive: DEFAULT_COGNITIVE,
+  minLines: DEFAULT_MIN_LINES,
+};
+
+export function isBelowMinLines(loc: ESTreeNode['loc'] | undefined, minLines: number): boolean {
+  if (minLines <= 0 || !loc) return false;
+  const functionLines = loc.end.line - loc.start.line + 1;
+  return functionLines < minLines;
+}
+
+/**
+ * Metrics the `complexity/complexity` rule would report for a function
+ * with the given thresholds.
+ */
+export function getExceededMetrics(
+  result: { cyclomatic: number; cognitive: number; loc?: ESTreeNode['loc'] },
+  thresholds: ComplexityThresholds
+): ComplexityMetric[] {
+  if (isBelowMinLines(result.loc, thresholds.minLines)) return [];
+  const metrics: ComplexityMetric[] = [];
+  if (result.cyclomatic > thresholds.cyclomatic) metrics.push('cyclomatic');
+  if (result.cognitive > thresholds.cognitive) metrics.push('cognitive');
+  return metrics;
+}
 
 export function normalizeCognitiveCategory(category: string): string {
   if (category.startsWith('logical operator')) return 'logical operators';
@@ -17,6 +61,11 @@ export function normalizeCognitiveCategory(category: string): string {
 
 /** JSON Schema properties shared by rules that support extraction analysis and breakdown tips. */
 export const EXTRACTION_SCHEMA_PROPERTIES = {
+  verbosity: {
+    type: 'string',
+    enum: [...VERBOSITY_LEVELS],
+    description: 'Report detail: minimal, summary, full or explain (default: full)',
+  },
   extractionMultiplier: {
     type: 'number',
     minimum: 1,
@@ -53,19 +102,23 @@ export const EXTRACTION_SCHEMA_PROPERTIES = {
 type ExtractionSchemaOptions = Omit<MaxCognitiveOptions, 'max'>;
 
 export interface ParsedExtractionOptions {
+  verbosity: Verbosity;
   enableExtraction: boolean;
   extractionOptions: ExtractionOptions;
   breakdownOptions: BreakdownOptions;
 }
 
 export function parseExtractionOptions(options: ExtractionSchemaOptions): ParsedExtractionOptions {
+  const verbosity = options.verbosity ?? 'full';
   return {
+    verbosity,
     enableExtraction: options.enableExtraction ?? true,
     extractionOptions: {
       minComplexityMultiplier: options.extractionMultiplier,
       minComplexityPercentage: options.minExtractionPercentage,
     },
     breakdownOptions: {
+      verbosity,
       nestingTipThreshold: options.nestingTipThreshold,
       elseIfChainThreshold: options.elseIfChainThreshold,
       logicalOperatorThreshold: options.logicalOperatorThreshold,
@@ -73,21 +126,68 @@ export function parseExtractionOptions(options: ExtractionSchemaOptions): Parsed
   };
 }
 
+function isExtractionAnalyzed(
+  parsed: ParsedExtractionOptions,
+  total: number,
+  maxComplexity: number
+): boolean {
+  return (
+    parsed.enableExtraction &&
+    shouldAnalyzeExtraction(total, maxComplexity, parsed.extractionOptions)
+  );
+}
+
+/**
+ * Analyze extraction opportunities for a function.
+ * Returns an empty array if extraction is disabled or complexity is below threshold.
+ */
+export function getExtractionSuggestions(
+  parsed: ParsedExtractionOptions,
+  context: Context,
+  node: ESTreeNode,
+  points: ComplexityPoint[],
+  total: number,
+  maxComplexity: number
+): ExtractionSuggestion[] {
+  if (!isExtractionAnalyzed(parsed, total, maxComplexity)) return [];
+
+  const variables = getVariablesForFunction(context, node);
+  return analyzeExtractionOpportunities(node, points, total, variables, parsed.extractionOptions);
+}
+
+export interface ExtractionReport {
+  suggestions: ExtractionSuggestion[];
+  /** Formatted suggestions to append to the message (empty if none) */
+  output: string;
+  /** Editor suggestions that perform high-confidence extractions */
+  suggest: Suggestion[];
+}
+
+function createExtractionSuggest(fix: ExtractionFix): Suggestion {
+  return {
+    desc: `Extract lines ${fix.startLine}-${fix.endLine} into function '${fix.functionName}'`,
+    fix: (fixer) => fix.edits.map((edit) => fixer.replaceTextRange(edit.range, edit.text)),
+  };
+}
+
 /**
- * Analyze extraction opportunities and return formatted output.
- * Returns an empty string if extraction is disabled or complexity is below threshold.
+ * Analyze extraction opportunities and return formatted output plus a
+ * `suggest` entry for each high-confidence extraction that can be applied.
+ * Returns empty output if extraction is disabled or complexity is below threshold.
  */
-export function getExtractionOutput(
+export function getExtractionReport(
   parsed: ParsedExtractionOptions,
   context: Context,
   node: ESTreeNode,
   points: ComplexityPoint[],
   total: number,
   maxComplexity: number
-): string {
-  if (!parsed.enableExtraction) return '';
-  if (!shouldAnalyzeExtraction(total, maxComplexity, parsed.extractionOptions)) return '';
+): ExtractionReport {
+  if (!isExtractionAnalyzed(parsed, total, maxComplexity)) {
+    return { suggestions: [], output: '', suggest: [] };
+  }
 
+  // Scope analysis is shared by the suggestions and the fixes planned from them
   const variables = getVariablesForFunction(context, node);
   const suggestions = analyzeExtractionOpportunities(
     node,
@@ -96,5 +196,61 @@ export function getExtractionOutput(
     variables,
     parsed.extractionOptions
   );
-  return formatExtractionSuggestions(suggestions);
+  const output = formatExtractionSuggestions(suggestions, parsed.verbosity);
+  if (!suggestions.some((s) => s.confidence === 'high')) {
+    return { suggestions, output, suggest: [] };
+  }
+
+  const suggest = suggestions
+    .map((suggestion) => planExtractionFix(context, node, suggestion, variables))
+    .filter((fix): fix is ExtractionFix => fix !== null)
+    .map(createExtractionSuggest);
+
+  return { suggestions, output, suggest };
+}
+
+/**
+ * Message template of a report on a function over a threshold, e.g.
+ * `thresholdMessage('NPath complexity')`. Filled in by `createThresholdData`.
+ */
+export function thresholdMessage(label: string): string {
+  return `Function '{{name}}' has ${label} of {{score}}. Maximum allowed is {{max}}{{budgetNote}}.{{details}}`;
+}
+
+export interface ThresholdReport {
+  name: string;
+  metric: BudgetMetric;
+  score: number;
+  max: number;
+  budget: ComplexityBudget | null;
+  /** Text after "Maximum allowed is N.", e.g. the breakdown */
+  details: string;
+  /** Metric-specific fields, e.g. the breakdown points */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * `data` of a threshold report: the text fragments of the message plus
+ * machine-readable fields for tools that post-process lint output. Report
+ * data only holds primitives, so objects and arrays are JSON-encoded.
+ */
+export function createThresholdData(report: ThresholdReport): DiagnosticData {
+  const { name, metric, score, max, budget, details, extra = {} } = report;
+  const hasBudget = budget?.thresholds[metric] !== undefined;
+  const data: DiagnosticData = {
+    name,
+    metric,
+    score,
+    max,
+    budgetReason: hasBudget ? budget.reason : null,
+    budgetNote: formatBudgetNote(budget, metric),
+    details,
+  };
+  for (const [key, value] of Object.entries(extra)) {
+    data[key] =
+      typeof value === 'object' && value !== null
+        ? JSON.stringify(value)
+        : (value as DiagnosticData[string]);
+  }
+  return data;
 }
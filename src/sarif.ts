@@ -0,0 +1,288 @@
+import { createRequire } from 'module';
+import type { ComplexityMetric, ComplexityPoint, ComplexityThresholds } from './types.js';
+import { formatPointMessage, getUnitKeys } from './utils.js';
+import type { ExtractionSuggestion } from './extraction/index.js';
+import { getConfidenceLabel } from './extraction/suggestion-generator.js';
+import { DEFAULT_THRESHOLDS, getExceededMetrics } from './rules/shared.js';
+import type { FunctionAnalysis, SourceAnalysis } from './standalone/index.js';
+
+/*
+ * Minimal SARIF 2.1.0 object model: only the properties this formatter emits.
+ * https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifRegion {
+  startLine: number;
+  /** 1-based */
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: { uri: string; uriBaseId?: string };
+  region: SarifRegion;
+}
+
+export interface SarifLocation {
+  id?: number;
+  physicalLocation: SarifPhysicalLocation;
+  logicalLocations?: { name: string; kind: string }[];
+  message?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  properties: {
+    metric: ComplexityMetric;
+    score: number;
+    threshold: number;
+    extractionSuggestions?: ExtractionSuggestion[];
+  };
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  helpUri: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[] };
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri: string;
+      rules: SarifReportingDescriptor[];
+    };
+  };
+  originalUriBaseIds?: Record<string, { uri: string }>;
+  results: SarifResult[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifOptions extends Partial<ComplexityThresholds> {
+  /** Result level (default: `warning`) */
+  level?: SarifLevel;
+  /**
+   * Absolute `file://` URI that result paths are relative to, emitted as the
+   * `%SRCROOT%` base (default: omitted, paths stay relative)
+   */
+  srcRoot?: string;
+}
+
+/** Stable SARIF rule IDs, one per metric */
+export const SARIF_RULE_IDS: Record<ComplexityMetric, string> = {
+  cyclomatic: 'complexity/cyclomatic',
+  cognitive: 'complexity/cognitive',
+};
+
+const METRICS: readonly ComplexityMetric[] = ['cyclomatic', 'cognitive'];
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/itaymendel/oxlint-plugin-complexity';
+
+const RULE_DESCRIPTIONS: Record<ComplexityMetric, { name: string; short: string; full: string }> = {
+  cyclomatic: {
+    name: 'CyclomaticComplexity',
+    short: 'Function has too many independent paths',
+    full: 'Cyclomatic complexity counts the decision points of a function. High values mean many paths to test.',
+  },
+  cognitive: {
+    name: 'CognitiveComplexity',
+    short: 'Function is too hard to understand',
+    full: 'Cognitive complexity weighs control flow by nesting depth. High values mean the function is hard to read and change.',
+  },
+};
+
+function getToolVersion(): string {
+  const require = createRequire(import.meta.url);
+  return (require('../package.json') as { version: string }).version;
+}
+
+function createRules(level: SarifLevel): SarifReportingDescriptor[] {
+  return METRICS.map((metric) => ({
+    id: SARIF_RULE_IDS[metric],
+    name: RULE_DESCRIPTIONS[metric].name,
+    shortDescription: { text: RULE_DESCRIPTIONS[metric].short },
+    fullDescription: { text: RULE_DESCRIPTIONS[metric].full },
+    helpUri: `${INFORMATION_URI}#complexitycomplexity`,
+    defaultConfiguration: { level },
+    properties: { tags: ['maintainability', 'complexity'] },
+  }));
+}
+
+function artifactLocation(file: string, srcRoot: string | undefined) {
+  return srcRoot ? { uri: file, uriBaseId: '%SRCROOT%' } : { uri: file };
+}
+
+function pointLocation(
+  file: string,
+  srcRoot: string | undefined,
+  point: ComplexityPoint,
+  id: number
+): SarifLocation {
+  return {
+    id,
+    physicalLocation: {
+      artifactLocation: artifactLocation(file, srcRoot),
+      region: {
+        startLine: point.location.start.line,
+        startColumn: point.location.start.column + 1,
+      },
+    },
+    message: { text: formatPointMessage(point) },
+  };
+}
+
+/**
+ * Extraction suggestions become related locations spanning the suggested
+ * block. SARIF `fixes` require concrete replacement text, so the structured
+ * suggestion is also attached under `properties.extractionSuggestions`.
+ */
+function extractionLocation(
+  file: string,
+  srcRoot: string | undefined,
+  suggestion: ExtractionSuggestion,
+  id: number
+): SarifLocation {
+  const signature = suggestion.suggestedSignature ? ` as ${suggestion.suggestedSignature}` : '';
+  return {
+    id,
+    physicalLocation: {
+      artifactLocation: artifactLocation(file, srcRoot),
+      region: { startLine: suggestion.range.start, endLine: suggestion.range.end },
+    },
+    message: {
+      text: `Extract lines ${suggestion.range.start}-${suggestion.range.end}${signature} (+${suggestion.complexity}, ${suggestion.complexityPercentage}% of total): ${getConfidenceLabel(suggestion.confidence)}`,
+    },
+  };
+}
+
+function createResult(
+  file: string,
+  fn: FunctionAnalysis,
+  unitKey: string,
+  metric: ComplexityMetric,
+  threshold: number,
+  level: SarifLevel,
+  srcRoot: string | undefined
+): SarifResult {
+  const points = metric === 'cyclomatic' ? fn.cyclomaticPoints : fn.cognitivePoints;
+  const suggestions = metric === 'cognitive' ? fn.extractionSuggestions : [];
+  const label = metric === 'cyclomatic' ? 'cyclomatic complexity' : 'Cognitive Complexity';
+
+  const relatedLocations = [
+    ...points.map((point, index) => pointLocation(file, srcRoot, point, index)),
+    ...suggestions.map((suggestion, index) =>
+      extractionLocation(file, srcRoot, suggestion, points.length + index)
+    ),
+  ];
+
+  return {
+    ruleId: SARIF_RULE_IDS[metric],
+    ruleIndex: METRICS.indexOf(metric),
+    level,
+    message: {
+      text: `Function '${fn.name}' has ${label} of ${fn[metric]}. Maximum allowed is ${threshold}.`,
+    },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: artifactLocation(file, srcRoot),
+          region: {
+            startLine: fn.loc.start.line,
+            startColumn: fn.loc.start.column + 1,
+            endLine: fn.loc.end.line,
+            endColumn: fn.loc.end.column + 1,
+          },
+        },
+        logicalLocations: [{ name: fn.name, kind: 'function' }],
+      },
+    ],
+    relatedLocations,
+    // Line-free, so code scanning keeps tracking the alert when code above it moves
+    partialFingerprints: { 'complexityFunction/v1': `${file}:${unitKey}:${metric}` },
+    properties: {
+      metric,
+      score: fn[metric],
+      threshold,
+      ...(suggestions.length > 0 && { extractionSuggestions: suggestions }),
+    },
+  };
+}
+
+/**
+ * Convert analysis results into a SARIF 2.1.0 log with one run.
+ *
+ * Each function over a threshold yields a result with rule ID
+ * `complexity/cyclomatic` or `complexity/cognitive`; its breakdown points are
+ * related locations. Thresholds default to the `complexity/complexity` rule
+ * defaults, including `minLines`.
+ */
+export function createSarifLog(
+  files: readonly SourceAnalysis[],
+  options: SarifOptions = {}
+): SarifLog {
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...options };
+  const level = options.level ?? 'warning';
+  const results: SarifResult[] = [];
+
+  for (const file of files) {
+    const keys = getUnitKeys(file.functions.map((fn) => fn.name));
+    file.functions.forEach((fn, i) => {
+      for (const metric of getExceededMetrics(fn, thresholds)) {
+        results.push(
+          createResult(
+            file.filename,
+            fn,
+            keys[i],
+            metric,
+            thresholds[metric],
+            level,
+            options.srcRoot
+          )
+        );
+      }
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'oxlint-plugin-complexity',
+            version: getToolVersion(),
+            informationUri: INFORMATION_URI,
+            rules: createRules(level),
+          },
+        },
+        ...(options.srcRoot && { originalUriBaseIds: { '%SRCROOT%': { uri: options.srcRoot } } }),
+        results,
+      },
+    ],
+  };
+}
+
+export function formatSarif(files: readonly SourceAnalysis[], options?: SarifOptions): string {
+  return JSON.stringify(createSarifLog(files, options), null, 2) + '\n';
+}
@@ -0,0 +1,131 @@
+import type { ComplexityPoint, ESTreeNode, MaxCognitiveOptions } from '../types.js';
+import { getUnitName } from '../utils.js';
+import {
+  createCombinedComplexityVisitor,
+  type CombinedComplexityResult,
+} from '../combined-visitor.js';
+import type { ExtractionSuggestion } from '../extraction/index.js';
+import {
+  DEFAULT_COGNITIVE,
+  getExtractionSuggestions,
+  parseExtractionOptions,
+} from '../rules/shared.js';
+import { resolveProfile, type ScoringOptions } from '../profile.js';
+import { parseSource, walkAst, type ParsedSource } from './parser.js';
+import { createStandaloneContext } from './context.js';
+import { extractComponentScript, isSfcFilename } from './sfc.js';
+import { analyzeVueTemplate } from './vue-template.js';
+import { analyzeSvelteMarkup } from './svelte-markup.js';
+
+export interface AnalyzeSourceOptions
+  extends
+    Pick<
+      MaxCognitiveOptions,
+      'enableExtraction' | 'extractionMultiplier' | 'minExtractionPercentage'
+    >,
+    ScoringOptions {
+  /** Cognitive threshold that extraction analysis is measured against (default: 15) */
+  cognitive?: number;
+}
+
+export interface FunctionAnalysis extends CombinedComplexityResult {
+  name: string;
+  loc: ComplexityPoint['location'];
+  /** Empty unless cognitive complexity exceeds `cognitive × extractionMultiplier` */
+  extractionSuggestions: ExtractionSuggestion[];
+  /**
+   * Scores at the diff base, or `null` if the function is new. Only set by
+   * `analyzeProject` with `diffBase` and `compareBase`.
+   */
+  before?: Pick<CombinedComplexityResult, 'cyclomatic' | 'cognitive'> | null;
+}
+
+export interface SourceAnalysis {
+  filename: string;
+  functions: FunctionAnalysis[];
+}
+
+function parseAnySource(code: string, filename: string): ParsedSource {
+  if (!isSfcFilename(filename)) return parseSource(code, filename);
+
+  const script = extractComponentScript(code, filename);
+  return parseSource(script.code, filename, script.lang);
+}
+
+/**
+ * Markup of a Vue (`<template>`) or Svelte (`<markup>`) component, analyzed
+ * as one unit.
+ */
+function analyzeComponentMarkup(code: string, filename: string): FunctionAnalysis | null {
+  if (filename.endsWith('.vue')) {
+    const template = analyzeVueTemplate(code);
+    return (
+      template && {
+        ...template.result,
+        name: '<template>',
+        loc: template.loc,
+        extractionSuggestions: [],
+      }
+    );
+  }
+  if (filename.endsWith('.svelte')) {
+    const markup = analyzeSvelteMarkup(code);
+    return (
+      markup && { ...markup.result, name: '<markup>', loc: markup.loc, extractionSuggestions: [] }
+    );
+  }
+  return null;
+}
+
+/**
+ * Compute cyclomatic and cognitive complexity for every function in a source
+ * file, without running oxlint.
+ *
+ * Parses JS/TS/JSX with oxc-parser (language inferred from `filename`; for
+ * `.vue`, `.svelte` and `.astro` files the script is analyzed, plus a Vue
+ * `<template>` or Svelte `<markup>` unit), builds parent/loc and scope information, and runs the
+ * same combined visitor as the `complexity/complexity` rule. Functions are
+ * returned in the order they finish (inner functions before their enclosing
+ * function), followed by the template.
+ *
+ * @throws Error if the source has parse errors
+ */
+export function analyzeSource(
+  code: string,
+  filename: string,
+  options: AnalyzeSourceOptions = {}
+): SourceAnalysis {
+  const parsed = parseAnySource(code, filename);
+  const context = createStandaloneContext(parsed);
+  const maxCognitive = options.cognitive ?? DEFAULT_COGNITIVE;
+  const extraction = parseExtractionOptions(options);
+  const profile = resolveProfile(options);
+  const functions: FunctionAnalysis[] = [];
+
+  const visitor = createCombinedComplexityVisitor(
+    context,
+    (result, node: ESTreeNode) => {
+      functions.push({
+        ...result,
+        name: getUnitName(node),
+        loc: node.loc,
+        extractionSuggestions: getExtractionSuggestions(
+          extraction,
+          context,
+          node,
+          result.cognitivePoints,
+          result.cognitive,
+          maxCognitive
+        ),
+      });
+    },
+    () => profile
+  );
+
+  walkAst(parsed.program, visitor);
+
+  const markup = analyzeComponentMarkup(code, filename);
+  if (markup) functions.push(markup);
+
+  return { filename, functions };
+}
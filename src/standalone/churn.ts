@@ -0,0 +1,291 @@
+import { parseFilePath, readGitDiff, runGit } from './diff.js';
+
+/** A hunk header: `@@ -oldStart,oldCount +newStart,newCount @@` */
+export interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+/** A file changed by one commit */
+export interface ChangedFile {
+  /** Path after the commit, relative to the directory git ran in */
+  path: string;
+  /** Path before the commit (`null` if the commit added the file) */
+  oldPath: string | null;
+  /** Ascending, as git prints them */
+  hunks: Hunk[];
+}
+
+export interface Commit {
+  hash: string;
+  files: ChangedFile[];
+}
+
+/** Change frequency of a file, from `git log --numstat` */
+export interface FileChurn {
+  /** Current path; changes made under earlier names are included */
+  path: string;
+  /** Commits that changed the file */
+  commits: number;
+  /** Lines added and deleted over those commits */
+  added: number;
+  deleted: number;
+}
+
+export interface ChangeHistory {
+  /** Start of the window, as given to `git log --since` */
+  since: string;
+  /** Newest first */
+  commits: Commit[];
+  /** Uncommitted changes (`git diff HEAD`), used to line up the working tree with `HEAD` */
+  uncommitted: ChangedFile[];
+  churn: FileChurn[];
+}
+
+export interface ChangeHistoryOptions {
+  /** Directory git runs in; paths are relative to it (default: `process.cwd()`) */
+  root?: string;
+  /** Any date `git log --since` accepts (default: `12 months ago`) */
+  since?: string;
+}
+
+export const DEFAULT_SINCE = '12 months ago';
+
+const COMMIT_MARKER = '\0';
+const NUMSTAT_PATTERN = /^(\d+|-)\t(\d+|-)\t(.+)$/;
+const HUNK_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * `src/{old => new}/a.ts` or `old.ts => new.ts` from a renamed `--numstat`
+ * entry, as `[oldPath, newPath]`.
+ */
+export function parseRenamedPath(path: string): [string, string] {
+  const braced = /^(.*)\{(.*) => (.*)\}(.*)$/.exec(path);
+  if (braced) {
+    const [, prefix, before, after, suffix] = braced;
+    const join = (middle: string) => `${prefix}${middle}${suffix}`.replace('//', '/');
+    return [join(before), join(after)];
+  }
+  const [before, after] = path.split(' => ');
+  return after === undefined ? [path, path] : [before, after];
+}
+
+/**
+ * Parse `git log --numstat --format=%x00%H` output (newest first) into the
+ * churn of each file, following renames so older changes count towards the
+ * current path.
+ */
+export function parseNumstatLog(log: string): FileChurn[] {
+  const churn = new Map<string, FileChurn>();
+  /** Earlier name → current name */
+  const renamed = new Map<string, string>();
+  let counted = new Set<string>();
+
+  for (const line of log.split('\n')) {
+    if (line.startsWith(COMMIT_MARKER)) {
+      counted = new Set();
+      continue;
+    }
+    const match = NUMSTAT_PATTERN.exec(line);
+    if (!match) continue;
+
+    const [oldPath, newPath] = parseRenamedPath(match[3]);
+    const path = renamed.get(newPath) ?? newPath;
+    if (oldPath !== newPath) renamed.set(oldPath, path);
+
+    const entry = churn.get(path) ?? { path, commits: 0, added: 0, deleted: 0 };
+    // Binary files report `-`
+    entry.added += Number(match[1]) || 0;
+    entry.deleted += Number(match[2]) || 0;
+    if (!counted.has(path)) entry.commits++;
+    counted.add(path);
+    churn.set(path, entry);
+  }
+  return [...churn.values()];
+}
+
+function readHunk(header: RegExpExecArray): Hunk {
+  return {
+    oldStart: Number(header[1]),
+    oldCount: Number(header[2] ?? 1),
+    newStart: Number(header[3]),
+    newCount: Number(header[4] ?? 1),
+  };
+}
+
+/**
+ * Index of the first line after a hunk's body. With `--unified=0` the body is
+ * just the removed and added lines, which may themselves look like headers.
+ */
+function skipHunk(lines: readonly string[], start: number, hunk: Hunk): number {
+  let remaining = hunk.oldCount + hunk.newCount;
+  let i = start;
+  for (; i < lines.length && remaining > 0; i++) {
+    // `\ No newline at end of file`
+    if (!lines[i].startsWith('\\')) remaining--;
+  }
+  return i;
+}
+
+/** Apply a `diff --git` extended header line (`rename from`, `+++ b/...`) to the current file */
+function readFileHeader(line: string, file: ChangedFile): void {
+  if (line.startsWith('rename from ')) file.oldPath = line.slice('rename from '.length);
+  else if (line.startsWith('rename to ')) file.path = line.slice('rename to '.length);
+  else if (line.startsWith('--- ')) file.oldPath = parseFilePath(line);
+  // Deleted files keep an empty path and are dropped
+  else if (line.startsWith('+++ ')) file.path = parseFilePath(line) ?? '';
+}
+
+/**
+ * Parse `git log -p --unified=0 --format=%x00%H` output into commits and the
+ * hunks they changed. Output without commit markers (`git diff`) becomes one
+ * commit with an empty hash.
+ */
+export function parsePatchLog(log: string): Commit[] {
+  const commits: Commit[] = [];
+  const lines = log.split('\n');
+
+  for (let i = 0; i < lines.length; ) {
+    const line = lines[i++];
+    if (line.startsWith(COMMIT_MARKER)) {
+      commits.push({ hash: line.slice(1).trim(), files: [] });
+      continue;
+    }
+    if (line.startsWith('diff --git ')) {
+      if (commits.length === 0) commits.push({ hash: '', files: [] });
+      commits.at(-1)?.files.push({ path: '', oldPath: null, hunks: [] });
+      continue;
+    }
+
+    const file = commits.at(-1)?.files.at(-1);
+    const header = HUNK_PATTERN.exec(line);
+    if (file && header) {
+      const hunk = readHunk(header);
+      file.hunks.push(hunk);
+      i = skipHunk(lines, i, hunk);
+    } else if (file) {
+      readFileHeader(line, file);
+    }
+  }
+
+  return commits.map((commit) => ({
+    ...commit,
+    files: commit.files.filter((file) => file.path !== ''),
+  }));
+}
+
+function runGitLog(args: readonly string[], paths: readonly string[], root: string): string {
+  try {
+    return runGit(
+      [
+        '-c',
+        'core.quotePath=false',
+        'log',
+        '--no-merges',
+        '--relative',
+        '-M',
+        ...args,
+        '--',
+        ...paths,
+      ],
+      root
+    );
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git log failed${stderr ? `: ${stderr}` : ''}`, { cause: error });
+  }
+}
+
+/**
+ * Read the commits under `paths` since a date: `git log --numstat` for the
+ * churn per file and `git log -p --unified=0` for the lines each commit changed.
+ *
+ * @throws Error if git fails, e.g. outside a repository or for an invalid date
+ */
+export function readChangeHistory(
+  paths: readonly string[],
+  options: ChangeHistoryOptions = {}
+): ChangeHistory {
+  const root = options.root ?? process.cwd();
+  const since = options.since ?? DEFAULT_SINCE;
+  const window = [`--since=${since}`, '--format=%x00%H'];
+
+  const churn = parseNumstatLog(runGitLog([...window, '--numstat'], paths, root));
+  const commits = parsePatchLog(
+    runGitLog([...window, '-p', '--unified=0', '--no-color', '--no-ext-diff'], paths, root)
+  );
+  const uncommitted = parsePatchLog(readGitDiff('HEAD', root)).flatMap((commit) => commit.files);
+  return { since, commits, uncommitted, churn };
+}
+
+/** A function's lines, inclusive */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+function touches(range: LineRange, hunk: Hunk): boolean {
+  if (hunk.newCount === 0) {
+    // Lines removed right after `newStart`: inside the range unless at its edges
+    return hunk.newStart >= range.start && hunk.newStart < range.end;
+  }
+  return hunk.newStart <= range.end && hunk.newStart + hunk.newCount - 1 >= range.start;
+}
+
+/** Where a line of the new file was before the change; lines inside a hunk map to its old edges */
+function toOldLine(line: number, hunks: readonly Hunk[], edge: keyof LineRange): number {
+  let shift = 0;
+  for (const hunk of hunks) {
+    const newEnd = hunk.newStart + hunk.newCount - 1;
+    if (hunk.newCount === 0 ? hunk.newStart < line : newEnd < line) {
+      shift += hunk.oldCount - hunk.newCount;
+    } else if (hunk.newCount > 0 && hunk.newStart <= line) {
+      return edge === 'start'
+        ? hunk.oldStart + (hunk.oldCount === 0 ? 1 : 0)
+        : hunk.oldStart + Math.max(hunk.oldCount - 1, 0);
+    } else {
+      break;
+    }
+  }
+  return line + shift;
+}
+
+/** The range before a change, or `null` if the change added all of it */
+function toOldRange(range: LineRange, hunks: readonly Hunk[]): LineRange | null {
+  const start = toOldLine(range.start, hunks, 'start');
+  const end = toOldLine(range.end, hunks, 'end');
+  return start <= end ? { start, end } : null;
+}
+
+/**
+ * Count the commits that changed each line range of a file, following the
+ * ranges back through the history as lines move and the file is renamed.
+ * A range stops being followed at the commit that added it.
+ */
+export function countRangeChanges(
+  path: string,
+  ranges: readonly LineRange[],
+  history: Pick<ChangeHistory, 'commits' | 'uncommitted'>
+): number[] {
+  const counts = ranges.map(() => 0);
+  const uncommitted = history.uncommitted.find((file) => file.path === path);
+  const current: (LineRange | null)[] = uncommitted
+    ? ranges.map((range) => toOldRange(range, uncommitted.hunks))
+    : [...ranges];
+  let tracked: string | null = path;
+
+  for (const commit of history.commits) {
+    const file = commit.files.find((candidate) => candidate.path === tracked);
+    if (!file) continue;
+
+    current.forEach((range, i) => {
+      if (range && file.hunks.some((hunk) => touches(range, hunk))) counts[i]++;
+      current[i] = range && toOldRange(range, file.hunks);
+    });
+    tracked = file.oldPath;
+    if (tracked === null) break;
+  }
+  return counts;
+}
@@ -0,0 +1,75 @@
+import type { Context, ESTreeNode } from '../types.js';
+import type { ParsedSource, SourceComment } from './parser.js';
+import { analyzeScope } from './scope-analyzer.js';
+
+type Ranged = { range?: [number, number]; start?: number; end?: number };
+
+function getRange(nodeOrToken: Ranged): [number, number] {
+  return nodeOrToken.range ?? [nodeOrToken.start ?? 0, nodeOrToken.end ?? 0];
+}
+
+/**
+ * Comments directly preceding a node, with only whitespace in between
+ * (same semantics as `sourceCode.getCommentsBefore`).
+ */
+function getCommentsBefore(
+  code: string,
+  comments: SourceComment[],
+  nodeOrToken: Ranged
+): SourceComment[] {
+  const result: SourceComment[] = [];
+  let boundary = getRange(nodeOrToken)[0];
+
+  for (let i = comments.length - 1; i >= 0; i--) {
+    const comment = comments[i];
+    if (comment.end > boundary) continue;
+    if (code.slice(comment.end, boundary).trim() !== '') break;
+    result.unshift(comment);
+    boundary = comment.start;
+  }
+
+  return result;
+}
+
+/**
+ * Create a minimal oxlint `Context` for a parsed source file.
+ *
+ * Provides the parts of `sourceCode` the complexity visitors and extraction
+ * analysis use (text, scopes, comments). `report` is a no-op.
+ */
+export function createStandaloneContext(parsed: ParsedSource): Context {
+  const { code, comments, program, filename } = parsed;
+  const scopeManager = analyzeScope(program);
+
+  return {
+    id: 'complexity/standalone',
+    filename,
+    physicalFilename: filename,
+    cwd: process.cwd(),
+    options: [],
+    report: () => {},
+    sourceCode: {
+      text: code,
+      lines: code.split(/\r?\n/),
+      ast: program,
+      scopeManager,
+      getText(nodeOrToken?: Ranged): string {
+        if (!nodeOrToken) return code;
+        const [start, end] = getRange(nodeOrToken);
+        return code.slice(start, end);
+      },
+      getScope(node: ESTreeNode) {
+        // Innermost scope containing the node
+        let current: ESTreeNode | null | undefined = node;
+        while (current) {
+          const scope = scopeManager.acquire(current);
+          if (scope) return scope;
+          current = current.parent;
+        }
+        return scopeManager.globalScope;
+      },
+      getAllComments: () => comments,
+      getCommentsBefore: (nodeOrToken: Ranged) => getCommentsBefore(code, comments, nodeOrToken),
+    },
+  } as unknown as Context;
+}
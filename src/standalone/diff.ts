@@ -0,0 +1,218 @@
+import { execFileSync } from 'child_process';
+import type { ComplexityPoint } from '../types.js';
+import { matchUnits } from '../unit-matching.js';
+import type { FunctionAnalysis, SourceAnalysis } from './analyze.js';
+
+/** A file in a unified diff and the lines the change touches */
+export interface DiffFile {
+  /** Path after the change, relative to where the diff was taken */
+  path: string;
+  /** Path before the change (`null` for added files) */
+  oldPath: string | null;
+  /**
+   * Lines of the new file that were added, or that follow removed lines
+   * (ascending). Blank lines are left out.
+   */
+  changedLines: number[];
+}
+
+export interface DiffOptions {
+  /** Unified diff to limit the analysis to; paths are relative to `root` */
+  diff?: string;
+  /** Git revision to diff the working tree against (`git diff <diffBase>`) when `diff` is not given */
+  diffBase?: string;
+  /** With `diffBase`: also analyze the base revision and set `before` on each changed function */
+  compareBase?: boolean;
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** `--- a/src/x.ts` or `+++ b/src/x.ts\t2026-01-01`: the path, or `null` for `/dev/null` */
+export function parseFilePath(line: string): string | null {
+  let path = line.slice(4).split('\t')[0].trimEnd();
+  if (path.startsWith('"') && path.endsWith('"')) path = path.slice(1, -1);
+  if (path === '/dev/null') return null;
+  return /^[ab]\//.test(path) ? path.slice(2) : path;
+}
+
+/** Position in a hunk: lines left on each side and the current new-file line */
+interface HunkCursor {
+  oldRemaining: number;
+  newRemaining: number;
+  newLine: number;
+}
+
+function readHunkLine(line: string, cursor: HunkCursor, changed: Set<number>): void {
+  const marker = line[0];
+  // Blank lines between functions would otherwise mark `<module>` as changed
+  if ((marker === '+' || marker === '-') && line.slice(1).trim() !== '') {
+    changed.add(cursor.newLine);
+  }
+  if (marker !== '+') cursor.oldRemaining--;
+  if (marker !== '-') {
+    cursor.newRemaining--;
+    cursor.newLine++;
+  }
+}
+
+/**
+ * Collect the new-file lines a hunk changes, starting at `lines[start]`.
+ * Returns the index of the first line after the hunk.
+ */
+function parseHunk(
+  lines: readonly string[],
+  start: number,
+  header: RegExpExecArray,
+  changed: Set<number>
+): number {
+  const newRemaining = Number(header[3] ?? 1);
+  const cursor: HunkCursor = {
+    oldRemaining: Number(header[1] ?? 1),
+    newRemaining,
+    // A hunk that only removes lines starts at the line before the removal
+    newLine: Number(header[2]) + (newRemaining === 0 ? 1 : 0),
+  };
+
+  let i = start;
+  for (; i < lines.length && (cursor.oldRemaining > 0 || cursor.newRemaining > 0); i++) {
+    // `\ No newline at end of file`
+    if (!lines[i].startsWith('\\')) readHunkLine(lines[i], cursor, changed);
+  }
+  return i;
+}
+
+/**
+ * Parse a unified diff (`git diff`, `diff -u`) into the files it changes.
+ * Deleted files are skipped, since they have no functions left to report.
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: { path: string; oldPath: string | null; changed: Set<number> }[] = [];
+  const lines = diff.split(/\r?\n/);
+  let oldPath: string | null = null;
+
+  for (let i = 0; i < lines.length; ) {
+    const line = lines[i++];
+    const header = HUNK_HEADER_PATTERN.exec(line);
+    const current = files.at(-1);
+    if (header && current) {
+      i = parseHunk(lines, i, header, current.changed);
+    } else if (line.startsWith('--- ')) {
+      oldPath = parseFilePath(line);
+    } else if (line.startsWith('+++ ')) {
+      const path = parseFilePath(line);
+      // Deleted files have nothing left to report; their hunks are skipped
+      files.push({ path: path ?? '', oldPath, changed: new Set() });
+    }
+  }
+
+  return files
+    .filter((file) => file.path !== '')
+    .map(({ changed, ...file }) => ({
+      ...file,
+      changedLines: [...changed].toSorted((a, b) => a - b),
+    }));
+}
+
+export function runGit(args: readonly string[], cwd: string): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    maxBuffer: 64 * 1024 * 1024,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+}
+
+/**
+ * `git diff <base>` of the working tree, with paths relative to `cwd`.
+ *
+ * @throws Error if git fails, e.g. outside a repository or for an unknown revision
+ */
+export function readGitDiff(base: string, cwd: string): string {
+  try {
+    return runGit(
+      ['diff', '--relative', '--no-color', '--no-ext-diff', '--unified=0', base, '--'],
+      cwd
+    );
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git diff ${base} failed${stderr ? `: ${stderr}` : ''}`, { cause: error });
+  }
+}
+
+/** Content of a file (relative to `cwd`) at a git revision, or `null` if it did not exist. */
+export function readGitFile(revision: string, path: string, cwd: string): string | null {
+  try {
+    return runGit(['show', `${revision}:./${path}`], cwd);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files under `paths` at a git revision, relative to `cwd` like the paths.
+ *
+ * @throws Error if git fails, e.g. for an unknown revision
+ */
+export function listGitFiles(revision: string, paths: readonly string[], cwd: string): string[] {
+  try {
+    const output = runGit(['ls-tree', '-r', '-z', '--name-only', revision, '--', ...paths], cwd);
+    return output.split('\0').filter(Boolean);
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ls-tree ${revision} failed${stderr ? `: ${stderr}` : ''}`, {
+      cause: error,
+    });
+  }
+}
+
+/** Read the diff selected by the options, keyed by path. `undefined` if there is none. */
+export function loadDiff(options: DiffOptions, root: string): Map<string, DiffFile> | undefined {
+  const diff =
+    options.diff ??
+    (options.diffBase === undefined ? undefined : readGitDiff(options.diffBase, root));
+  if (diff === undefined) return undefined;
+  return new Map(parseUnifiedDiff(diff).map((file) => [file.path, file]));
+}
+
+type Location = ComplexityPoint['location'];
+
+function span(loc: Location): number {
+  return loc.end.line - loc.start.line;
+}
+
+/** Innermost function containing a line */
+function findOwner(functions: readonly FunctionAnalysis[], line: number): FunctionAnalysis | null {
+  let owner: FunctionAnalysis | null = null;
+  for (const fn of functions) {
+    const contains = line >= fn.loc.start.line && line <= fn.loc.end.line;
+    if (contains && (!owner || span(fn.loc) < span(owner.loc))) owner = fn;
+  }
+  return owner;
+}
+
+/**
+ * Keep the functions that own a changed line: the innermost function
+ * containing it, so editing a callback does not mark the function around it
+ * (or `<module>`) as changed. With the analysis of the file before the
+ * change, each one gets the `before` scores of the function it matches
+ * (see `matchUnits`; `null` if it is new), so moved callbacks keep theirs.
+ */
+export function selectChangedFunctions(
+  functions: readonly FunctionAnalysis[],
+  file: DiffFile,
+  base?: SourceAnalysis | null
+): FunctionAnalysis[] {
+  const owners = new Set(file.changedLines.map((line) => findOwner(functions, line)));
+  const changed = functions.filter((fn) => owners.has(fn));
+  if (base === undefined) return changed;
+
+  const previous = new Map<FunctionAnalysis, FunctionAnalysis | null>();
+  for (const [old, current] of matchUnits(base?.functions ?? [], functions, (fn) => fn)) {
+    if (current) previous.set(current, old);
+  }
+  return changed.map((fn) => {
+    const old = previous.get(fn);
+    const before = old ? { cyclomatic: old.cyclomatic, cognitive: old.cognitive } : null;
+    return { ...fn, before };
+  });
+}
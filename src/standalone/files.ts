@@ -0,0 +1,149 @@
+import { readdirSync, statSync, type Dirent } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+
+export const SOURCE_EXTENSIONS = [
+  '.js',
+  '.mjs',
+  '.cjs',
+  '.jsx',
+  '.ts',
+  '.mts',
+  '.cts',
+  '.tsx',
+  '.vue',
+  '.svelte',
+  '.astro',
+] as const;
+
+export const DEFAULT_IGNORE_PATTERNS = ['node_modules', '.git', 'dist', 'coverage'] as const;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a glob to a regular expression.
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braceDepth = 0;
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      pattern += '(?:.*/)?';
+      i += 3;
+      continue;
+    }
+    if (glob.startsWith('**', i)) {
+      pattern += '.*';
+      i += 2;
+      continue;
+    }
+
+    if (char === '{') braceDepth++;
+    if (char === '}') braceDepth--;
+    pattern += char === ',' && braceDepth === 0 ? ',' : (GLOB_TOKENS[char] ?? escapeRegExp(char));
+    i++;
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+const GLOB_TOKENS: Record<string, string> = {
+  '*': '[^/]*',
+  '?': '[^/]',
+  '{': '(?:',
+  '}': ')',
+  ',': '|',
+};
+
+/**
+ * Create a matcher for ignore globs, tested against paths relative to the root
+ * (with `/` separators). Patterns without a `/` match any single path segment,
+ * like `.gitignore` entries.
+ */
+export function createIgnoreMatcher(patterns: readonly string[]): (path: string) => boolean {
+  const segmentPatterns = patterns.filter((p) => !p.includes('/')).map(globToRegExp);
+  const pathPatterns = patterns
+    .filter((p) => p.includes('/'))
+    .map((p) => globToRegExp(p.replace(/^\.?\//, '').replace(/\/$/, '/**')));
+
+  return (path) =>
+    pathPatterns.some((re) => re.test(path)) ||
+    path.split('/').some((segment) => segmentPatterns.some((re) => re.test(segment)));
+}
+
+export function isSourceFile(path: string): boolean {
+  return !path.endsWith('.d.ts') && SOURCE_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+export interface CollectFilesOptions {
+  /** Directory that ignore patterns and returned paths are relative to (default: cwd) */
+  root?: string;
+  /** Ignore globs (default: node_modules, .git, dist, coverage) */
+  ignore?: readonly string[];
+}
+
+/**
+ * Whether a symlink found while walking points to a file. Symlinked
+ * directories are not followed, so links back up the tree cannot loop, and
+ * dangling links are skipped.
+ */
+function isLinkedFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recursively collect JS/TS/framework source files under the given paths.
+ * Returns absolute paths in sorted order.
+ *
+ * @throws Error if one of the given paths does not exist
+ */
+export function collectSourceFiles(
+  paths: readonly string[],
+  options: CollectFilesOptions = {}
+): string[] {
+  const root = options.root ?? process.cwd();
+  const isIgnored = createIgnoreMatcher(options.ignore ?? DEFAULT_IGNORE_PATTERNS);
+  const files = new Set<string>();
+
+  function isIncluded(absolutePath: string): boolean {
+    const relativePath = relative(root, absolutePath).split(sep).join('/');
+    return !relativePath || relativePath.startsWith('..') || !isIgnored(relativePath);
+  }
+
+  function visitDirectory(directory: string): void {
+    for (const entry of readdirSync(directory, { withFileTypes: true })) {
+      visitEntry(join(directory, entry.name), entry);
+    }
+  }
+
+  function visitEntry(absolutePath: string, entry: Dirent): void {
+    if (!isIncluded(absolutePath)) return;
+    if (entry.isDirectory()) {
+      visitDirectory(absolutePath);
+    } else if (
+      isSourceFile(absolutePath) &&
+      (entry.isFile() || (entry.isSymbolicLink() && isLinkedFile(absolutePath)))
+    ) {
+      files.add(absolutePath);
+    }
+  }
+
+  // Paths given explicitly are followed even when they are symlinks
+  for (const path of paths) {
+    const absolutePath = resolve(root, path);
+    if (!isIncluded(absolutePath)) continue;
+    if (statSync(absolutePath).isDirectory()) visitDirectory(absolutePath);
+    else if (isSourceFile(absolutePath)) files.add(absolutePath);
+  }
+
+  return [...files].toSorted();
+}
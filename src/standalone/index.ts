@@ -0,0 +1,106 @@
+/*
+ * `oxlint-plugin-complexity/standalone`: analysis without oxlint and the
+ * reports built on it. Kept out of the plugin entry, which oxlint loads for
+ * every linted file, because it needs oxc-parser and runs git.
+ */
+
+export { analyzeSource } from './analyze.js';
+export type { AnalyzeSourceOptions, FunctionAnalysis, SourceAnalysis } from './analyze.js';
+export { analyzeProject, analyzeRevision, toProjectPath } from './project.js';
+export type { ProjectAnalysis, ProjectAnalysisOptions, FileAnalysisError } from './project.js';
+export { parseUnifiedDiff, readGitDiff, selectChangedFunctions } from './diff.js';
+export type { DiffFile, DiffOptions } from './diff.js';
+export {
+  countRangeChanges,
+  parseNumstatLog,
+  parsePatchLog,
+  readChangeHistory,
+  DEFAULT_SINCE,
+} from './churn.js';
+export type {
+  ChangedFile,
+  ChangeHistory,
+  ChangeHistoryOptions,
+  Commit,
+  FileChurn,
+  Hunk,
+  LineRange,
+} from './churn.js';
+export {
+  collectSourceFiles,
+  createIgnoreMatcher,
+  globToRegExp,
+  DEFAULT_IGNORE_PATTERNS,
+  SOURCE_EXTENSIONS,
+} from './files.js';
+export type { CollectFilesOptions } from './files.js';
+export { parseSource, walkAst } from './parser.js';
+export type { ParsedSource, SourceComment } from './parser.js';
+export { createStandaloneContext } from './context.js';
+export { analyzeScope } from './scope-analyzer.js';
+export { extractComponentScript, isSfcFilename } from './sfc.js';
+
+// Re-export baseline helpers
+export {
+  loadBaseline,
+  generateBaseline,
+  pruneBaseline,
+  serializeBaseline,
+  readBaselineEntries,
+} from '../baseline.js';
+export type { Baseline, BaselineEntry } from '../baseline.js';
+
+// Re-export revision comparison
+export {
+  compareProjects,
+  formatComparison,
+  formatComparisonMarkdown,
+  formatComparisonTable,
+  COMPARISON_FORMATS,
+} from '../compare.js';
+export type {
+  ComparisonFormat,
+  ComplexityScores,
+  FileChange,
+  FunctionChange,
+  FunctionChangeKind,
+  ProjectComparison,
+  ScoreChange,
+} from '../compare.js';
+
+// Re-export threshold calibration
+export {
+  applyCalibration,
+  calibrateThresholds,
+  describeScores,
+  formatCalibration,
+  DEFAULT_FLAG_PERCENT,
+  PERCENTILES,
+} from '../calibrate.js';
+export type {
+  Calibration,
+  CalibrationOptions,
+  HistogramBucket,
+  MetricCalibration,
+  ScoreDistribution,
+} from '../calibrate.js';
+
+// Re-export hotspot analysis
+export {
+  findHotspots,
+  formatHotspots,
+  formatHotspotsHtml,
+  formatHotspotsTable,
+  HOTSPOT_FORMATS,
+} from '../hotspots.js';
+export type { FileHotspot, FunctionHotspot, HotspotAnalysis, HotspotFormat } from '../hotspots.js';
+export { layoutTreemap } from '../treemap.js';
+export type { Rect, TreemapItem, TreemapTile } from '../treemap.js';
+
+// Re-export HTML report
+export { formatHtmlReport } from '../html-report.js';
+export type { HtmlReportOptions } from '../html-report.js';
+
+// Re-export SARIF formatter
+export { createSarifLog, formatSarif, SARIF_RULE_IDS } from '../sarif.js';
+export type { SarifLog, SarifOptions, SarifResult } from '../sarif.js';
@@ -0,0 +1,144 @@
+import { parseSync } from 'oxc-parser';
+import { walk } from 'estree-walker';
+import type { Node as EstreeWalkerNode } from 'estree-walker';
+import type { ESTreeNode, Visitor } from '../types.js';
+import type { ScriptLang } from './sfc.js';
+
+type Position = { line: number; column: number };
+
+export interface SourceComment {
+  type: 'Line' | 'Block';
+  value: string;
+  start: number;
+  end: number;
+  range: [number, number];
+  loc: { start: Position; end: Position };
+}
+
+export interface ParsedSource {
+  filename: string;
+  code: string;
+  program: ESTreeNode;
+  comments: SourceComment[];
+}
+
+/**
+ * Create a lookup table to convert offsets to line/column.
+ * oxc-parser returns `start`/`end` offsets, not ESTree `loc` objects.
+ */
+export function createLineOffsetTable(code: string): number[] {
+  const lineOffsets: number[] = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '\n') {
+      lineOffsets.push(i + 1);
+    }
+  }
+  return lineOffsets;
+}
+
+/**
+ * Convert an offset to a 1-based line and 0-based column.
+ */
+export function offsetToLineCol(offset: number, lineOffsets: number[]): Position {
+  let low = 0;
+  let high = lineOffsets.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineOffsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineOffsets[low] };
+}
+
+function defineHidden(target: object, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    // Non-enumerable so walkers don't traverse back up the tree
+    enumerable: false,
+    configurable: true,
+  });
+}
+
+/**
+ * Attach `parent` references and `loc` objects to every node, matching the
+ * shape oxlint hands to plugin visitors.
+ */
+function prepareAst(program: ESTreeNode, lineOffsets: number[]): void {
+  walk(program as EstreeWalkerNode, {
+    enter(node, parent) {
+      const { start, end } = node as unknown as { start?: number; end?: number };
+      if (typeof start === 'number' && typeof end === 'number') {
+        defineHidden(node, 'loc', {
+          start: offsetToLineCol(start, lineOffsets),
+          end: offsetToLineCol(end, lineOffsets),
+        });
+      }
+      defineHidden(node, 'parent', parent ?? null);
+    },
+  });
+}
+
+/**
+ * Parse JS/TS/JSX source with oxc-parser and prepare the AST for analysis.
+ * The language is inferred from the filename extension unless `lang` is given.
+ *
+ * @throws Error if the source has parse errors
+ */
+export function parseSource(code: string, filename: string, lang?: ScriptLang): ParsedSource {
+  const { program, comments, errors } = parseSync(filename, code, {
+    lang,
+    range: true,
+    preserveParens: false,
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Parse errors in "${filename}": ${errors.map((e) => e.message).join(', ')}`);
+  }
+
+  const lineOffsets = createLineOffsetTable(code);
+  const preparedProgram = program as unknown as ESTreeNode;
+  prepareAst(preparedProgram, lineOffsets);
+
+  return {
+    filename,
+    code,
+    program: preparedProgram,
+    comments: comments.map((comment) => ({
+      ...comment,
+      range: [comment.start, comment.end],
+      loc: {
+        start: offsetToLineCol(comment.start, lineOffsets),
+        end: offsetToLineCol(comment.end, lineOffsets),
+      },
+    })),
+  };
+}
+
+type VisitorHandler = (node: ESTreeNode) => void;
+
+/**
+ * Walk a prepared AST and dispatch to visitor handlers.
+ *
+ * Supports node-type keys, `:exit` keys and the `*` wildcard. Type handlers run
+ * before `*` on enter, and `:exit` handlers run before `*:exit` on leave.
+ */
+export function walkAst(program: ESTreeNode, visitor: Visitor): void {
+  const handlers = visitor as Record<string, VisitorHandler | undefined>;
+
+  walk(program as EstreeWalkerNode, {
+    enter(node) {
+      const esNode = node as unknown as ESTreeNode;
+      handlers[esNode.type]?.(esNode);
+      handlers['*']?.(esNode);
+    },
+    leave(node) {
+      const esNode = node as unknown as ESTreeNode;
+      handlers[`${esNode.type}:exit`]?.(esNode);
+      handlers['*:exit']?.(esNode);
+    },
+  });
+}
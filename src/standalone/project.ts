@@ -0,0 +1,125 @@
+import { readFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { analyzeSource, type AnalyzeSourceOptions, type SourceAnalysis } from './analyze.js';
+import {
+  collectSourceFiles,
+  createIgnoreMatcher,
+  isSourceFile,
+  DEFAULT_IGNORE_PATTERNS,
+  type CollectFilesOptions,
+} from './files.js';
+import {
+  listGitFiles,
+  loadDiff,
+  readGitFile,
+  selectChangedFunctions,
+  type DiffFile,
+  type DiffOptions,
+} from './diff.js';
+
+export interface ProjectAnalysisOptions
+  extends AnalyzeSourceOptions, CollectFilesOptions, DiffOptions {}
+
+export interface FileAnalysisError {
+  filename: string;
+  message: string;
+}
+
+export interface ProjectAnalysis {
+  root: string;
+  /** One entry per analyzed file; `filename` is relative to `root` with `/` separators */
+  files: SourceAnalysis[];
+  /** Files that could not be read or parsed */
+  errors: FileAnalysisError[];
+}
+
+export function toProjectPath(root: string, absolutePath: string): string {
+  return relative(root, absolutePath).split(sep).join('/');
+}
+
+/**
+ * Analysis of a changed file at the diff base, or `null` if it is new or no
+ * longer parses there.
+ */
+function analyzeBase(
+  file: DiffFile,
+  root: string,
+  options: ProjectAnalysisOptions
+): SourceAnalysis | null {
+  if (!options.diffBase || file.oldPath === null) return null;
+  const code = readGitFile(options.diffBase, file.oldPath, root);
+  if (code === null) return null;
+  try {
+    return analyzeSource(code, join(root, file.oldPath), options);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Analyze every source file under the given paths.
+ * Files that fail to parse are collected in `errors` instead of aborting the run.
+ *
+ * With `diff` or `diffBase`, only files in the diff are analyzed and only
+ * functions whose lines it touches are kept.
+ *
+ * @throws Error if `diffBase` is set and `git diff` fails
+ */
+export function analyzeProject(
+  paths: readonly string[],
+  options: ProjectAnalysisOptions = {}
+): ProjectAnalysis {
+  const root = options.root ?? process.cwd();
+  const files: SourceAnalysis[] = [];
+  const errors: FileAnalysisError[] = [];
+  const diff = loadDiff(options, root);
+
+  for (const absolutePath of collectSourceFiles(paths, { ...options, root })) {
+    const filename = toProjectPath(root, absolutePath);
+    const change = diff?.get(filename);
+    if (diff && !change) continue;
+    try {
+      const code = readFileSync(absolutePath, 'utf-8');
+      const analysis = { ...analyzeSource(code, absolutePath, options), filename };
+      if (change) {
+        const base = options.compareBase ? analyzeBase(change, root, options) : undefined;
+        analysis.functions = selectChangedFunctions(analysis.functions, change, base);
+      }
+      files.push(analysis);
+    } catch (error) {
+      errors.push({ filename, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { root, files, errors };
+}
+
+/**
+ * Analyze the source files under the given paths as they are at a git
+ * revision, reading them with `git show` instead of checking it out. Paths
+ * and filenames are relative to `root`, which must be inside the repository.
+ *
+ * @throws Error if git fails, e.g. for an unknown revision
+ */
+export function analyzeRevision(
+  revision: string,
+  paths: readonly string[],
+  options: Omit<ProjectAnalysisOptions, keyof DiffOptions> = {}
+): ProjectAnalysis {
+  const root = options.root ?? process.cwd();
+  const isIgnored = createIgnoreMatcher(options.ignore ?? DEFAULT_IGNORE_PATTERNS);
+  const files: SourceAnalysis[] = [];
+  const errors: FileAnalysisError[] = [];
+
+  for (const filename of listGitFiles(revision, paths, root)) {
+    if (!isSourceFile(filename) || isIgnored(filename)) continue;
+    try {
+      const code = readGitFile(revision, filename, root) ?? '';
+      files.push({ ...analyzeSource(code, join(root, filename), options), filename });
+    } catch (error) {
+      errors.push({ filename, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { root, files, errors };
+}
@@ -0,0 +1,432 @@
+/**
+ * Lightweight scope analyzer for ASTs produced by oxc-parser.
+ *
+ * Mirrors the subset of oxlint's scope manager that variable tracking relies on
+ * (`acquire`, variables, definitions and read/write references), so extraction
+ * analysis works outside of oxlint.
+ */
+
+import { walk } from 'estree-walker';
+import type { Node as EstreeWalkerNode } from 'estree-walker';
+import type { Scope, ScopeManager, Variable, Definition } from '@oxlint/plugins';
+import type { ESTreeNode } from '../types.js';
+
+type IdentifierNode = ESTreeNode & { name: string; typeAnnotation?: ESTreeNode };
+
+type FunctionLikeNode = ESTreeNode & {
+  params: ESTreeNode[];
+  body: ESTreeNode;
+  id?: IdentifierNode | null;
+};
+
+interface MutableScope {
+  type: Scope['type'];
+  isStrict: boolean;
+  upper: MutableScope | null;
+  childScopes: MutableScope[];
+  variableScope: MutableScope;
+  block: ESTreeNode;
+  variables: MutableVariable[];
+  set: Map<string, MutableVariable>;
+  references: MutableReference[];
+  through: MutableReference[];
+  functionExpressionScope: boolean;
+}
+
+interface MutableVariable {
+  name: string;
+  scope: MutableScope;
+  identifiers: IdentifierNode[];
+  references: MutableReference[];
+  defs: MutableDefinition[];
+}
+
+interface MutableReference {
+  identifier: IdentifierNode;
+  from: MutableScope;
+  resolved: MutableVariable | null;
+  writeExpr: ESTreeNode | null;
+  init: boolean;
+  isWrite(): boolean;
+  isRead(): boolean;
+  isReadOnly(): boolean;
+  isWriteOnly(): boolean;
+  isReadWrite(): boolean;
+}
+
+interface MutableDefinition {
+  type: Definition['type'];
+  name: IdentifierNode;
+  node: ESTreeNode;
+  parent: ESTreeNode | null;
+}
+
+interface WriteContext {
+  isWrite: boolean;
+  writeExpr: ESTreeNode | null;
+  init: boolean;
+}
+
+const FUNCTION_TYPES = new Set([
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ArrowFunctionExpression',
+]);
+
+const NOT_A_WRITE: WriteContext = { isWrite: false, writeExpr: null, init: false };
+
+function getProp<T>(node: ESTreeNode, key: string): T {
+  return (node as unknown as Record<string, T>)[key];
+}
+
+function createScope(
+  type: Scope['type'],
+  block: ESTreeNode,
+  upper: MutableScope | null
+): MutableScope {
+  const scope: MutableScope = {
+    type,
+    isStrict: false,
+    upper,
+    childScopes: [],
+    variableScope: null as unknown as MutableScope,
+    block,
+    variables: [],
+    set: new Map(),
+    references: [],
+    through: [],
+    functionExpressionScope: false,
+  };
+  // Function and module scopes own their `var` declarations
+  scope.variableScope =
+    type === 'function' || type === 'module' || type === 'global'
+      ? scope
+      : (upper?.variableScope ?? scope);
+  return scope;
+}
+
+function createReference(
+  identifier: IdentifierNode,
+  from: MutableScope,
+  resolved: MutableVariable | null,
+  writeCtx: WriteContext
+): MutableReference {
+  const isWriteRef = writeCtx.isWrite;
+  const isReadRef =
+    !isWriteRef ||
+    (writeCtx.writeExpr !== null && identifier.parent?.type === 'AssignmentExpression');
+
+  return {
+    identifier,
+    from,
+    resolved,
+    writeExpr: writeCtx.writeExpr,
+    init: writeCtx.init,
+    isWrite: () => isWriteRef,
+    isRead: () => isReadRef || !isWriteRef,
+    isReadOnly: () => !isWriteRef,
+    isWriteOnly: () => isWriteRef && !isReadRef,
+    isReadWrite: () => isWriteRef && isReadRef,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Binding names in patterns
+// ---------------------------------------------------------------------------
+
+const PATTERN_CHILDREN: Record<string, (node: ESTreeNode) => Array<ESTreeNode | null>> = {
+  ObjectPattern: (node) =>
+    getProp<ESTreeNode[]>(node, 'properties').map((prop) =>
+      prop.type === 'RestElement' ? getProp<ESTreeNode>(prop, 'argument') : getProp(prop, 'value')
+    ),
+  ArrayPattern: (node) => getProp<Array<ESTreeNode | null>>(node, 'elements'),
+  AssignmentPattern: (node) => [getProp<ESTreeNode>(node, 'left')],
+  RestElement: (node) => [getProp<ESTreeNode>(node, 'argument')],
+};
+
+/** Collect the identifiers bound by a declaration pattern. */
+function extractNames(pattern: ESTreeNode | null | undefined, names: IdentifierNode[] = []) {
+  if (!pattern) return names;
+
+  if (pattern.type === 'Identifier') {
+    names.push(pattern as IdentifierNode);
+    return names;
+  }
+
+  for (const child of PATTERN_CHILDREN[pattern.type]?.(pattern) ?? []) {
+    extractNames(child, names);
+  }
+  return names;
+}
+
+function isInPattern(node: ESTreeNode, pattern: ESTreeNode): boolean {
+  let current: ESTreeNode | null | undefined = node;
+  while (current) {
+    if (current === pattern) return true;
+    current = current.parent;
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Pass 1: scopes and definitions
+// ---------------------------------------------------------------------------
+
+interface ScopeBuilder {
+  scopes: MutableScope[];
+  nodeToScope: Map<ESTreeNode, MutableScope>;
+  current: MutableScope;
+}
+
+function openScope(builder: ScopeBuilder, type: Scope['type'], block: ESTreeNode): MutableScope {
+  const scope = createScope(type, block, builder.current);
+  builder.scopes.push(scope);
+  builder.nodeToScope.set(block, scope);
+  builder.current.childScopes.push(scope);
+  builder.current = scope;
+  return scope;
+}
+
+function declare(
+  scope: MutableScope,
+  id: IdentifierNode,
+  def: Omit<MutableDefinition, 'name'>
+): void {
+  let variable = scope.set.get(id.name);
+  if (!variable) {
+    variable = { name: id.name, scope, identifiers: [], references: [], defs: [] };
+    scope.variables.push(variable);
+    scope.set.set(id.name, variable);
+  }
+  variable.identifiers.push(id);
+  variable.defs.push({ ...def, name: id });
+}
+
+function enterFunction(builder: ScopeBuilder, node: ESTreeNode): void {
+  const funcNode = node as FunctionLikeNode;
+
+  if (node.type === 'FunctionDeclaration' && funcNode.id) {
+    declare(builder.current, funcNode.id, {
+      type: 'FunctionName',
+      node,
+      parent: node.parent ?? null,
+    });
+  }
+
+  const funcScope = openScope(builder, 'function', node);
+  for (const param of funcNode.params) {
+    for (const id of extractNames(param)) {
+      declare(funcScope, id, { type: 'Parameter', node: param, parent: node });
+    }
+  }
+}
+
+function enterCatchClause(builder: ScopeBuilder, node: ESTreeNode): void {
+  const param = getProp<ESTreeNode | null>(node, 'param');
+  const catchScope = openScope(builder, 'catch', node);
+  if (!param) return;
+
+  for (const id of extractNames(param)) {
+    declare(catchScope, id, { type: 'CatchClause', node: param, parent: node });
+  }
+}
+
+function enterVariableDeclaration(builder: ScopeBuilder, node: ESTreeNode): void {
+  const kind = getProp<string>(node, 'kind');
+  // `var` is hoisted to the enclosing function scope; `let`/`const` stay in the block
+  const targetScope = kind === 'var' ? builder.current.variableScope : builder.current;
+
+  for (const declarator of getProp<ESTreeNode[]>(node, 'declarations')) {
+    for (const id of extractNames(getProp<ESTreeNode>(declarator, 'id'))) {
+      declare(targetScope, id, { type: 'Variable', node: declarator, parent: node });
+    }
+  }
+}
+
+const SCOPE_ENTER_HANDLERS: Record<string, (builder: ScopeBuilder, node: ESTreeNode) => void> = {
+  FunctionDeclaration: enterFunction,
+  FunctionExpression: enterFunction,
+  ArrowFunctionExpression: enterFunction,
+  BlockStatement(builder, node) {
+    // Function bodies share the function scope
+    if (!FUNCTION_TYPES.has(node.parent?.type ?? '')) {
+      openScope(builder, 'block', node);
+    }
+  },
+  ForStatement: (builder, node) => openScope(builder, 'for', node),
+  ForInStatement: (builder, node) => openScope(builder, 'for', node),
+  ForOfStatement: (builder, node) => openScope(builder, 'for', node),
+  CatchClause: enterCatchClause,
+  VariableDeclaration: enterVariableDeclaration,
+};
+
+function buildScopes(ast: ESTreeNode): ScopeBuilder {
+  const moduleScope = createScope('module', ast, null);
+  const builder: ScopeBuilder = {
+    scopes: [moduleScope],
+    nodeToScope: new Map([[ast, moduleScope]]),
+    current: moduleScope,
+  };
+
+  walk(ast as EstreeWalkerNode, {
+    enter(node) {
+      const esNode = node as unknown as ESTreeNode;
+      SCOPE_ENTER_HANDLERS[esNode.type]?.(builder, esNode);
+    },
+    leave(node) {
+      const esNode = node as unknown as ESTreeNode;
+      if (builder.nodeToScope.get(esNode) === builder.current && builder.current.upper) {
+        builder.current = builder.current.upper;
+      }
+    },
+  });
+
+  return builder;
+}
+
+// ---------------------------------------------------------------------------
+// Pass 2: references
+// ---------------------------------------------------------------------------
+
+function isPropertyKey(node: ESTreeNode, parent: ESTreeNode): boolean {
+  return (
+    parent.type === 'Property' &&
+    getProp(parent, 'key') === node &&
+    !getProp<boolean>(parent, 'shorthand') &&
+    !getProp<boolean>(parent, 'computed')
+  );
+}
+
+function isMemberProperty(node: ESTreeNode, parent: ESTreeNode): boolean {
+  return (
+    parent.type === 'MemberExpression' &&
+    getProp(parent, 'property') === node &&
+    !getProp<boolean>(parent, 'computed')
+  );
+}
+
+function isDeclarationName(node: ESTreeNode, parent: ESTreeNode): boolean {
+  const isNamedDeclaration =
+    parent.type === 'FunctionDeclaration' ||
+    parent.type === 'FunctionExpression' ||
+    parent.type === 'ClassDeclaration';
+  return isNamedDeclaration && getProp(parent, 'id') === node;
+}
+
+function isDeclaratorId(node: ESTreeNode, parent: ESTreeNode): boolean {
+  return parent.type === 'VariableDeclarator' && isInPattern(node, getProp(parent, 'id'));
+}
+
+function isParameter(node: ESTreeNode, parent: ESTreeNode): boolean {
+  if (!FUNCTION_TYPES.has(parent.type)) return false;
+  return (parent as FunctionLikeNode).params.some((param) => isInPattern(node, param));
+}
+
+/** Identifiers that are definitions or property names rather than variable references. */
+const NON_REFERENCE_CHECKS = [
+  isPropertyKey,
+  isMemberProperty,
+  isDeclarationName,
+  isDeclaratorId,
+  isParameter,
+];
+
+function shouldSkipIdentifier(node: ESTreeNode): boolean {
+  const parent = node.parent;
+  return !!parent && NON_REFERENCE_CHECKS.some((check) => check(node, parent));
+}
+
+const WRITE_CONTEXT_HANDLERS: Record<
+  string,
+  (node: ESTreeNode, parent: ESTreeNode) => WriteContext
+> = {
+  VariableDeclarator: (node, parent) =>
+    isInPattern(node, getProp(parent, 'id'))
+      ? { isWrite: true, writeExpr: getProp(parent, 'init') ?? null, init: true }
+      : NOT_A_WRITE,
+  AssignmentExpression: (node, parent) =>
+    isInPattern(node, getProp(parent, 'left'))
+      ? { isWrite: true, writeExpr: getProp(parent, 'right'), init: false }
+      : NOT_A_WRITE,
+  UpdateExpression: () => ({ isWrite: true, writeExpr: null, init: false }),
+  ForInStatement: (node, parent) => getForLoopWriteContext(node, parent),
+  ForOfStatement: (node, parent) => getForLoopWriteContext(node, parent),
+};
+
+function getForLoopWriteContext(node: ESTreeNode, parent: ESTreeNode): WriteContext {
+  return isInPattern(node, getProp(parent, 'left'))
+    ? { isWrite: true, writeExpr: null, init: false }
+    : NOT_A_WRITE;
+}
+
+function getWriteContext(node: ESTreeNode): WriteContext {
+  const parent = node.parent;
+  if (!parent) return NOT_A_WRITE;
+  return WRITE_CONTEXT_HANDLERS[parent.type]?.(node, parent) ?? NOT_A_WRITE;
+}
+
+function resolveVariable(scope: MutableScope, name: string): MutableVariable | null {
+  let current: MutableScope | null = scope;
+  while (current) {
+    const variable = current.set.get(name);
+    if (variable) return variable;
+    current = current.upper;
+  }
+  return null;
+}
+
+function addReference(scope: MutableScope, id: IdentifierNode): void {
+  const resolved = resolveVariable(scope, id.name);
+  const ref = createReference(id, scope, resolved, getWriteContext(id));
+
+  scope.references.push(ref);
+  if (resolved) {
+    resolved.references.push(ref);
+  } else {
+    scope.through.push(ref);
+  }
+}
+
+function collectReferences(ast: ESTreeNode, builder: ScopeBuilder): void {
+  const scopeStack: MutableScope[] = [];
+
+  walk(ast as EstreeWalkerNode, {
+    enter(node) {
+      const esNode = node as unknown as ESTreeNode;
+      const nodeScope = builder.nodeToScope.get(esNode);
+      if (nodeScope) scopeStack.push(nodeScope);
+
+      const currentScope = scopeStack[scopeStack.length - 1];
+      if (esNode.type === 'Identifier' && currentScope && !shouldSkipIdentifier(esNode)) {
+        addReference(currentScope, esNode as IdentifierNode);
+      }
+    },
+    leave(node) {
+      if (builder.nodeToScope.has(node as unknown as ESTreeNode)) {
+        scopeStack.pop();
+      }
+    },
+  });
+}
+
+/**
+ * Analyze a prepared AST (parents and `loc` attached) and create a scope manager
+ * compatible with oxlint's interface.
+ */
+export function analyzeScope(ast: ESTreeNode): ScopeManager {
+  const builder = buildScopes(ast);
+  collectReferences(ast, builder);
+
+  const moduleScope = builder.scopes[0];
+  return {
+    scopes: builder.scopes as unknown as Scope[],
+    globalScope: moduleScope as unknown as Scope,
+    getDeclaredVariables(node: ESTreeNode): Variable[] {
+      const scope = builder.nodeToScope.get(node);
+      return scope ? (scope.variables as unknown as Variable[]) : [];
+    },
+    acquire(node: ESTreeNode): Scope | null {
+      return (builder.nodeToScope.get(node) as unknown as Scope) ?? null;
+    },
+  } as ScopeManager;
+}
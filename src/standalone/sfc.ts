@@ -0,0 +1,73 @@
+export type ScriptLang = 'js' | 'jsx' | 'ts' | 'tsx';
+
+export interface ExtractedScript {
+  /** Source with everything outside script blocks blanked, so offsets and lines are preserved */
+  code: string;
+  lang: ScriptLang;
+}
+
+const SFC_EXTENSIONS = ['.vue', '.svelte', '.astro'] as const;
+
+const SCRIPT_BLOCK_PATTERN = /<script(\s[^>]*)?>([\s\S]*?)<\/script\s*>/gi;
+const ASTRO_FRONTMATTER_PATTERN = /^(\s*---\r?\n)([\s\S]*?)\r?\n---/;
+
+export function isSfcFilename(filename: string): boolean {
+  return SFC_EXTENSIONS.some((ext) => filename.endsWith(ext));
+}
+
+/** Replace everything except newlines with spaces. */
+export function blank(text: string): string {
+  return text.replace(/[^\n\r]/g, ' ');
+}
+
+function getScriptLang(attributes: string): ScriptLang {
+  const match = attributes.match(/lang\s*=\s*["']?(ts|tsx|typescript|jsx)["']?/i);
+  if (!match) return 'js';
+  const lang = match[1].toLowerCase();
+  return lang === 'typescript' ? 'ts' : (lang as ScriptLang);
+}
+
+function extractScriptBlocks(content: string): ExtractedScript {
+  let code = '';
+  let lastIndex = 0;
+  let lang: ScriptLang = 'js';
+
+  for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+    const attributes = match[1] ?? '';
+    const body = match[2];
+    const bodyStart = match.index + match[0].indexOf('>') + 1;
+
+    code += blank(content.slice(lastIndex, bodyStart)) + body;
+    lastIndex = bodyStart + body.length;
+
+    const blockLang = getScriptLang(attributes);
+    if (blockLang !== 'js') lang = blockLang;
+  }
+
+  return { code: code + blank(content.slice(lastIndex)), lang };
+}
+
+function extractAstroFrontmatter(content: string): ExtractedScript {
+  const match = content.match(ASTRO_FRONTMATTER_PATTERN);
+  if (!match) return { code: blank(content), lang: 'ts' };
+
+  const bodyStart = match[1].length;
+  const bodyEnd = bodyStart + match[2].length;
+  return {
+    code: blank(content.slice(0, bodyStart)) + match[2] + blank(content.slice(bodyEnd)),
+    lang: 'ts',
+  };
+}
+
+/**
+ * Extract the script portion of a Vue, Svelte or Astro component.
+ *
+ * Vue and Svelte `<script>` blocks (including `<script setup>` and
+ * `context="module"`) are kept; Astro uses the `---` frontmatter. Everything
+ * else is replaced by whitespace so reported lines match the original file.
+ */
+export function extractComponentScript(content: string, filename: string): ExtractedScript {
+  return filename.endsWith('.astro')
+    ? extractAstroFrontmatter(content)
+    : extractScriptBlocks(content);
+}
@@ -0,0 +1,158 @@
+import {
+  blankRawBlocks,
+  createTemplateScorer,
+  type TemplateAnalysis,
+  type TemplateScorer,
+} from './template.js';
+import { blank } from './sfc.js';
+
+interface MarkupBlock {
+  /** Nesting levels opened by the current branch of the block */
+  nesting: number;
+}
+
+interface BlockTag {
+  /** `#`, `:`, `/`, `@` or empty for a plain `{expression}` */
+  sigil: string;
+  keyword: string;
+  /** Text after the keyword, and its offset in the component source */
+  rest: string;
+  restStart: number;
+  start: number;
+  end: number;
+}
+
+const NODE_TYPE = 'SvelteBlock';
+
+const BLOCK_TAG_PATTERN = /^([#:/@])(else\s+if|[a-z]+)\b\s*/;
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+/** Where the iterated or awaited expression ends: `items as item`, `promise then value` */
+const EXPRESSION_END_PATTERNS: Record<string, RegExp> = {
+  each: /\sas\s/,
+  await: /\s(?:then|catch)\b/,
+};
+
+/** Index of the `}` closing the `{` at `open`, skipping strings and nested braces. */
+function findClosingBrace(source: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = source.indexOf(char, i + 1);
+      if (i === -1) return -1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseTag(source: string, start: number, end: number): BlockTag {
+  const inner = source.slice(start + 1, end);
+  const match = BLOCK_TAG_PATTERN.exec(inner);
+  const prefix = match?.[0].length ?? 0;
+  return {
+    sigil: match?.[1] ?? '',
+    keyword: match?.[2].replace(/\s+/, ' ') ?? '',
+    rest: inner.slice(prefix),
+    restStart: start + 1 + prefix,
+    start,
+    end: end + 1,
+  };
+}
+
+/** Score the expression of a tag, up to `as`/`then` for `{#each}` and `{#await}`. */
+function addTagExpression(scorer: TemplateScorer, tag: BlockTag): void {
+  const endPattern = EXPRESSION_END_PATTERNS[tag.keyword];
+  const end = endPattern?.exec(tag.rest)?.index ?? tag.rest.length;
+  const expression = tag.rest.slice(0, end);
+  if (expression.trim()) scorer.addExpression(expression, tag.restStart);
+}
+
+function openBlock(scorer: TemplateScorer, blocks: MarkupBlock[], tag: BlockTag): void {
+  const { keyword, start, end } = tag;
+  // Snippets are like nested functions: their content is scored but not nested
+  if (keyword === 'snippet') {
+    blocks.push({ nesting: 0 });
+    return;
+  }
+  if (keyword !== 'key') scorer.addStructural(keyword, start, end, NODE_TYPE);
+  addTagExpression(scorer, tag);
+  scorer.openNesting(keyword, start, end, keyword !== 'key');
+  blocks.push({ nesting: 1 });
+}
+
+/** `{:else if}`, `{:else}`, `{:then}`, `{:catch}` end one branch and start the next. */
+function switchBranch(scorer: TemplateScorer, block: MarkupBlock | undefined, tag: BlockTag): void {
+  const { keyword, start, end } = tag;
+  if (!block || block.nesting === 0) return;
+  scorer.closeNesting();
+  scorer.addFlat(keyword, start, end, NODE_TYPE, keyword === 'else if' || keyword === 'catch');
+  if (keyword === 'else if') addTagExpression(scorer, tag);
+  scorer.openNesting(keyword, start, end);
+}
+
+function closeBlock(scorer: TemplateScorer, blocks: MarkupBlock[]): void {
+  const block = blocks.pop();
+  for (let i = 0; i < (block?.nesting ?? 0); i++) scorer.closeNesting();
+}
+
+/** `{@html x}`, `{@render x()}`, `{@const a = x}` and plain `{x}` tags */
+function addInlineExpression(scorer: TemplateScorer, tag: BlockTag): void {
+  if (tag.sigil === '') {
+    scorer.addExpression(tag.rest, tag.restStart);
+  } else if (tag.keyword === 'const') {
+    const assignment = tag.rest.indexOf('=');
+    if (assignment !== -1) {
+      scorer.addExpression(tag.rest.slice(assignment + 1), tag.restStart + assignment + 1);
+    }
+  } else if (tag.keyword !== 'debug') {
+    addTagExpression(scorer, tag);
+  }
+}
+
+function scoreTag(scorer: TemplateScorer, blocks: MarkupBlock[], tag: BlockTag): void {
+  switch (tag.sigil) {
+    case '#':
+      openBlock(scorer, blocks, tag);
+      break;
+    case ':':
+      switchBranch(scorer, blocks.at(-1), tag);
+      break;
+    case '/':
+      closeBlock(scorer, blocks);
+      break;
+    default:
+      addInlineExpression(scorer, tag);
+  }
+}
+
+/**
+ * Score the markup of a Svelte component (everything outside `<script>` and
+ * `<style>`).
+ *
+ * `{#if}`, `{#each}` and `{#await}` are structural (+1 plus nesting);
+ * `{:else if}`, `{:else}`, `{:then}` and `{:catch}` add +1 and start a new
+ * branch at the same nesting; `{#key}` only adds depth. Ternaries and logical
+ * operators in `{expressions}`, including attribute values, count as they do
+ * in script code. Returns `null` if the component has no markup.
+ */
+export function analyzeSvelteMarkup(content: string): TemplateAnalysis | null {
+  const source = blankRawBlocks(content).replace(HTML_COMMENT_PATTERN, blank);
+  const first = source.search(/\S/);
+  if (first === -1) return null;
+
+  const scorer = createTemplateScorer(content);
+  const blocks: MarkupBlock[] = [];
+
+  for (let open = source.indexOf('{'); open !== -1; ) {
+    const close = findClosingBrace(source, open);
+    if (close === -1) break;
+    scoreTag(scorer, blocks, parseTag(source, open, close));
+    open = source.indexOf('{', close + 1);
+  }
+
+  return { result: scorer.getResult(), loc: scorer.location(first, source.trimEnd().length) };
+}
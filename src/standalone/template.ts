@@ -0,0 +1,202 @@
+import { parseSync } from 'oxc-parser';
+import { walk } from 'estree-walker';
+import type { Node as EstreeWalkerNode } from 'estree-walker';
+import type { ComplexityPoint, ComplexityPointKind, NestingStep } from '../types.js';
+import type { CombinedComplexityResult } from '../combined-visitor.js';
+import {
+  BASE_FUNCTION_COMPLEXITY,
+  DEFAULT_COMPLEXITY_INCREMENT,
+  LOGICAL_OPERATORS,
+  formatPointMessage,
+  includes,
+} from '../utils.js';
+import { createLineOffsetTable, offsetToLineCol } from './parser.js';
+import { blank } from './sfc.js';
+
+type Location = ComplexityPoint['location'];
+
+/** Complexity of a component's markup, analyzed as one unit */
+export interface TemplateAnalysis {
+  result: CombinedComplexityResult;
+  loc: Location;
+}
+
+/**
+ * Scores component markup (a Vue `<template>` or Svelte markup) like a
+ * function body: control-flow directives and blocks are cognitive structure
+ * nested by the blocks around them, and inline expressions count their
+ * ternaries and logical operators.
+ */
+export interface TemplateScorer {
+  /** `v-if`, `v-for`, `{#each}`: +1 cyclomatic, +1 cognitive plus nesting */
+  addStructural(construct: string, start: number, end: number, nodeType: string): void;
+  /** `v-else-if`, `{:else}`: +1 cognitive, and +1 cyclomatic if it has a condition */
+  addFlat(
+    construct: string,
+    start: number,
+    end: number,
+    nodeType: string,
+    hasCondition: boolean
+  ): void;
+  /**
+   * Nest everything up to the matching `closeNesting()` one level deeper.
+   * Blocks that do not branch (`{#key}`) only add depth.
+   */
+  openNesting(construct: string, start: number, end: number, cognitive?: boolean): void;
+  closeNesting(): void;
+  /** Score a JS expression found at `start` in the component source */
+  addExpression(expression: string, start: number): void;
+  location(start: number, end: number): Location;
+  getResult(): CombinedComplexityResult;
+}
+
+interface ExpressionNode {
+  type: string;
+  start: number;
+  end: number;
+  operator?: string;
+}
+
+/** Script and style blocks, which may contain markup-like text */
+const RAW_BLOCK_PATTERN = /<(script|style)(\s[^>]*)?>[\s\S]*?<\/\1\s*>/gi;
+
+/** Blank out `<script>` and `<style>` blocks, preserving offsets. */
+export function blankRawBlocks(content: string): string {
+  return content.replace(RAW_BLOCK_PATTERN, blank);
+}
+
+function createPoint(
+  construct: string,
+  location: Location,
+  nodeType: string,
+  nestingLevel: number,
+  kind: ComplexityPointKind
+): ComplexityPoint {
+  const complexity = DEFAULT_COMPLEXITY_INCREMENT + nestingLevel;
+  return {
+    complexity,
+    increment: DEFAULT_COMPLEXITY_INCREMENT,
+    nestingLevel,
+    construct,
+    kind,
+    nodeType,
+    location,
+    message: formatPointMessage({ complexity, nestingLevel, construct }),
+  };
+}
+
+function isLogicalSequenceStart(node: ExpressionNode, parent: ExpressionNode | null): boolean {
+  return parent?.type !== 'LogicalExpression' || parent.operator !== node.operator;
+}
+
+export function createTemplateScorer(content: string): TemplateScorer {
+  const lineOffsets = createLineOffsetTable(content);
+  const cyclomaticPoints: ComplexityPoint[] = [];
+  const cognitivePoints: ComplexityPoint[] = [];
+  const nestingChain: NestingStep[] = [];
+  /** Whether each entry of `nestingChain` also counts for cognitive nesting */
+  const cognitiveNesting: boolean[] = [];
+  let deepestNesting: NestingStep[] = [];
+
+  function getNestingLevel(): number {
+    return cognitiveNesting.filter(Boolean).length;
+  }
+
+  function location(start: number, end: number): Location {
+    return { start: offsetToLineCol(start, lineOffsets), end: offsetToLineCol(end, lineOffsets) };
+  }
+
+  function scoreExpressionNode(
+    node: ExpressionNode,
+    parent: ExpressionNode | null,
+    offset: number,
+    nestingLevel: number
+  ): void {
+    const loc = location(offset + node.start, offset + node.end);
+    if (node.type === 'ConditionalExpression') {
+      cyclomaticPoints.push(createPoint('ternary', loc, node.type, 0, 'flat'));
+      cognitivePoints.push(
+        createPoint('ternary operator', loc, node.type, nestingLevel, 'structural')
+      );
+      return;
+    }
+    if (node.type !== 'LogicalExpression' || !includes(LOGICAL_OPERATORS, node.operator ?? '')) {
+      return;
+    }
+    cyclomaticPoints.push(createPoint(node.operator ?? '', loc, node.type, 0, 'flat'));
+    if (isLogicalSequenceStart(node, parent)) {
+      cognitivePoints.push(
+        createPoint(`logical operator '${node.operator}'`, loc, node.type, 0, 'flat')
+      );
+    }
+  }
+
+  return {
+    addStructural(construct, start, end, nodeType) {
+      const loc = location(start, end);
+      cyclomaticPoints.push(createPoint(construct, loc, nodeType, 0, 'flat'));
+      cognitivePoints.push(createPoint(construct, loc, nodeType, getNestingLevel(), 'structural'));
+    },
+
+    addFlat(construct, start, end, nodeType, hasCondition) {
+      const loc = location(start, end);
+      if (hasCondition) cyclomaticPoints.push(createPoint(construct, loc, nodeType, 0, 'flat'));
+      cognitivePoints.push(createPoint(construct, loc, nodeType, 0, 'flat'));
+    },
+
+    openNesting(construct, start, end, cognitive = true) {
+      nestingChain.push({ construct, location: location(start, end) });
+      cognitiveNesting.push(cognitive);
+      if (nestingChain.length > deepestNesting.length) deepestNesting = [...nestingChain];
+    },
+
+    closeNesting() {
+      nestingChain.pop();
+      cognitiveNesting.pop();
+    },
+
+    addExpression(expression, start) {
+      // Wrapped in parentheses so object literals parse as expressions
+      const { program, errors } = parseSync('template-expression.ts', `(${expression})`, {
+        preserveParens: false,
+      });
+      // Template expressions may use framework syntax; those are skipped
+      if (errors.length > 0) return;
+
+      const offset = start - 1;
+      const ternaryBranches = new Set<unknown>();
+      walk(program as unknown as EstreeWalkerNode, {
+        enter(node, parent, key) {
+          if (parent?.type === 'ConditionalExpression' && key !== 'test') {
+            ternaryBranches.add(node);
+          }
+          scoreExpressionNode(
+            node as unknown as ExpressionNode,
+            parent as unknown as ExpressionNode | null,
+            offset,
+            getNestingLevel() + ternaryBranches.size
+          );
+        },
+        leave(node) {
+          ternaryBranches.delete(node);
+        },
+      });
+    },
+
+    location,
+
+    getResult() {
+      return {
+        cyclomatic: cyclomaticPoints.reduce(
+          (sum, point) => sum + point.complexity,
+          BASE_FUNCTION_COMPLEXITY
+        ),
+        cognitive: cognitivePoints.reduce((sum, point) => sum + point.complexity, 0),
+        cyclomaticPoints,
+        cognitivePoints,
+        maxDepth: deepestNesting.length,
+        deepestNesting,
+      };
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import {
+  blankRawBlocks,
+  createTemplateScorer,
+  type TemplateAnalysis,
+  type TemplateScorer,
+} from './template.js';
+
+interface TemplateElement {
+  name: string;
+  /** Nesting levels opened by the element's control-flow directives */
+  nesting: number;
+}
+
+const NODE_TYPE = 'VAttribute';
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const ROOT_TEMPLATE_PATTERN = /<template(\s[^>]*)?>/i;
+/** Comments, closing tags, opening tags and `{{ }}` interpolations */
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<\/([^\s>]+)\s*>|<([a-zA-Z][^\s/>]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|\{\{([\s\S]*?)\}\}/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+/** Bindings whose value is a JS expression: `:x`, `@x`, `v-bind`, `v-on`, `v-show`, ... */
+const EXPRESSION_ATTRIBUTE_PATTERN = /^(?::|@|v-(?!slot|else$|pre$|once$|cloak$))/;
+/** The alias part of `item in items` or `(item, index) of items` */
+const V_FOR_SOURCE_PATTERN = /^[\s\S]*?\s(?:in|of)\s/;
+
+interface Attribute {
+  name: string;
+  value: string | null;
+  start: number;
+  valueStart: number;
+}
+
+function parseAttributes(source: string, offset: number): Attribute[] {
+  return [...source.matchAll(ATTRIBUTE_PATTERN)].map((match) => {
+    const value = match[2] ?? match[3] ?? match[4] ?? null;
+    const start = offset + match.index;
+    return {
+      name: match[1],
+      value,
+      start,
+      valueStart: value === null ? start : start + match[0].lastIndexOf(value),
+    };
+  });
+}
+
+const STRUCTURAL_DIRECTIVES = new Set(['v-if', 'v-for']);
+const BRANCH_DIRECTIVES = new Set(['v-else-if', 'v-else']);
+
+/** The JS expression in an attribute value, if it is a binding */
+function getAttributeExpression(attribute: Attribute): { text: string; start: number } | null {
+  const { name, value, valueStart } = attribute;
+  if (value === null) return null;
+  if (name !== 'v-for') {
+    return EXPRESSION_ATTRIBUTE_PATTERN.test(name) ? { text: value, start: valueStart } : null;
+  }
+  const alias = V_FOR_SOURCE_PATTERN.exec(value);
+  return alias ? { text: value.slice(alias[0].length), start: valueStart + alias[0].length } : null;
+}
+
+/**
+ * Score one attribute at the element's nesting level. Returns whether it is a
+ * control-flow directive, which nests the element's children.
+ */
+function scoreAttribute(scorer: TemplateScorer, attribute: Attribute): boolean {
+  const { name, start } = attribute;
+  const end = start + name.length;
+
+  if (STRUCTURAL_DIRECTIVES.has(name)) {
+    scorer.addStructural(name, start, end, NODE_TYPE);
+  } else if (BRANCH_DIRECTIVES.has(name)) {
+    scorer.addFlat(name, start, end, NODE_TYPE, name === 'v-else-if');
+  }
+
+  const expression = getAttributeExpression(attribute);
+  if (expression) scorer.addExpression(expression.text, expression.start);
+  return STRUCTURAL_DIRECTIVES.has(name) || BRANCH_DIRECTIVES.has(name);
+}
+
+function openElement(
+  scorer: TemplateScorer,
+  match: RegExpMatchArray,
+  attributeOffset: number
+): TemplateElement {
+  let nesting = 0;
+  for (const attribute of parseAttributes(match[3], attributeOffset)) {
+    if (!scoreAttribute(scorer, attribute)) continue;
+    scorer.openNesting(attribute.name, attribute.start, attribute.start + attribute.name.length);
+    nesting++;
+  }
+  return { name: match[2].toLowerCase(), nesting };
+}
+
+function closeElement(scorer: TemplateScorer, element: TemplateElement): void {
+  for (let i = 0; i < element.nesting; i++) scorer.closeNesting();
+}
+
+function openTag(scorer: TemplateScorer, stack: TemplateElement[], match: RegExpExecArray): void {
+  const element = openElement(scorer, match, match.index + 1 + match[2].length);
+  if (match[4] === '/' || VOID_ELEMENTS.has(element.name)) closeElement(scorer, element);
+  else stack.push(element);
+}
+
+/** Close the innermost open element named `name`; returns whether the root closed. */
+function closeTag(scorer: TemplateScorer, stack: TemplateElement[], name: string): boolean {
+  const index = stack.findLastIndex((element) => element.name === name.toLowerCase());
+  if (index === -1) return false;
+  for (const element of stack.splice(index).toReversed()) closeElement(scorer, element);
+  return stack.length === 0;
+}
+
+/**
+ * Score the root `<template>` of a Vue single-file component.
+ *
+ * `v-if` and `v-for` are structural (+1 plus nesting), `v-else-if` and
+ * `v-else` add +1, and each of them nests the element's children one level
+ * deeper. Ternaries and logical operators in bindings, event handlers and
+ * `{{ }}` interpolations count as they do in script code. Returns `null` if
+ * the component has no HTML template.
+ */
+export function analyzeVueTemplate(content: string): TemplateAnalysis | null {
+  const source = blankRawBlocks(content);
+  const root = ROOT_TEMPLATE_PATTERN.exec(source);
+  if (!root || /\slang\s*=\s*["']?(?!html)/i.test(root[1] ?? '')) return null;
+
+  const scorer = createTemplateScorer(content);
+  const stack: TemplateElement[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN);
+  pattern.lastIndex = root.index;
+  let end = source.length;
+
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    if (match[5] !== undefined) {
+      scorer.addExpression(match[5], match.index + 2);
+    } else if (match[2] !== undefined) {
+      openTag(scorer, stack, match);
+    } else if (match[1] !== undefined && closeTag(scorer, stack, match[1])) {
+      end = match.index + match[0].length;
+      break;
+    }
+  }
+
+  return { result: scorer.getResult(), loc: scorer.location(root.index, end) };
+}
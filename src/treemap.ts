@@ -0,0 +1,80 @@
+export interface TreemapItem<T> {
+  /** Area weight; items with a weight of 0 or less are left out */
+  weight: number;
+  data: T;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TreemapTile<T> extends Rect {
+  data: T;
+}
+
+interface Sized<T> {
+  area: number;
+  data: T;
+}
+
+/** Worst aspect ratio of a row of areas laid along a side */
+function worstRatio(areas: readonly number[], side: number): number {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const largest = Math.max(...areas);
+  const smallest = Math.min(...areas);
+  return Math.max((side * side * largest) / (sum * sum), (sum * sum) / (side * side * smallest));
+}
+
+/**
+ * Place a row along the shorter side of `bounds` and return the space left.
+ */
+function placeRow<T>(row: readonly Sized<T>[], bounds: Rect, tiles: TreemapTile<T>[]): Rect {
+  const sum = row.reduce((total, item) => total + item.area, 0);
+  const vertical = bounds.width >= bounds.height;
+  const thickness = sum / (vertical ? bounds.height : bounds.width);
+  let offset = 0;
+
+  for (const { area, data } of row) {
+    const length = area / thickness;
+    tiles.push(
+      vertical
+        ? { x: bounds.x, y: bounds.y + offset, width: thickness, height: length, data }
+        : { x: bounds.x + offset, y: bounds.y, width: length, height: thickness, data }
+    );
+    offset += length;
+  }
+
+  return vertical
+    ? { ...bounds, x: bounds.x + thickness, width: bounds.width - thickness }
+    : { ...bounds, y: bounds.y + thickness, height: bounds.height - thickness };
+}
+
+/**
+ * Squarified treemap layout (Bruls, Huizing and van Wijk): tiles with areas
+ * proportional to the weights, kept as close to square as possible. Tiles are
+ * returned largest first.
+ */
+export function layoutTreemap<T>(items: readonly TreemapItem<T>[], bounds: Rect): TreemapTile<T>[] {
+  const weighted = items.filter((item) => item.weight > 0).toSorted((a, b) => b.weight - a.weight);
+  const total = weighted.reduce((sum, item) => sum + item.weight, 0);
+  const scale = (bounds.width * bounds.height) / total;
+  const tiles: TreemapTile<T>[] = [];
+
+  let free = bounds;
+  let row: Sized<T>[] = [];
+  for (const { weight, data } of weighted) {
+    const item = { area: weight * scale, data };
+    const side = Math.min(free.width, free.height);
+    const areas = row.map((entry) => entry.area);
+    if (row.length > 0 && worstRatio([...areas, item.area], side) > worstRatio(areas, side)) {
+      free = placeRow(row, free, tiles);
+      row = [];
+    }
+    row.push(item);
+  }
+  if (row.length > 0) placeRow(row, free, tiles);
+  return tiles;
+}
@@ -1,8 +1,18 @@
 import type { ESTree } from '@oxlint/plugins';
+import type { ScoringOptions } from './profile.js';
 
-export type { Rule, Context, Visitor, VisitorWithHooks, Plugin } from '@oxlint/plugins';
+export type {
+  Rule,
+  Context,
+  Visitor,
+  VisitorWithHooks,
+  Plugin,
+  Suggestion,
+  DiagnosticData,
+} from '@oxlint/plugins';
 
 export type ESTreeNode = ESTree.Node;
+export type ProgramNode = ESTree.Program;
 export type FunctionNode =
   | ESTree.Function
   | ESTree.ArrowFunctionExpression
@@ -11,6 +21,7 @@ export type FunctionNode =
 export type LogicalExpressionNode = ESTree.LogicalExpression;
 export type ConditionalExpressionNode = ESTree.ConditionalExpression;
 export type CallExpressionNode = ESTree.CallExpression;
+export type MemberExpressionNode = ESTree.MemberExpression;
 export type AssignmentExpressionNode = ESTree.AssignmentExpression;
 
 export type IfStatementNode = ESTree.IfStatement;
@@ -20,21 +31,60 @@ export type SwitchCaseNode = ESTree.SwitchCase;
 export type LabeledJumpStatementNode = ESTree.BreakStatement | ESTree.ContinueStatement;
 
 export type CatchClauseNode = ESTree.CatchClause;
+export type TryStatementNode = ESTree.TryStatement;
+
+/**
+ * How a complexity point was scored.
+ *
+ * - `structural`: +1 plus the current nesting level (if, loops, switch, catch, ternary)
+ * - `flat`: fixed increment regardless of nesting (else, else if, logical operators, labeled jumps)
+ * - `nesting-penalty`: a function declared inside another function
+ * - `recursion`: a recursive call
+ */
+export type ComplexityPointKind = 'structural' | 'flat' | 'nesting-penalty' | 'recursion';
 
 export interface ComplexityPoint {
+  /** Total contribution of this point (`increment + nestingLevel`) */
   complexity: number;
+  /** Base increment, excluding the nesting penalty */
+  increment: number;
+  /** Nesting level added on top of the increment (0 for non-structural points) */
+  nestingLevel: number;
+  /** Construct that caused the increment, e.g. `if`, `else if`, `logical operator '&&'` */
+  construct: string;
+  kind: ComplexityPointKind;
+  /** Type of the AST node the point was recorded on */
+  nodeType: string;
   location: {
     start: { line: number; column: number };
     end: { line: number; column: number };
   };
+  /** Display message derived from the fields above, e.g. `+3 (incl. 2 for nesting): if` */
   message: string;
 }
 
+/** A construct that opens a nesting level, e.g. the `for` in `for > if > try` */
+export interface NestingStep {
+  /** e.g. `if`, `else`, `for-of`, `switch`, `try`, `catch` */
+  construct: string;
+  location: ComplexityPoint['location'];
+}
+
 export interface ComplexityResult {
   total: number;
   points: ComplexityPoint[];
 }
 
+export type ComplexityMetric = 'cyclomatic' | 'cognitive';
+
+/** Thresholds of the `complexity/complexity` rule */
+export interface ComplexityThresholds {
+  cyclomatic: number;
+  cognitive: number;
+  /** Functions with fewer lines are not reported (0 = report all) */
+  minLines: number;
+}
+
 export interface FunctionScope {
   node: ESTreeNode;
   name: string | null;
@@ -45,8 +95,25 @@ export interface MaxCyclomaticOptions {
   max?: number;
 }
 
+export interface MaxDepthOptions {
+  max?: number;
+}
+
+export interface ClassComplexityOptions extends ScoringOptions {
+  cyclomatic?: number;
+  cognitive?: number;
+}
+
+/**
+ * How much a report explains: `minimal` is the one-line message, `summary`
+ * adds the top categories, `full` adds the breakdown, tips and extraction
+ * suggestions, and `explain` also annotates each breakdown line with its source.
+ */
+export type Verbosity = 'minimal' | 'summary' | 'full' | 'explain';
+
 export interface MaxCognitiveOptions {
   max?: number;
+  verbosity?: Verbosity;
   enableExtraction?: boolean;
   extractionMultiplier?: number;
   minExtractionPercentage?: number;
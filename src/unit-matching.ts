@@ -0,0 +1,78 @@
+import type { FunctionAnalysis } from './standalone/index.js';
+import { withoutLineNumbers } from './utils.js';
+
+/** The parts of an analyzed unit used to follow it across a change */
+export type MatchableUnit = Pick<FunctionAnalysis, 'name' | 'loc'>;
+
+export type UnitPair<T> = [before: T | null, after: T | null];
+
+/** `Foo.bar > map callback` → `map callback`, to follow functions moved between scopes */
+function localName(name: string): string {
+  return (
+    withoutLineNumbers(name)
+      .split(/ > |\./)
+      .at(-1) ?? name
+  );
+}
+
+/** Tried in order, from the most to the least specific */
+const MATCH_KEYS: ReadonlyArray<(name: string) => string> = [
+  (name) => name,
+  withoutLineNumbers,
+  localName,
+];
+
+/**
+ * Pair units whose keys are equal, each with the closest one by start line.
+ * Paired units are removed from both lists.
+ */
+function pairBy<T>(
+  before: T[],
+  after: T[],
+  unitOf: (item: T) => MatchableUnit,
+  key: (name: string) => string,
+  pairs: UnitPair<T>[]
+): void {
+  const lineOf = (item: T) => unitOf(item).loc.start.line;
+  const keyOf = (item: T) => key(unitOf(item).name);
+
+  for (let i = 0; i < after.length; ) {
+    const candidate = after[i];
+    const line = lineOf(candidate);
+    const matches = before.filter((item) => keyOf(item) === keyOf(candidate));
+    if (matches.length === 0) {
+      i++;
+      continue;
+    }
+    const closest = matches.reduce((best, item) =>
+      Math.abs(lineOf(item) - line) < Math.abs(lineOf(best) - line) ? item : best
+    );
+    before.splice(before.indexOf(closest), 1);
+    after.splice(i, 1);
+    pairs.push([closest, candidate]);
+  }
+}
+
+/**
+ * Match the units of a file before and after a change: first by qualified
+ * name, then ignoring the line numbers in callback names, then by the name
+ * without its enclosing class or function. Among units with the same name,
+ * the closest by start line is chosen. Unmatched units are paired with `null`.
+ */
+export function matchUnits<T>(
+  before: readonly T[],
+  after: readonly T[],
+  unitOf: (item: T) => MatchableUnit
+): UnitPair<T>[] {
+  const pairs: UnitPair<T>[] = [];
+  const unmatchedBefore = [...before];
+  const unmatchedAfter = [...after];
+  for (const key of MATCH_KEYS) {
+    pairBy(unmatchedBefore, unmatchedAfter, unitOf, key, pairs);
+  }
+  return [
+    ...pairs,
+    ...unmatchedBefore.map((item): UnitPair<T> => [item, null]),
+    ...unmatchedAfter.map((item): UnitPair<T> => [null, item]),
+  ];
+}
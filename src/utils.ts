@@ -1,4 +1,10 @@
-import type { ESTreeNode, FunctionNode, ComplexityPoint } from './types.js';
+import type {
+  ESTreeNode,
+  FunctionNode,
+  ComplexityPoint,
+  ComplexityPointKind,
+  Verbosity,
+} from './types.js';
 
 /** Type-safe `includes` for readonly const arrays. */
 export function includes<T extends string>(array: readonly T[], value: string): value is T {
@@ -21,30 +27,35 @@ const DEFAULT_LOCATION = {
 } as const;
 
 /**
- * Extract the construct name from a complexity point message.
- * Messages follow the format: "+N: construct" or "+N (incl. M for nesting): construct"
+ * Build the display message for a point.
+ * Format: "+N: construct" or "+N (incl. M for nesting): construct"
  */
-export function extractConstructFromMessage(message: string): string {
-  const match = message.match(/:\s*(.+)$/);
-  return match ? match[1].trim() : 'unknown';
+export function formatPointMessage(
+  point: Pick<ComplexityPoint, 'complexity' | 'nestingLevel' | 'construct'>
+): string {
+  return point.nestingLevel > 0
+    ? `+${point.complexity} (incl. ${point.nestingLevel} for nesting): ${point.construct}`
+    : `+${point.complexity}: ${point.construct}`;
 }
 
 export function createComplexityPoint(
   node: ESTreeNode,
-  message: string,
+  construct: string,
   amount: number = DEFAULT_COMPLEXITY_INCREMENT,
-  nestingLevel: number = 0
+  nestingLevel: number = 0,
+  kind: ComplexityPointKind = 'flat'
 ): ComplexityPoint {
   const complexity = amount + nestingLevel;
-  const displayMessage =
-    nestingLevel > 0
-      ? `+${complexity} (incl. ${nestingLevel} for nesting): ${message}`
-      : `+${amount}: ${message}`;
 
   return {
     complexity,
+    increment: amount,
+    nestingLevel,
+    construct,
+    kind,
+    nodeType: node.type,
     location: node.loc ?? DEFAULT_LOCATION,
-    message: displayMessage,
+    message: formatPointMessage({ complexity, nestingLevel, construct }),
   };
 }
 
@@ -101,28 +112,232 @@ export function getFunctionName(node: FunctionNode, parent?: ESTreeNode): string
   return node.type === 'ArrowFunctionExpression' ? '<arrow>' : '<anonymous>';
 }
 
-export function summarizeComplexity(
+const FUNCTION_TYPES: ReadonlySet<string> = new Set([
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ArrowFunctionExpression',
+]);
+
+export function isFunctionNode(node: ESTreeNode): boolean {
+  return FUNCTION_TYPES.has(node.type);
+}
+
+/**
+ * Whether a node is analyzed as a unit of its own: functions, the module's
+ * top-level code, class `static { }` blocks and field initializers (fields
+ * initialized with a function are analyzed as that function instead).
+ */
+export function isAnalysisUnit(node: ESTreeNode): boolean {
+  if (isFunctionNode(node) || node.type === 'Program' || node.type === 'StaticBlock') return true;
+  if (node.type !== 'PropertyDefinition' || !node.value) return false;
+  return !isFunctionNode(node.value);
+}
+
+/** Dotted path of a member chain such as `arr`, `api.users` or `this.items`. */
+function getMemberPath(node: ESTreeNode): string | null {
+  switch (node.type) {
+    case 'Identifier':
+      return node.name;
+    case 'ThisExpression':
+      return 'this';
+    case 'MemberExpression': {
+      if (node.computed || node.property.type !== 'Identifier') return null;
+      const object = getMemberPath(node.object);
+      return object ? `${object}.${node.property.name}` : node.property.name;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Display name of a property, method or field key. */
+function getKeyName(member: { key: ESTreeNode; computed: boolean }): string {
+  const { key } = member;
+  if (member.computed) {
+    const path = getMemberPath(key);
+    return path ? `[${path}]` : '<computed>';
+  }
+  if (key.type === 'Identifier') return key.name;
+  if (key.type === 'PrivateIdentifier') return `#${key.name}`;
+  if (key.type === 'Literal') return String(key.value);
+  return '<computed>';
+}
+
+/** Name of the class owning a `ClassBody`, or `<class>` if it has none. */
+export function getClassName(classBody: ESTreeNode | null | undefined): string {
+  const classNode = classBody?.parent;
+  if (!classNode) return '<class>';
+  return getNestedName(classNode, 'id') ?? getBindingName(classNode) ?? '<class>';
+}
+
+/** `api.users` for the `users` property of `const api = {...}`. */
+function getPropertyBindingName(
+  property: ESTreeNode & { key: ESTreeNode; computed: boolean }
+): string {
+  const object = property.parent ? getBindingName(property.parent) : null;
+  const key = getKeyName(property);
+  return object ? `${object}.${key}` : key;
+}
+
+/**
+ * Name an expression is stored under, built from its ancestry: `api` for
+ * `const api = {...}`, `api.users.get` for a method in a nested object
+ * literal, `Foo.bar` for class members, `module.exports` for assignments
+ * and `default export`.
+ */
+function getBindingName(node: ESTreeNode): string | null {
+  const parent = node.parent;
+  if (!parent) return null;
+
+  switch (parent.type) {
+    case 'VariableDeclarator':
+      return getNestedName(parent, 'id');
+    case 'AssignmentExpression':
+      return parent.right === node ? getMemberPath(parent.left) : null;
+    case 'ExportDefaultDeclaration':
+      return 'default export';
+    case 'Property':
+      return parent.value === node ? getPropertyBindingName(parent) : null;
+    case 'MethodDefinition':
+    case 'PropertyDefinition':
+      return `${getClassName(parent.parent)}.${getKeyName(parent)}`;
+    default:
+      return null;
+  }
+}
+
+function getJsxHandlerName(container: ESTreeNode): string | null {
+  const attribute = container.parent;
+  if (attribute?.type !== 'JSXAttribute') return null;
+  const { name } = attribute;
+  return `${name.type === 'JSXIdentifier' ? name.name : name.name.name} callback`;
+}
+
+/**
+ * Name of a function passed to a call or JSX attribute: `onChange callback`
+ * for `const onChange = useCallback(() => {})` or `onChange={() => {}}`,
+ * otherwise the callee and line, e.g. `arr.map callback (line 42)`.
+ */
+function getCallbackName(node: ESTreeNode): string | null {
+  const parent = node.parent;
+  if (parent?.type === 'JSXExpressionContainer') return getJsxHandlerName(parent);
+  if (parent?.type !== 'CallExpression' && parent?.type !== 'NewExpression') return null;
+  if (!parent.arguments.includes(node as (typeof parent.arguments)[number])) return null;
+
+  const binding = parent.callee.type === 'Identifier' ? getBindingName(parent) : null;
+  if (binding) return `${binding} callback`;
+  const callee = getMemberPath(parent.callee) ?? '<call>';
+  return `${callee} callback (line ${node.loc?.start.line ?? 0})`;
+}
+
+function getFunctionExpressionName(node: ESTreeNode): string {
+  return (
+    getBindingName(node) ??
+    getNestedName(node, 'id') ??
+    getCallbackName(node) ??
+    (node.type === 'ArrowFunctionExpression' ? '<arrow>' : '<anonymous>')
+  );
+}
+
+function getLocalUnitName(node: ESTreeNode): string {
+  switch (node.type) {
+    case 'Program':
+      return '<module>';
+    case 'StaticBlock':
+      return `${getClassName(node.parent)}.<static>`;
+    case 'PropertyDefinition':
+      return `${getClassName(node.parent)}.${getKeyName(node)}`;
+    case 'FunctionDeclaration':
+      return node.id?.name ?? getBindingName(node) ?? '<anonymous>';
+    default:
+      return getFunctionExpressionName(node);
+  }
+}
+
+/** Closest analysis unit containing a node, other than the module. */
+function getEnclosingUnit(node: ESTreeNode): ESTreeNode | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'Program') return null;
+    if (isAnalysisUnit(current)) return current;
+  }
+  return null;
+}
+
+/**
+ * Qualified display name of an analysis unit, used in messages and results:
+ * `OrderService.handle`, `api.users.get`, `default export`,
+ * `useCart > onChange callback`, `<module>`, `Foo.<static>` or `Foo.field`.
+ * Units nested in another unit are prefixed with its name and ` > `.
+ */
+export function getUnitName(node: ESTreeNode): string {
+  const name = getLocalUnitName(node);
+  const enclosing = getEnclosingUnit(node);
+  return enclosing ? `${getUnitName(enclosing)} > ${name}` : name;
+}
+
+/** `items.map callback (line 3)` → `items.map callback` */
+export function withoutLineNumbers(name: string): string {
+  return name.replace(/ \(line \d+\)/g, '');
+}
+
+/**
+ * Identity of a unit that survives code moving around, for matching results
+ * across edits (baselines, SARIF fingerprints). Called with each unit name of
+ * one file in analysis order: line numbers are dropped from callback names,
+ * and callbacks that end up sharing a name are told apart by an ordinal,
+ * `items.map callback #2`.
+ */
+export function createUnitKeyer(): (name: string) => string {
+  const seen = new Map<string, number>();
+  return (name) => {
+    const key = withoutLineNumbers(name);
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return key === name || count === 1 ? key : `${key} #${count}`;
+  };
+}
+
+/** Keys of one file's unit names, in analysis order (see `createUnitKeyer`) */
+export function getUnitKeys(names: readonly string[]): string[] {
+  return names.map(createUnitKeyer());
+}
+
+export interface ComplexityCategory {
+  category: string;
+  complexity: number;
+}
+
+/** The three constructs (or normalized categories) that add the most complexity */
+export function getTopCategories(
   points: ComplexityPoint[],
   normalizeCategory?: (category: string) => string
-): string {
+): ComplexityCategory[] {
   const categories: Record<string, number> = {};
 
   for (const point of points) {
-    let category = extractConstructFromMessage(point.message);
-    if (category === 'unknown') continue;
+    let category = point.construct;
     if (normalizeCategory) {
       category = normalizeCategory(category);
     }
     categories[category] = (categories[category] || 0) + point.complexity;
   }
 
-  const sorted = Object.entries(categories)
+  return Object.entries(categories)
     .toSorted((a, b) => b[1] - a[1])
-    .slice(0, 3);
+    .slice(0, 3)
+    .map(([category, complexity]) => ({ category, complexity }));
+}
 
-  if (sorted.length === 0) return '';
+export function summarizeComplexity(
+  points: ComplexityPoint[],
+  normalizeCategory?: (category: string) => string
+): string {
+  const top = getTopCategories(points, normalizeCategory);
+  if (top.length === 0) return '';
 
-  return ' [' + sorted.map(([cat, count]) => `${cat}: +${count}`).join(', ') + ']';
+  return (
+    ' [' + top.map(({ category, complexity }) => `${category}: +${complexity}`).join(', ') + ']'
+  );
 }
 
 const DEFAULT_NESTING_TIP_THRESHOLD = 3;
@@ -132,7 +347,18 @@ const DEFAULT_LOGICAL_OPERATOR_THRESHOLD = 3;
 const NESTING_TIP =
   '    ↳ Tip: Extract inner loops into helper functions - each extraction removes one nesting level';
 
+export const VERBOSITY_LEVELS: readonly Verbosity[] = ['minimal', 'summary', 'full', 'explain'];
+
+/** Whether reports at this verbosity include the breakdown and extraction details */
+export function showsDetails(verbosity: Verbosity = 'full'): boolean {
+  return verbosity === 'full' || verbosity === 'explain';
+}
+
 export interface BreakdownOptions {
+  /** `minimal` and `summary` omit the breakdown, `explain` annotates it with source (default: 'full') */
+  verbosity?: Verbosity;
+  /** Source lines of the file, used by `explain` */
+  sourceLines?: readonly string[];
   /** Minimum nesting level to show extraction tip (default: 3, set to 0 to disable) */
   nestingTipThreshold?: number;
   /** Minimum else-if count to show chain tip (default: 4, set to 0 to disable) */
@@ -150,9 +376,7 @@ function countPatterns(points: ComplexityPoint[]): PatternCounts {
   let elseIfCount = 0;
   let logicalOperatorCount = 0;
 
-  for (const point of points) {
-    const construct = extractConstructFromMessage(point.message);
-
+  for (const { construct } of points) {
     if (construct === 'else if') {
       elseIfCount++;
     } else if (construct.startsWith('logical operator')) {
@@ -184,19 +408,33 @@ function generatePatternTips(counts: PatternCounts, options: BreakdownOptions):
   return tips;
 }
 
-export function formatBreakdown(points: ComplexityPoint[], options?: BreakdownOptions): string {
-  if (points.length === 0) return '';
+/**
+ * The source line of a point with a caret under where it starts:
+ *
+ *       12 |     if (item.active) {
+ *          |     ^
+ */
+function formatSourceSnippet(point: ComplexityPoint, sourceLines: readonly string[]): string {
+  const { line, column } = point.location.start;
+  const text = sourceLines[line - 1];
+  if (text === undefined) return '';
+  const gutter = String(line);
+  // Keeps tabs so the caret lines up with the code above it
+  const indent = text.slice(0, column).replace(/\S/g, ' ');
+  return `\n      ${gutter} | ${text.trimEnd()}\n      ${' '.repeat(gutter.length)} | ${indent}^`;
+}
 
+export function formatBreakdown(points: ComplexityPoint[], options?: BreakdownOptions): string {
   const opts = options ?? {};
+  if (points.length === 0 || !showsDetails(opts.verbosity)) return '';
+
+  const sourceLines = opts.verbosity === 'explain' ? opts.sourceLines : undefined;
   const nestingTipThreshold = opts.nestingTipThreshold ?? DEFAULT_NESTING_TIP_THRESHOLD;
   const sorted = points.toSorted((a, b) => a.location.start.line - b.location.start.line);
   const maxComplexity = Math.max(...sorted.map((p) => p.complexity));
 
   const lines = sorted.map((point) => {
-    const construct = extractConstructFromMessage(point.message);
-
-    const nestingMatch = point.message.match(/\(incl\.\s*(\d+)\s*for nesting\)/);
-    const nestingLevel = nestingMatch ? parseInt(nestingMatch[1], 10) : 0;
+    const { construct, nestingLevel } = point;
     const nestingInfo = nestingLevel > 0 ? ` (incl. +${nestingLevel} nesting)` : '';
 
     const isTopOffender = point.complexity === maxComplexity;
@@ -204,7 +442,8 @@ export function formatBreakdown(points: ComplexityPoint[], options?: BreakdownOp
     const prefix = isTopOffender ? '>>>' : '   ';
     const suffix = isTopOffender ? ' [top offender]' : '';
 
-    const line = `${prefix} Line ${point.location.start.line}: +${point.complexity} for '${construct}'${nestingInfo}${suffix}`;
+    const snippet = sourceLines ? formatSourceSnippet(point, sourceLines) : '';
+    const line = `${prefix} Line ${point.location.start.line}: +${point.complexity} for '${construct}'${nestingInfo}${suffix}${snippet}`;
 
     if (isTopOffender && nestingTipThreshold > 0 && nestingLevel >= nestingTipThreshold) {
       return `${line}\n${NESTING_TIP}`;
@@ -5,7 +5,7 @@ import type {
   ComplexityResult,
   FunctionNode,
 } from './types.js';
-import { getFunctionName, createComplexityPoint } from './utils.js';
+import { getFunctionName, createComplexityPoint, isAnalysisUnit, isFunctionNode } from './utils.js';
 
 interface VisitorConfig<T extends FunctionScope> {
   createScope: (node: ESTreeNode, name: string | null) => T;
@@ -23,6 +23,9 @@ export interface VisitorContext<T extends FunctionScope> {
 /**
  * Create a complexity visitor with shared scope management.
  *
+ * Every analysis unit gets its own scope: functions, plus the module's
+ * top-level code, static blocks and field initializers (see `isAnalysisUnit`).
+ *
  * @param config - Configuration with scope factory and callbacks
  * @returns Context utilities and base visitor for function enter/exit
  */
@@ -49,8 +52,11 @@ export function createComplexityVisitor<T extends FunctionScope>(
   };
 
   function enterFunction(node: ESTreeNode): void {
-    const funcNode = node as FunctionNode;
-    const name = getFunctionName(funcNode, node.parent ?? undefined);
+    if (!isAnalysisUnit(node)) return;
+    // Module code, static blocks and field initializers have no name to recurse on
+    const name = isFunctionNode(node)
+      ? getFunctionName(node as FunctionNode, node.parent ?? undefined)
+      : null;
     const parentScope = getCurrentScope();
     const scope = config.createScope(node, name);
 
@@ -59,6 +65,7 @@ export function createComplexityVisitor<T extends FunctionScope>(
   }
 
   function exitFunction(node: ESTreeNode): void {
+    if (!isAnalysisUnit(node)) return;
     const scope = scopeStack.pop();
     if (!scope) return;
 
@@ -75,6 +82,12 @@ export function createComplexityVisitor<T extends FunctionScope>(
     'FunctionDeclaration:exit': exitFunction,
     'FunctionExpression:exit': exitFunction,
     'ArrowFunctionExpression:exit': exitFunction,
+    Program: enterFunction,
+    StaticBlock: enterFunction,
+    PropertyDefinition: enterFunction,
+    'Program:exit': exitFunction,
+    'StaticBlock:exit': exitFunction,
+    'PropertyDefinition:exit': exitFunction,
   };
 
   return { context, baseVisitor };
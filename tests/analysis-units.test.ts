@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { complexity } from '#src/rules/complexity.js';
+import { analyzeSource } from '#src/standalone/index.js';
+import { runRule } from './utils/rule-runner';
+
+const CODE = `const env = process.env.NODE_ENV || 'development';
+if (env === 'production') {
+  for (const key of Object.keys(overrides)) {
+    if (overrides[key]) config[key] = overrides[key];
+  }
+}
+
+class Registry {
+  static instance;
+  static {
+    if (globalThis.registry) {
+      Registry.instance = globalThis.registry;
+    } else {
+      Registry.instance = new Registry();
+    }
+  }
+  limit = env === 'test' ? 1 : 10;
+  handlers = [];
+  onChange = (value) => (value ? this.notify(value) : null);
+}
+
+function setup(options) {
+  if (options) return options;
+  return {};
+}`;
+
+function scores(code: string) {
+  return analyzeSource(code, 'test.js').functions.map((fn) => [
+    fn.name,
+    fn.cyclomatic,
+    fn.cognitive,
+  ]);
+}
+
+describe('analysis units', () => {
+  it('analyzes module code, static blocks and field initializers', () => {
+    expect(scores(CODE)).toEqual([
+      ['Registry.<static>', 2, 2],
+      ['Registry.limit', 2, 1],
+      ['Registry.handlers', 1, 0],
+      ['Registry.onChange', 2, 1],
+      ['setup', 2, 1],
+      ['<module>', 5, 6],
+    ]);
+  });
+
+  it('keeps complexity inside functions out of the module unit', () => {
+    const [fn, module] = analyzeSource('function f(a) { if (a) g(); }', 'test.js').functions;
+    expect([fn.cyclomatic, module.name, module.cyclomatic, module.cognitive]).toEqual([
+      2,
+      '<module>',
+      1,
+      0,
+    ]);
+  });
+
+  it('does not count top-level functions as nested', () => {
+    const code = 'class A { static { items.forEach((item) => { if (item) use(item); }); } }';
+    const [callback, block] = analyzeSource(code, 'test.js').functions;
+
+    expect(callback.cognitive).toBe(1);
+    expect(block.cognitivePoints).toEqual([]);
+  });
+
+  it('names units of anonymous classes', () => {
+    const code = 'export default class { static { if (a) b(); } }';
+    expect(analyzeSource(code, 'test.js').functions[0].name).toBe('default export.<static>');
+  });
+
+  it('applies the rule thresholds to each unit', () => {
+    const messages = runRule(complexity, CODE, { cognitive: 1, minLines: 0 }).map(
+      (d) => /^Function '[^']+' has Cognitive Complexity of \d+/.exec(d.message)?.[0]
+    );
+
+    expect(messages).toEqual([
+      "Function 'Registry.<static>' has Cognitive Complexity of 2",
+      "Function '<module>' has Cognitive Complexity of 6",
+    ]);
+  });
+});
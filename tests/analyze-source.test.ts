@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { loadFixture } from './utils/fixture-loader';
+import { calculateCombinedComplexity } from './utils/test-helpers';
+import { analyzeSource } from '#src/standalone/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, 'fixtures');
+
+describe('analyzeSource', () => {
+  it('matches the combined visitor for every named function', () => {
+    const fixture = loadFixture(join(fixturesDir, 'js/multiple-functions.js'), fixturesDir);
+    const { functions } = analyzeSource(fixture.code, 'test.js');
+    const expected = calculateCombinedComplexity(fixture.code, 'test.js');
+
+    for (const fn of functions) {
+      expect(fn.cyclomatic).toBe(expected.cyclomatic.get(fn.name)?.total);
+      expect(fn.cognitive).toBe(expected.cognitive.get(fn.name)?.total);
+    }
+    expect(functions.map((fn) => fn.name).sort()).toEqual(
+      Array.from(expected.cyclomatic.keys()).sort()
+    );
+  });
+
+  it('reports the location and points of each function', () => {
+    const code = ['function check(a) {', '  if (a) return 1;', '  return 0;', '}'].join('\n');
+    const [fn] = analyzeSource(code, 'test.js').functions;
+
+    expect(fn.name).toBe('check');
+    expect(fn.loc.start.line).toBe(1);
+    expect(fn.loc.end.line).toBe(4);
+    expect(fn.cyclomaticPoints.map((p) => p.construct)).toEqual(['if']);
+    expect(fn.cognitivePoints[0].location.start.line).toBe(2);
+  });
+
+  it('parses TSX based on the filename', () => {
+    const code = `
+      export function List({ items }: { items: string[] }) {
+        return <ul>{items.length > 0 ? items.map((i) => <li>{i}</li>) : null}</ul>;
+      }
+    `;
+    const names = analyzeSource(code, 'list.tsx').functions.map((fn) => fn.name);
+    expect(names).toContain('List');
+  });
+
+  it('uses real source text for self-assignment default values', () => {
+    const code = `
+      function defaults(a, b) {
+        a = a || [];
+        b = a || [];
+      }
+    `;
+    const [fn] = analyzeSource(code, 'test.js').functions;
+    // `a = a || []` is a default value pattern; `b = a || []` is not
+    expect(fn.cognitive).toBe(1);
+  });
+
+  it('computes extraction suggestions above the extraction threshold', () => {
+    const fixture = loadFixture(join(fixturesDir, 'js/extraction-candidate.js'), fixturesDir);
+    const fn = analyzeSource(fixture.code, 'test.js', { cognitive: 10 }).functions.find(
+      (f) => f.name === 'processOrder'
+    )!;
+
+    expect(fn.cognitive).toBe(20);
+    expect(fn.extractionSuggestions.length).toBeGreaterThan(0);
+  });
+
+  it('skips extraction analysis below the threshold or when disabled', () => {
+    const fixture = loadFixture(join(fixturesDir, 'js/extraction-candidate.js'), fixturesDir);
+    const find = (options: Parameters<typeof analyzeSource>[2]) =>
+      analyzeSource(fixture.code, 'test.js', options).functions.find(
+        (f) => f.name === 'processOrder'
+      )!;
+
+    expect(find({}).extractionSuggestions).toEqual([]);
+    expect(find({ cognitive: 10, enableExtraction: false }).extractionSuggestions).toEqual([]);
+  });
+
+  it('throws on parse errors', () => {
+    expect(() => analyzeSource('function (', 'broken.js')).toThrow(/Parse errors in "broken.js"/);
+  });
+});
+
+describe('entry points', () => {
+  it('keeps the standalone API out of the plugin entry', async () => {
+    const plugin = await import('#src/index.js');
+    const standalone = await import('#src/standalone/index.js');
+
+    expect(plugin).not.toHaveProperty('analyzeSource');
+    expect(plugin).not.toHaveProperty('createSarifLog');
+    expect(standalone).toHaveProperty('analyzeSource');
+    expect(standalone).toHaveProperty('compareProjects');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createBaseline,
+  generateBaseline,
+  getBaselineScore,
+  loadBaseline,
+  parseBaselineEntries,
+  pruneBaseline,
+  serializeBaseline,
+  type BaselineEntry,
+} from '#src/baseline.js';
+import { complexity } from '#src/rules/complexity.js';
+import { runCli, type CliIO } from '#src/cli/index.js';
+import { analyzeProject, analyzeSource } from '#src/standalone/index.js';
+import { runRule } from './utils/rule-runner';
+
+const NESTED = `function nested(a, b, c) {
+  if (a) {
+    if (b) {
+      if (c) {
+        return 1;
+      }
+    }
+  }
+  return 0;
+}`;
+
+function entry(functionName: string, cyclomatic: number, cognitive: number): BaselineEntry {
+  return { file: 'src/a.ts', functionName, cyclomatic, cognitive };
+}
+
+describe('baseline entries', () => {
+  it('rejects malformed baseline JSON', () => {
+    expect(() => parseBaselineEntries({})).toThrow('expected an array of entries');
+    expect(() => parseBaselineEntries([{ file: 'a.ts' }])).toThrow('entry 0 must have');
+  });
+
+  it('keeps the highest scores for functions sharing a name', () => {
+    const baseline = createBaseline([entry('<arrow>', 3, 9), entry('<arrow>', 5, 4)]);
+
+    expect(getBaselineScore(baseline, 'src/a.ts', '<arrow>', 'cyclomatic')).toBe(5);
+    expect(getBaselineScore(baseline, 'src/a.ts', '<arrow>', 'cognitive')).toBe(9);
+    expect(getBaselineScore(baseline, 'src/b.ts', '<arrow>', 'cognitive')).toBeUndefined();
+  });
+
+  it('prunes fixed functions and lowers improved scores', () => {
+    const previous = [entry('fixed', 12, 20), entry('improved', 12, 20), entry('worse', 12, 20)];
+    const current = [entry('improved', 11, 16), entry('worse', 14, 25)];
+
+    expect(pruneBaseline(previous, current)).toEqual([
+      entry('improved', 11, 16),
+      entry('worse', 12, 20),
+    ]);
+  });
+
+  it('keeps entries outside the analyzed scope', () => {
+    const other = { ...entry('legacy', 30, 40), file: 'lib/old.ts' };
+    const pruned = pruneBaseline([other, entry('fixed', 12, 20)], [], (file) =>
+      file.startsWith('src/')
+    );
+
+    expect(pruned).toEqual([other]);
+  });
+});
+
+describe('baseline option', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complexity-baseline-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function lint(baseline: BaselineEntry[], code = NESTED) {
+    writeFileSync(join(dir, 'baseline.json'), serializeBaseline(baseline));
+    return runRule(
+      complexity,
+      code,
+      { cognitive: 3, minLines: 0, baseline: 'baseline.json' },
+      join(dir, 'src/a.js'),
+      dir
+    );
+  }
+
+  it('suppresses baselined violations', () => {
+    const diagnostics = lint([{ ...entry('nested', 4, 6), file: 'src/a.js' }]);
+    expect(diagnostics).toHaveLength(0);
+  });
+
+  it('reports baselined functions whose score increased', () => {
+    const diagnostics = lint([{ ...entry('nested', 4, 5), file: 'src/a.js' }]);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toContain('Cognitive Complexity of 6');
+    expect(diagnostics[0].message).toContain('Baseline is 5.');
+  });
+
+  it('reports functions missing from the baseline', () => {
+    const diagnostics = lint([{ ...entry('nested', 4, 6), file: 'src/other.js' }]);
+    expect(diagnostics).toHaveLength(1);
+  });
+
+  it('explains a missing baseline file', () => {
+    expect(() => loadBaseline(join(dir, 'missing.json'))).toThrow(
+      /^Cannot read complexity baseline ".*missing\.json": ENOENT/
+    );
+  });
+
+  describe('callbacks', () => {
+    const CALLBACKS = `items.forEach((a) => {
+  if (a) { if (a.b) { if (a.c) { log(a); } } }
+});
+items.forEach((a) => {
+  if (a) { if (a.b) { if (a.c) { if (a.d) { log(a); } } } }
+});`;
+
+    function generate(code: string): BaselineEntry[] {
+      const file = { ...analyzeSource(code, 'src/a.js'), filename: 'src/a.js' };
+      return generateBaseline(
+        { root: dir, files: [file], errors: [] },
+        { cyclomatic: 20, cognitive: 3, minLines: 0 }
+      );
+    }
+
+    it('records callbacks without their line, numbering repeats', () => {
+      expect(generate(CALLBACKS).map((e) => e.functionName)).toEqual([
+        'items.forEach callback',
+        'items.forEach callback #2',
+      ]);
+    });
+
+    it('keeps suppressing callbacks after lines shift', () => {
+      const baseline = generate(CALLBACKS);
+      expect(lint(baseline, CALLBACKS)).toHaveLength(0);
+      expect(lint(baseline, `\n${CALLBACKS}`)).toHaveLength(0);
+    });
+
+    it('matches entries recorded with line numbers', () => {
+      const first = CALLBACKS.split('\n').slice(0, 3).join('\n');
+      const baseline = [{ ...entry('items.forEach callback (line 1)', 4, 6), file: 'src/a.js' }];
+      expect(lint(baseline, `\n${first}`)).toHaveLength(0);
+    });
+  });
+});
+
+describe('baseline command', () => {
+  let dir: string;
+  let stdout: string;
+  let io: CliIO;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complexity-baseline-'));
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src/a.js'), NESTED);
+    stdout = '';
+    io = { stdout: (text) => (stdout += text), stderr: () => {}, cwd: dir };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readBaseline = () =>
+    JSON.parse(readFileSync(join(dir, 'complexity-baseline.json'), 'utf-8')) as BaselineEntry[];
+
+  it('generates entries for functions over the thresholds', () => {
+    const code = runCli(['baseline', 'generate', '--cognitive', '3', '--min-lines', '0'], io);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Wrote 1 entries');
+    expect(readBaseline()).toEqual([
+      { file: 'src/a.js', functionName: 'nested', cyclomatic: 4, cognitive: 6 },
+    ]);
+  });
+
+  it('prunes entries once functions pass', () => {
+    runCli(['baseline', 'generate', '--cognitive', '3', '--min-lines', '0'], io);
+    writeFileSync(join(dir, 'src/a.js'), 'function nested(a) { return a; }');
+
+    expect(runCli(['baseline', 'prune', '--cognitive', '3', '--min-lines', '0'], io)).toBe(0);
+    expect(readBaseline()).toEqual([]);
+  });
+
+  it('generates entries from a project analysis', () => {
+    const project = analyzeProject(['.'], { root: dir });
+    const entries = generateBaseline(project, { cyclomatic: 20, cognitive: 3, minLines: 0 });
+    expect(entries.map((e) => e.functionName)).toEqual(['nested']);
+  });
+
+  it('requires an action', () => {
+    let stderr = '';
+    const code = runCli(['baseline'], { ...io, stderr: (text) => (stderr += text) });
+
+    expect(code).toBe(2);
+    expect(stderr).toContain('Expected "generate" or "prune"');
+  });
+});
@@ -2,12 +2,27 @@ import { describe, it, expect } from 'vitest';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import { loadFixture } from './utils/fixture-loader';
-import { calculateCognitiveComplexity } from './utils/test-helpers';
-import { formatBreakdown } from '#src/utils.js';
+import { calculateCognitiveComplexity, calculateCombinedComplexity } from './utils/test-helpers';
+import { formatBreakdown, createComplexityPoint, formatPointMessage } from '#src/utils.js';
+import type { ComplexityPoint, ESTreeNode } from '#src/types.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const fixturesDir = join(__dirname, 'fixtures');
 
+function makePoint(line: number, construct: string, nestingLevel = 0, column = 0): ComplexityPoint {
+  const node = {
+    type: 'IfStatement',
+    loc: { start: { line, column }, end: { line, column: column + 10 } },
+  } as ESTreeNode;
+  return createComplexityPoint(
+    node,
+    construct,
+    1,
+    nestingLevel,
+    nestingLevel > 0 ? 'structural' : 'flat'
+  );
+}
+
 describe('formatBreakdown', () => {
   describe('output format', () => {
     const fixture = loadFixture(join(fixturesDir, 'js/nested-if-in-for.js'), fixturesDir);
@@ -71,18 +86,7 @@ describe('formatBreakdown', () => {
 
     it('does NOT show tip for cyclomatic complexity (no nesting info)', () => {
       // Cyclomatic points don't have nesting info, so tip should never appear
-      const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+1: for',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
-          message: '+1: if',
-        },
-      ];
+      const points = [makePoint(1, 'for'), makePoint(2, 'if')];
       const breakdown = formatBreakdown(points);
 
       expect(breakdown).not.toContain('↳ Tip:');
@@ -90,13 +94,7 @@ describe('formatBreakdown', () => {
 
     it('respects custom nestingTipThreshold', () => {
       // Point with nesting=3 (would show tip with default threshold of 3)
-      const points = [
-        {
-          complexity: 4,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+4 (incl. 3 for nesting): if',
-        },
-      ];
+      const points = [makePoint(1, 'if', 3)];
 
       // With threshold=4, nesting=3 should NOT show tip
       const breakdownHighThreshold = formatBreakdown(points, { nestingTipThreshold: 4 });
@@ -109,13 +107,7 @@ describe('formatBreakdown', () => {
 
     it('disables tip when nestingTipThreshold is 0', () => {
       // Point with high nesting that would normally show tip
-      const points = [
-        {
-          complexity: 5,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+5 (incl. 4 for nesting): if',
-        },
-      ];
+      const points = [makePoint(1, 'if', 4)];
 
       const breakdown = formatBreakdown(points, { nestingTipThreshold: 0 });
       expect(breakdown).not.toContain('↳ Tip:');
@@ -146,34 +138,41 @@ describe('formatBreakdown', () => {
     });
   });
 
+  describe('verbosity', () => {
+    const points = [makePoint(2, 'for'), makePoint(3, 'if', 1, 4)];
+
+    it('omits the breakdown for minimal and summary', () => {
+      expect(formatBreakdown(points, { verbosity: 'minimal' })).toBe('');
+      expect(formatBreakdown(points, { verbosity: 'summary' })).toBe('');
+    });
+
+    it('annotates each line with its source for explain', () => {
+      const sourceLines = ['function f(items) {', '  for (const a of items) {', '\t\t  if (a) {'];
+      const breakdown = formatBreakdown(points, { verbosity: 'explain', sourceLines });
+
+      expect(breakdown.split('\n').slice(3)).toEqual([
+        "    Line 2: +1 for 'for'",
+        '      2 |   for (const a of items) {',
+        '        | ^',
+        ">>> Line 3: +2 for 'if' (incl. +1 nesting) [top offender]",
+        '      3 | \t\t  if (a) {',
+        '        | \t\t  ^',
+      ]);
+    });
+
+    it('shows the plain breakdown for explain without source', () => {
+      expect(formatBreakdown(points, { verbosity: 'explain' })).toBe(formatBreakdown(points));
+    });
+  });
+
   describe('else-if chain tip', () => {
     it('shows tip when else-if count meets default threshold (4)', () => {
       const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+1: if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 3, column: 0 }, end: { line: 3, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 4, column: 0 }, end: { line: 4, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 5, column: 0 }, end: { line: 5, column: 10 } },
-          message: '+1: else if',
-        },
+        makePoint(1, 'if'),
+        makePoint(2, 'else if'),
+        makePoint(3, 'else if'),
+        makePoint(4, 'else if'),
+        makePoint(5, 'else if'),
       ];
       const breakdown = formatBreakdown(points);
 
@@ -184,26 +183,10 @@ describe('formatBreakdown', () => {
 
     it('does NOT show tip when else-if count is below threshold', () => {
       const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+1: if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 3, column: 0 }, end: { line: 3, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 4, column: 0 }, end: { line: 4, column: 10 } },
-          message: '+1: else if',
-        },
+        makePoint(1, 'if'),
+        makePoint(2, 'else if'),
+        makePoint(3, 'else if'),
+        makePoint(4, 'else if'),
       ];
       const breakdown = formatBreakdown(points);
 
@@ -212,23 +195,7 @@ describe('formatBreakdown', () => {
     });
 
     it('respects custom elseIfChainThreshold', () => {
-      const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+1: if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 3, column: 0 }, end: { line: 3, column: 10 } },
-          message: '+1: else if',
-        },
-      ];
+      const points = [makePoint(1, 'if'), makePoint(2, 'else if'), makePoint(3, 'else if')];
 
       // With threshold=2, should show tip
       const breakdownLowThreshold = formatBreakdown(points, { elseIfChainThreshold: 2 });
@@ -241,31 +208,11 @@ describe('formatBreakdown', () => {
 
     it('disables tip when elseIfChainThreshold is 0', () => {
       const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+1: if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 3, column: 0 }, end: { line: 3, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 4, column: 0 }, end: { line: 4, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 5, column: 0 }, end: { line: 5, column: 10 } },
-          message: '+1: else if',
-        },
+        makePoint(1, 'if'),
+        makePoint(2, 'else if'),
+        makePoint(3, 'else if'),
+        makePoint(4, 'else if'),
+        makePoint(5, 'else if'),
       ];
       const breakdown = formatBreakdown(points, { elseIfChainThreshold: 0 });
 
@@ -276,21 +223,9 @@ describe('formatBreakdown', () => {
   describe('logical operator tip', () => {
     it('shows tip when logical operator count meets default threshold (3)', () => {
       const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: "+1: logical operator '&&'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 10 }, end: { line: 1, column: 20 } },
-          message: "+1: logical operator '||'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 20 }, end: { line: 1, column: 30 } },
-          message: "+1: logical operator '&&'",
-        },
+        makePoint(1, "logical operator '&&'"),
+        makePoint(1, "logical operator '||'", 0, 10),
+        makePoint(1, "logical operator '&&'", 0, 20),
       ];
       const breakdown = formatBreakdown(points);
 
@@ -301,16 +236,8 @@ describe('formatBreakdown', () => {
 
     it('does NOT show tip when logical operator count is below threshold', () => {
       const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: "+1: logical operator '&&'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 10 }, end: { line: 1, column: 20 } },
-          message: "+1: logical operator '||'",
-        },
+        makePoint(1, "logical operator '&&'"),
+        makePoint(1, "logical operator '||'", 0, 10),
       ];
       const breakdown = formatBreakdown(points);
 
@@ -320,16 +247,8 @@ describe('formatBreakdown', () => {
 
     it('respects custom logicalOperatorThreshold', () => {
       const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: "+1: logical operator '&&'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 10 }, end: { line: 1, column: 20 } },
-          message: "+1: logical operator '||'",
-        },
+        makePoint(1, "logical operator '&&'"),
+        makePoint(1, "logical operator '||'", 0, 10),
       ];
 
       // With threshold=2, should show tip
@@ -343,21 +262,9 @@ describe('formatBreakdown', () => {
 
     it('disables tip when logicalOperatorThreshold is 0', () => {
       const points = [
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: "+1: logical operator '&&'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 10 }, end: { line: 1, column: 20 } },
-          message: "+1: logical operator '||'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 20 }, end: { line: 1, column: 30 } },
-          message: "+1: logical operator '&&'",
-        },
+        makePoint(1, "logical operator '&&'"),
+        makePoint(1, "logical operator '||'", 0, 10),
+        makePoint(1, "logical operator '&&'", 0, 20),
       ];
       const breakdown = formatBreakdown(points, { logicalOperatorThreshold: 0 });
 
@@ -369,42 +276,14 @@ describe('formatBreakdown', () => {
     it('shows both tips when both patterns are detected', () => {
       const points = [
         // else-if chain (4 branches)
-        {
-          complexity: 1,
-          location: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 3, column: 0 }, end: { line: 3, column: 10 } },
-          message: '+1: else if',
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 4, column: 0 }, end: { line: 4, column: 10 } },
-          message: '+1: else if',
-        },
+        makePoint(1, 'else if'),
+        makePoint(2, 'else if'),
+        makePoint(3, 'else if'),
+        makePoint(4, 'else if'),
         // logical operators (3 sequences)
-        {
-          complexity: 1,
-          location: { start: { line: 5, column: 0 }, end: { line: 5, column: 10 } },
-          message: "+1: logical operator '&&'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 5, column: 10 }, end: { line: 5, column: 20 } },
-          message: "+1: logical operator '||'",
-        },
-        {
-          complexity: 1,
-          location: { start: { line: 5, column: 20 }, end: { line: 5, column: 30 } },
-          message: "+1: logical operator '&&'",
-        },
+        makePoint(5, "logical operator '&&'"),
+        makePoint(5, "logical operator '||'", 0, 10),
+        makePoint(5, "logical operator '&&'", 0, 20),
       ];
       const breakdown = formatBreakdown(points);
 
@@ -414,3 +293,49 @@ describe('formatBreakdown', () => {
     });
   });
 });
+
+describe('structured complexity points', () => {
+  const fixture = loadFixture(join(fixturesDir, 'js/nested-if-in-for.js'), fixturesDir);
+  const { cognitive, cyclomatic } = calculateCombinedComplexity(fixture.code, 'test.js');
+  const cognitivePoints = cognitive.get('nestedIfInFor')!.points;
+
+  it('exposes construct, kind, nesting level and increment', () => {
+    const nestedIf = cognitivePoints.find((p) => p.construct === 'if')!;
+    expect(nestedIf.kind).toBe('structural');
+    expect(nestedIf.nestingLevel).toBe(1);
+    expect(nestedIf.increment).toBe(1);
+    expect(nestedIf.complexity).toBe(2);
+    expect(nestedIf.nodeType).toBe('IfStatement');
+  });
+
+  it('derives the display message from the structured fields', () => {
+    for (const point of cognitivePoints) {
+      expect(point.message).toBe(formatPointMessage(point));
+    }
+    expect(cognitivePoints.find((p) => p.construct === 'if')!.message).toBe(
+      '+2 (incl. 1 for nesting): if'
+    );
+  });
+
+  it('marks cyclomatic decision points as flat', () => {
+    for (const point of cyclomatic.get('nestedIfInFor')!.points) {
+      expect(point.kind).toBe('flat');
+      expect(point.nestingLevel).toBe(0);
+    }
+  });
+
+  it('classifies nested function penalties and recursion', () => {
+    const code = `
+      function walk(node) {
+        const visit = () => node.children.forEach(walk);
+        if (node.next) walk(node.next);
+        return visit;
+      }
+    `;
+    const points = calculateCombinedComplexity(code, 'test.js').cognitive.get('walk')!.points;
+    expect(points.find((p) => p.construct === 'nested arrow function')?.kind).toBe(
+      'nesting-penalty'
+    );
+    expect(points.find((p) => p.construct === 'recursive call')?.kind).toBe('recursion');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { parseBudgetDirective } from '#src/budget.js';
+import { complexity } from '#src/rules/complexity.js';
+import { maxDepth } from '#src/rules/max-depth.js';
+import { runRule } from './utils/rule-runner';
+
+const BODY = `(a, b, c) {
+  if (a) {
+    if (b) {
+      if (c) {
+        return 1;
+      }
+    }
+  }
+  return 0;
+}`;
+
+function lint(code: string) {
+  return runRule(complexity, code, { cognitive: 3, minLines: 0 });
+}
+
+describe('parseBudgetDirective', () => {
+  it('parses thresholds and the reason', () => {
+    expect(
+      parseBudgetDirective(
+        ' complexity-budget cognitive=30 cyclomatic=25 -- tokenizer state machine'
+      )
+    ).toEqual({
+      thresholds: { cognitive: 30, cyclomatic: 25 },
+      reason: 'tokenizer state machine',
+    });
+  });
+
+  it('ignores other comments', () => {
+    expect(parseBudgetDirective(' complexity budgets are tracked elsewhere')).toBeNull();
+  });
+
+  it('rejects directives without a reason or with unknown metrics', () => {
+    expect(() => parseBudgetDirective(' complexity-budget cognitive=30')).toThrow(
+      'requires a reason'
+    );
+    expect(() => parseBudgetDirective(' complexity-budget cognitive=30 -- ')).toThrow(
+      'requires a reason'
+    );
+    expect(() => parseBudgetDirective(' complexity-budget lines=30 -- long')).toThrow(
+      'Unknown metric "lines"'
+    );
+    expect(() => parseBudgetDirective(' complexity-budget cognitive=high -- hard')).toThrow(
+      'non-negative integer'
+    );
+  });
+});
+
+describe('complexity-budget directive', () => {
+  it('raises the threshold for the function below it', () => {
+    const code = `// complexity-budget cognitive=6 -- mirrors the spec's decision table
+function nested${BODY}`;
+    expect(lint(code)).toEqual([]);
+  });
+
+  it('echoes the reason when the budget is exceeded', () => {
+    const code = `// complexity-budget cognitive=5 -- mirrors the spec's decision table
+function nested${BODY}`;
+    const [diagnostic] = lint(code);
+
+    expect(diagnostic.message).toContain(
+      "has Cognitive Complexity of 6. Maximum allowed is 5 (complexity-budget: mirrors the spec's decision table)."
+    );
+  });
+
+  it('applies to exported arrow functions and methods', () => {
+    const code = `/* complexity-budget cognitive=6 -- generated parser */
+export const parse = ${BODY.replace(') {', ') => {')};
+
+class Router {
+  // complexity-budget cognitive=6 -- routing table
+  match${BODY}
+}`;
+    expect(lint(code)).toEqual([]);
+  });
+
+  it('only applies to the function directly below', () => {
+    const code = `// complexity-budget cognitive=6 -- legacy
+
+const limit = 3;
+function nested${BODY}`;
+    expect(lint(code)).toHaveLength(1);
+  });
+
+  it('reports invalid directives and keeps the default threshold', () => {
+    const code = `// complexity-budget cognitive=6
+function nested${BODY}`;
+    const diagnostics = lint(code);
+
+    expect(diagnostics.map((d) => d.message.split('.')[0])).toEqual([
+      'Invalid complexity budget: "complexity-budget" requires a reason after "--"',
+      "Function 'nested' has Cognitive Complexity of 6",
+    ]);
+    expect(diagnostics[0].loc).toMatchObject({ start: { line: 1 } });
+  });
+
+  it('sets the depth limit for complexity/max-depth', () => {
+    const code = `// complexity-budget depth=3 -- mirrors the protocol states
+function nested${BODY}`;
+    expect(runRule(maxDepth, code, { max: 1 })).toEqual([]);
+    expect(runRule(maxDepth, code.replace('depth=3', 'depth=2'), { max: 1 })[0].message).toContain(
+      'Maximum allowed is 2 (complexity-budget: mirrors the protocol states).'
+    );
+  });
+});
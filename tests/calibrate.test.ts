@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ProjectAnalysis } from '#src/standalone/index.js';
+import {
+  applyCalibration,
+  calibrateThresholds,
+  describeScores,
+  formatCalibration,
+} from '#src/calibrate.js';
+import { runCli, type CliIO } from '#src/cli/index.js';
+
+/** One function per score, `lines` long; cyclomatic is always one more than cognitive */
+function project(scores: readonly number[], lines = 12): ProjectAnalysis {
+  return {
+    root: '/project',
+    files: [
+      {
+        filename: 'a.js',
+        functions: scores.map((cognitive, i) => ({
+          name: `fn${i}`,
+          loc: { start: { line: i * 20 + 1, column: 0 }, end: { line: i * 20 + lines, column: 1 } },
+          cyclomatic: cognitive + 1,
+          cognitive,
+          extractionSuggestions: [],
+        })),
+      },
+    ],
+    errors: [],
+  } as unknown as ProjectAnalysis;
+}
+
+describe('describeScores', () => {
+  it('computes nearest-rank percentiles and the mean', () => {
+    const scores = Array.from({ length: 100 }, (_, i) => i + 1);
+    const distribution = describeScores(scores);
+
+    expect(distribution).toMatchObject({ count: 100, min: 1, max: 100, mean: 50.5 });
+    expect(distribution.percentiles).toEqual({ 50: 50, 75: 75, 90: 90, 95: 95, 99: 99 });
+  });
+
+  it('buckets scores and trims empty buckets at both ends', () => {
+    expect(describeScores([3, 4, 12, 5]).histogram).toEqual([
+      { label: '3-5', from: 3, to: 5, count: 3 },
+      { label: '6-10', from: 6, to: 10, count: 0 },
+      { label: '11-15', from: 11, to: 15, count: 1 },
+    ]);
+    expect(
+      describeScores([0, 80])
+        .histogram.map((bucket) => bucket.label)
+        .at(-1)
+    ).toBe('51+');
+    expect(describeScores([]).histogram).toEqual([]);
+  });
+});
+
+describe('calibrateThresholds', () => {
+  it('picks the lowest thresholds that flag at most the chosen percentage', () => {
+    const scores = Array.from({ length: 40 }, (_, i) => i % 10);
+    const calibration = calibrateThresholds(project(scores), { flagPercent: 10 });
+
+    // Four functions score 9; flagging them is exactly 10%.
+    expect(calibration.cognitive).toMatchObject({ threshold: 8, flagged: 4 });
+    expect(calibration.cyclomatic).toMatchObject({ threshold: 9, flagged: 4 });
+  });
+
+  it('raises the threshold rather than flag more functions on ties', () => {
+    const calibration = calibrateThresholds(project([1, 1, 1, 1, 1, 1, 1, 1, 1, 5]), {
+      flagPercent: 15,
+    });
+    expect(calibration.cognitive).toMatchObject({ threshold: 1, flagged: 1 });
+
+    const none = calibrateThresholds(project([2, 2, 2, 2]), { flagPercent: 10 });
+    expect(none.cognitive).toMatchObject({ threshold: 2, flagged: 0 });
+  });
+
+  it('leaves out functions shorter than minLines', () => {
+    expect(calibrateThresholds(project([1, 2, 3], 5)).functions).toBe(0);
+    expect(calibrateThresholds(project([1, 2, 3], 5), { minLines: 0 }).functions).toBe(3);
+  });
+
+  it('formats the distribution, histograms and rule options', () => {
+    const scores = Array.from({ length: 20 }, (_, i) => i);
+    const text = formatCalibration(calibrateThresholds(project(scores)));
+
+    expect(text).toMatch(/^Analyzed 20 functions with at least 10 lines\n/);
+    expect(text).toContain('p95             19         18');
+    expect(text).toContain('  0      ######## 1');
+    expect(text).toContain('  cognitive: 18 (flags 1 of 20 functions, 5.0%)');
+    expect(text).toContain(
+      '"complexity/complexity": ["error",{"cyclomatic":19,"cognitive":18,"minLines":10}]'
+    );
+    expect(formatCalibration(calibrateThresholds(project([])))).toBe(
+      'No functions with at least 10 lines to calibrate against.\n'
+    );
+  });
+});
+
+describe('applyCalibration', () => {
+  const calibration = calibrateThresholds(project([1, 2, 3, 4]), { flagPercent: 25 });
+
+  it('keeps the severity, other options and unrelated settings', () => {
+    const config = applyCalibration(
+      {
+        jsPlugins: ['oxlint-plugin-complexity'],
+        rules: {
+          eqeqeq: 'error',
+          'complexity/complexity': ['warn', { cyclomatic: 30, verbosity: 'summary' }],
+        },
+      },
+      calibration
+    );
+
+    expect(config).toEqual({
+      jsPlugins: ['oxlint-plugin-complexity'],
+      rules: {
+        eqeqeq: 'error',
+        'complexity/complexity': [
+          'warn',
+          { cyclomatic: 4, cognitive: 3, minLines: 10, verbosity: 'summary' },
+        ],
+      },
+    });
+  });
+
+  it('registers the plugin and enables the rule', () => {
+    expect(
+      applyCalibration(
+        { jsPlugins: ['other'], rules: { 'complexity/complexity': 'off' } },
+        calibration
+      )
+    ).toEqual({
+      jsPlugins: ['other', 'oxlint-plugin-complexity'],
+      rules: { 'complexity/complexity': ['error', { cyclomatic: 4, cognitive: 3, minLines: 10 }] },
+    });
+  });
+});
+
+describe('calibrate command', () => {
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+  let io: CliIO;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complexity-calibrate-'));
+    writeFileSync(
+      join(dir, 'a.js'),
+      `function simple(a) {\n  return a;\n}\n\nfunction branchy(a, b) {\n  if (a) {\n    if (b) return 1;\n  }\n  return 0;\n}\n`
+    );
+    stdout = '';
+    stderr = '';
+    io = { stdout: (text) => (stdout += text), stderr: (text) => (stderr += text), cwd: dir };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prints the calibration as JSON', () => {
+    expect(runCli(['calibrate', '--min-lines', '0', '--flag', '50', '--format', 'json'], io)).toBe(
+      0
+    );
+    const calibration = JSON.parse(stdout) as ReturnType<typeof calibrateThresholds>;
+    // simple, branchy and <module>
+    expect(calibration.functions).toBe(3);
+    expect(calibration.cognitive).toMatchObject({ threshold: 0, flagged: 1 });
+  });
+
+  it('writes the thresholds to the config file', () => {
+    writeFileSync(join(dir, '.oxlintrc.json'), JSON.stringify({ rules: { eqeqeq: 'error' } }));
+
+    expect(runCli(['calibrate', '--min-lines', '0', '--flag', '50', '--write'], io)).toBe(0);
+    expect(stderr).toBe('Updated .oxlintrc.json\n');
+    expect(JSON.parse(readFileSync(join(dir, '.oxlintrc.json'), 'utf-8'))).toEqual({
+      rules: {
+        eqeqeq: 'error',
+        'complexity/complexity': ['error', { cyclomatic: 1, cognitive: 0, minLines: 0 }],
+      },
+      jsPlugins: ['oxlint-plugin-complexity'],
+    });
+  });
+
+  it('refuses to overwrite a config it cannot parse', () => {
+    writeFileSync(join(dir, 'lint.json'), '{ // comment\n}');
+
+    expect(runCli(['calibrate', '--write', '--config', 'lint.json'], io)).toBe(1);
+    expect(stderr).toMatch(/^Cannot update .*lint\.json: /);
+    expect(readFileSync(join(dir, 'lint.json'), 'utf-8')).toBe('{ // comment\n}');
+  });
+
+  it('rejects invalid percentages', () => {
+    expect(runCli(['calibrate', '--flag', '120'], io)).toBe(2);
+    expect(stderr).toContain('--flag expects a percentage between 0 and 100');
+  });
+});
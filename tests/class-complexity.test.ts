@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { classComplexity } from '#src/rules/class-complexity.js';
+import { runRule } from './utils/rule-runner';
+
+const CODE = `class OrderService {
+  static {
+    if (globalThis.orders) init();
+  }
+  retries = env ? 3 : 1;
+
+  constructor(repo) {
+    this.repo = repo;
+  }
+
+  handle(order) {
+    if (order.paid) {
+      for (const item of order.items) {
+        if (item.stock) ship(item);
+      }
+    }
+  }
+
+  get total() {
+    return this.items.reduce((sum, item) => (item ? sum + item.price : sum), 0);
+  }
+
+  onCancel = (order) => {
+    if (order) this.repo.cancel(order);
+  };
+}`;
+
+describe('complexity/class-complexity', () => {
+  it('reports the sum of method scores with the top methods', () => {
+    const diagnostics = runRule(classComplexity, CODE, { cognitive: 7 });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].node?.type).toBe('ClassDeclaration');
+    expect(diagnostics[0].message).toBe(
+      `Class 'OrderService' exceeds its weighted methods complexity across 4 methods: cognitive 8 (max 7).
+
+Top methods by cognitive:
+  Line 11: OrderService.handle (cognitive 6, cyclomatic 4)
+  Line 19: OrderService.total (cognitive 1, cyclomatic 1)
+  Line 23: OrderService.onCancel (cognitive 1, cyclomatic 2)`
+    );
+  });
+
+  it('does not count static blocks, field initializers or nested functions', () => {
+    expect(runRule(classComplexity, CODE, { cognitive: 8, cyclomatic: 8 })).toEqual([]);
+    expect(runRule(classComplexity, CODE, { cyclomatic: 7 })[0].message).toContain(
+      'cyclomatic 8 (max 7)'
+    );
+  });
+
+  it('checks nested and anonymous classes separately', () => {
+    const code = `const Outer = class {
+  build() {
+    return class {
+      run(a) { if (a) { if (a.b) return 1; } }
+    };
+  }
+};`;
+    const messages = runRule(classComplexity, code, { cognitive: 2 }).map((d) => d.message);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatch(/^Class '<class>' exceeds .* cognitive 3 \(max 2\)/);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { runCli, type CliIO } from '#src/cli/index.js';
+import { formatCsv, formatTable, rankFunctions, type FunctionRow } from '#src/cli/format.js';
+import { collectSourceFiles, createIgnoreMatcher, globToRegExp } from '#src/standalone/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, 'fixtures');
+
+function run(argv: string[]): { code: number; stdout: string; stderr: string } {
+  let stdout = '';
+  let stderr = '';
+  const io: CliIO = {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+    cwd: fixturesDir,
+  };
+  const code = runCli(argv, io);
+  return { code, stdout, stderr };
+}
+
+function row(name: string, cognitive: number, cyclomatic: number, line = 1): FunctionRow {
+  return { file: 'a.ts', line, column: 1, name, cognitive, cyclomatic };
+}
+
+describe('ignore globs', () => {
+  it('supports **, * and brace alternatives', () => {
+    expect(globToRegExp('**/*.test.ts').test('src/a/b.test.ts')).toBe(true);
+    expect(globToRegExp('**/*.test.ts').test('b.test.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/b.ts')).toBe(false);
+    expect(globToRegExp('*.{vue,svelte}').test('App.svelte')).toBe(true);
+  });
+
+  it('matches patterns without a slash against any path segment', () => {
+    const isIgnored = createIgnoreMatcher(['node_modules', 'generated/']);
+    expect(isIgnored('packages/a/node_modules/x.js')).toBe(true);
+    expect(isIgnored('generated/api.ts')).toBe(true);
+    expect(isIgnored('src/generated.ts')).toBe(false);
+  });
+
+  it('collects source files and skips ignored directories', () => {
+    const files = collectSourceFiles(['.'], { root: fixturesDir, ignore: ['vue', 'svelte'] });
+
+    expect(files.some((file) => file.endsWith('js/simple-if.js'))).toBe(true);
+    expect(files.some((file) => file.endsWith('.vue') || file.endsWith('.svelte'))).toBe(false);
+  });
+
+  it('skips dangling symlinks and does not follow symlinked directories', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'complexity-files-'));
+    try {
+      mkdirSync(join(dir, 'src'));
+      writeFileSync(join(dir, 'src/a.js'), 'export const a = 1;');
+      symlinkSync(join(dir, 'src/missing.js'), join(dir, 'src/dangling.js'));
+      symlinkSync(join(dir, 'src/missing'), join(dir, 'src/dangling'));
+      symlinkSync(dir, join(dir, 'src/loop'));
+      symlinkSync(join(dir, 'src/a.js'), join(dir, 'src/linked.js'));
+
+      expect(collectSourceFiles(['.'], { root: dir })).toEqual([
+        join(dir, 'src/a.js'),
+        join(dir, 'src/linked.js'),
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('rankFunctions', () => {
+  const rows = [row('a', 3, 10), row('b', 8, 2), row('c', 8, 5), row('d', 1, 1)];
+
+  it('sorts by the chosen metric and breaks ties with the other', () => {
+    const ranked = rankFunctions(rows, {
+      sort: 'cognitive',
+      top: 0,
+      minCognitive: 0,
+      minCyclomatic: 0,
+    });
+    expect(ranked.map((r) => r.name)).toEqual(['c', 'b', 'a', 'd']);
+
+    const byCyclomatic = rankFunctions(rows, {
+      sort: 'cyclomatic',
+      top: 2,
+      minCognitive: 0,
+      minCyclomatic: 0,
+    });
+    expect(byCyclomatic.map((r) => r.name)).toEqual(['a', 'c']);
+  });
+
+  it('filters by minimum scores', () => {
+    const ranked = rankFunctions(rows, {
+      sort: 'cognitive',
+      top: 0,
+      minCognitive: 2,
+      minCyclomatic: 3,
+    });
+    expect(ranked.map((r) => r.name)).toEqual(['c', 'a']);
+  });
+});
+
+describe('formatters', () => {
+  it('aligns table columns', () => {
+    const lines = formatTable([row('handle', 12, 4, 10), row('x', 3, 1, 2)])
+      .trimEnd()
+      .split('\n');
+
+    expect(lines[0]).toMatch(/^#\s+Cognitive\s+Cyclomatic\s+Function\s+Location$/);
+    expect(lines[2]).toBe('1         12           4  handle    a.ts:10:1');
+    expect(lines[3]).toBe('2          3           1  x         a.ts:2:1');
+  });
+
+  it('quotes CSV fields that need it', () => {
+    const csv = formatCsv([{ ...row('a', 1, 1), file: 'dir,with,commas/a.ts' }]);
+    expect(csv).toBe(
+      'file,line,column,name,cyclomatic,cognitive\n"dir,with,commas/a.ts",1,1,a,1,1\n'
+    );
+  });
+});
+
+describe('runCli', () => {
+  it('prints the top functions as JSON with project-relative paths', () => {
+    const { code, stdout } = run(['js', '--top', '3', '--format', 'json']);
+    const rows = JSON.parse(stdout) as FunctionRow[];
+
+    expect(code).toBe(0);
+    expect(rows).toHaveLength(3);
+    expect(rows[0].file).toMatch(/^js\//);
+    expect(rows[0].cognitive).toBeGreaterThanOrEqual(rows[1].cognitive);
+    expect(rows[1].cognitive).toBeGreaterThanOrEqual(rows[2].cognitive);
+  });
+
+  it('analyzes framework component scripts', () => {
+    const { code, stdout } = run(['vue', 'svelte', 'astro', '--format', 'csv', '--top', '0']);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('vue/');
+    expect(stdout).toContain('svelte/');
+    expect(stdout).toContain('astro/');
+  });
+
+  it('rejects invalid options with exit code 2', () => {
+    const { code, stderr } = run(['--sort', 'lines']);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain('--sort must be one of cognitive, cyclomatic');
+    expect(stderr).toContain('Usage: oxlint-complexity');
+  });
+
+  it('scores with the chosen profile', () => {
+    const score = (argv: string[]) =>
+      (JSON.parse(run(['ts', '--top', '0', '--format', 'json', ...argv]).stdout) as FunctionRow[])
+        .map((r) => r.cyclomatic)
+        .reduce((sum, cyclomatic) => sum + cyclomatic, 0);
+
+    expect(score(['--profile', 'eslint'])).toBeGreaterThan(score([]));
+    expect(run(['--profile', 'pmd']).stderr).toContain(
+      '--profile must be one of sonar, eslint, custom'
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeSource, type ProjectAnalysis } from '#src/standalone/index.js';
+import { compareProjects, formatComparison, formatScoreChange } from '#src/compare.js';
+import { runCli, type CliIO } from '#src/cli/index.js';
+
+const THRESHOLDS = { cyclomatic: 20, cognitive: 3, minLines: 0 };
+
+const BEFORE = `function grows(a, b) {
+  if (a) return b;
+  return null;
+}
+
+function shrinks(items) {
+  for (const item of items) {
+    if (item.active) {
+      if (item.ready) return item;
+    }
+  }
+  return null;
+}
+
+function removed(a) {
+  return a ? 1 : 2;
+}
+
+const handlers = [1, 2].map((n) => (n > 1 ? n : 0));
+`;
+
+const AFTER = `function grows(a, b) {
+  if (a) {
+    for (const item of b) {
+      if (item) return item;
+    }
+  }
+  return null;
+}
+
+function shrinks(items) {
+  return items.find((item) => item.active && item.ready) ?? null;
+}
+
+class Service {
+  removed(a) {
+    return a ? 1 : 2;
+  }
+}
+
+function added(a) {
+  if (a) return 1;
+  return 0;
+}
+
+const handlers = [1, 2].map((n) => (n > 1 ? n : 0));
+`;
+
+function project(files: Record<string, string>): ProjectAnalysis {
+  return {
+    root: '/project',
+    files: Object.entries(files).map(([filename, code]) => ({
+      ...analyzeSource(code, filename),
+      filename,
+    })),
+    errors: [],
+  };
+}
+
+describe('compareProjects', () => {
+  const comparison = compareProjects(
+    project({ 'src/a.js': BEFORE, 'src/gone.js': 'function old(a) { return a ? 1 : 2; }' }),
+    project({ 'src/a.js': AFTER }),
+    THRESHOLDS
+  );
+
+  it('matches functions by name, callback position and local name, and lists changes', () => {
+    expect(
+      comparison.functions.map(({ name, kind, before, after }) => [
+        name,
+        kind,
+        before?.cognitive ?? null,
+        after?.cognitive ?? null,
+      ])
+    ).toEqual([
+      ['grows', 'increased', 1, 6],
+      ['shrinks > items.find callback (line 11)', 'added', null, 1],
+      ['added', 'added', null, 1],
+      ['<module>', 'removed', 0, null],
+      ['old', 'removed', 1, null],
+      ['shrinks', 'decreased', 6, 2],
+    ]);
+  });
+
+  it('reports new and fixed offenders', () => {
+    expect(comparison.newOffenders.map((fn) => fn.name)).toEqual(['grows']);
+    expect(comparison.removedOffenders.map((fn) => fn.name)).toEqual(['shrinks']);
+  });
+
+  it('sums the change per file and in total', () => {
+    expect(comparison.files.map(({ file, delta }) => [file, delta.cognitive])).toEqual([
+      ['src/a.js', 3],
+      ['src/gone.js', -1],
+    ]);
+    expect(comparison.total.delta).toEqual({ cognitive: 2, cyclomatic: 1 });
+  });
+
+  it('formats the comparison as markdown for a pull-request comment', () => {
+    const markdown = formatComparison(comparison, 'markdown');
+
+    expect(markdown).toMatch(
+      /^### Complexity\n\nCognitive: 10 → 12 \(\+2\), cyclomatic: 14 → 15 \(\+1\)\n/
+    );
+    expect(markdown).toContain(
+      [
+        '#### New offenders (1)',
+        '',
+        '| Function | Location | Cognitive | Cyclomatic |',
+        '| --- | --- | --- | --- |',
+        '| `grows` | `src/a.js:1` | 1 → 6 (+5) | 2 → 4 (+2) |',
+      ].join('\n')
+    );
+    expect(markdown).toContain('| `added` | `src/a.js:20` | 1 (new) | 2 (new) |');
+    expect(markdown).toContain('| `old` | `src/gone.js:1` | 1 (removed) | 2 (removed) |');
+  });
+
+  it('counts a function as more complex when either score went up', () => {
+    const nested = 'function f(a, b, c) { if (a) { if (b) { if (c) return 1; } } }';
+    const flat = `function f(a, b, c, d, e) {
+  if (a) return 1;
+  if (b) return 2;
+  if (c) return 3;
+  if (d) return 4;
+  if (e) return 5;
+}`;
+    const [change] = compareProjects(
+      project({ 'a.js': nested }),
+      project({ 'a.js': flat })
+    ).functions;
+
+    expect(change.delta).toEqual({ cognitive: -1, cyclomatic: 2 });
+    expect(change.kind).toBe('increased');
+  });
+
+  it('formats unchanged projects', () => {
+    const same = compareProjects(project({ 'a.js': BEFORE }), project({ 'a.js': BEFORE }));
+    expect(formatComparison(same, 'table')).toBe('No complexity changes.\n');
+    expect(formatScoreChange(3, 3)).toBe('3');
+  });
+});
+
+describe('compare command', () => {
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+  let io: CliIO;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: dir,
+      stdio: 'ignore',
+    });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complexity-compare-'));
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src/a.js'), BEFORE);
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-qm', 'before');
+    git('tag', 'v1');
+    writeFileSync(join(dir, 'src/a.js'), AFTER);
+    stdout = '';
+    stderr = '';
+    io = { stdout: (text) => (stdout += text), stderr: (text) => (stderr += text), cwd: dir };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('compares a revision with the working tree', () => {
+    expect(
+      runCli(
+        ['compare', '--base', 'v1', '--cognitive', '3', '--min-lines', '0', '--format', 'json'],
+        io
+      )
+    ).toBe(0);
+    const comparison = JSON.parse(stdout) as ReturnType<typeof compareProjects>;
+    expect(comparison.newOffenders.map((fn) => fn.name)).toEqual(['grows']);
+  });
+
+  it('compares two revisions and prints a table', () => {
+    git('commit', '-qam', 'after');
+    expect(runCli(['compare', '--base', 'v1', '--head', 'HEAD', 'src'], io)).toBe(0);
+    expect(stdout).toMatch(
+      /^Cognitive: 9 → 12 \(\+3\), cyclomatic: 11 → 15 \(\+4\)\n\nMore complex \(3\)\n/
+    );
+    expect(stdout).toMatch(/grows +src\/a\.js:1 +1 → 6 \(\+5\) +2 → 4 \(\+2\)/);
+  });
+
+  it('compares two directories', () => {
+    mkdirSync(join(dir, 'old'));
+    writeFileSync(join(dir, 'old/a.js'), BEFORE);
+    mkdirSync(join(dir, 'new'));
+    writeFileSync(join(dir, 'new/a.js'), BEFORE);
+
+    expect(runCli(['compare', '--base', 'old', '--head', 'new'], io)).toBe(0);
+    expect(stdout).toBe('No complexity changes.\n');
+  });
+
+  it('reports usage and git errors', () => {
+    expect(runCli(['compare'], io)).toBe(2);
+    expect(stderr).toContain('--base is required');
+
+    expect(runCli(['compare', '--base', 'no-such-revision'], io)).toBe(1);
+    expect(stderr).toContain('git ls-tree no-such-revision failed');
+  });
+});
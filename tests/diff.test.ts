@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeProject, parseUnifiedDiff } from '#src/standalone/index.js';
+import { runCli, type CliIO } from '#src/cli/index.js';
+import type { FunctionRow } from '#src/cli/format.js';
+
+const BEFORE = `function unchanged(a) {
+  if (a) return 1;
+  return 0;
+}
+
+function edited(a, b) {
+  if (a) return b;
+  return null;
+}
+`;
+
+const AFTER = `function unchanged(a) {
+  if (a) return 1;
+  return 0;
+}
+
+function edited(a, b) {
+  if (a) {
+    for (const item of b) {
+      if (item) return item;
+    }
+  }
+  return null;
+}
+
+function added(a) {
+  return a ? 1 : 2;
+}
+`;
+
+describe('parseUnifiedDiff', () => {
+  it('collects added lines and the lines after removals in the new file', () => {
+    const diff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -3,2 +3,3 @@ function a() {
+   const x = 1;
+-  const y = 2;
++  const y = 3;
++  const z = 4;
+@@ -20,2 +21,0 @@ function b() {
+-  removed();
+-  removed();
+`;
+    expect(parseUnifiedDiff(diff)).toEqual([
+      { path: 'src/a.ts', oldPath: 'src/a.ts', changedLines: [4, 5, 22] },
+    ]);
+  });
+
+  it('handles renames, new files and deleted files', () => {
+    const diff = `--- a/old.js
++++ b/new.js
+@@ -1 +1 @@
+-a
++b
+--- /dev/null
++++ b/created.js
+@@ -0,0 +1,2 @@
++x
++y
+--- a/deleted.js
++++ /dev/null
+@@ -1 +0,0 @@
+-z
+`;
+    expect(parseUnifiedDiff(diff)).toEqual([
+      { path: 'new.js', oldPath: 'old.js', changedLines: [1] },
+      { path: 'created.js', oldPath: null, changedLines: [1, 2] },
+    ]);
+  });
+});
+
+describe('diff-aware analysis', () => {
+  let dir: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: dir,
+      stdio: 'ignore',
+    });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complexity-diff-'));
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src/a.js'), BEFORE);
+    writeFileSync(join(dir, 'src/b.js'), BEFORE);
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-qm', 'base');
+    writeFileSync(join(dir, 'src/a.js'), AFTER);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the functions touched by git diff, with their scores at the base', () => {
+    const project = analyzeProject(['.'], { root: dir, diffBase: 'HEAD', compareBase: true });
+
+    expect(project.files.map((file) => file.filename)).toEqual(['src/a.js']);
+    expect(
+      project.files[0].functions.map(({ name, cognitive, before }) => ({ name, cognitive, before }))
+    ).toEqual([
+      { name: 'edited', cognitive: 6, before: { cyclomatic: 2, cognitive: 1 } },
+      { name: 'added', cognitive: 1, before: null },
+    ]);
+  });
+
+  it('matches moved callbacks to their scores at the base', () => {
+    writeFileSync(join(dir, 'src/b.js'), 'items.forEach((a) => { if (a) { log(a); } });\n');
+    git('commit', '-qm', 'callback', 'src/b.js');
+    writeFileSync(
+      join(dir, 'src/b.js'),
+      '\nlog();\nitems.forEach((a) => { if (a) { if (a.b) { log(a); } } });\n'
+    );
+    const project = analyzeProject(['src/b.js'], {
+      root: dir,
+      diffBase: 'HEAD',
+      compareBase: true,
+    });
+
+    expect(
+      project.files[0].functions.map(({ name, cognitive, before }) => ({ name, cognitive, before }))
+    ).toContainEqual({
+      name: 'items.forEach callback (line 3)',
+      cognitive: 3,
+      before: { cyclomatic: 2, cognitive: 1 },
+    });
+  });
+
+  it('accepts a unified diff instead of a revision', () => {
+    const diff = execFileSync('git', ['diff'], { cwd: dir, encoding: 'utf-8' });
+    const project = analyzeProject(['.'], { root: dir, diff });
+
+    expect(project.files[0].functions.map((fn) => [fn.name, fn.before])).toEqual([
+      ['edited', undefined],
+      ['added', undefined],
+    ]);
+  });
+
+  it('shows before and after scores in the CLI report', () => {
+    let stdout = '';
+    let stderr = '';
+    const io: CliIO = {
+      stdout: (text) => (stdout += text),
+      stderr: (text) => (stderr += text),
+      cwd: dir,
+    };
+
+    expect(runCli(['--diff-base', 'HEAD', '--compare', '--format', 'json'], io)).toBe(0);
+    const rows = JSON.parse(stdout) as FunctionRow[];
+    expect(rows.map((row) => [row.name, row.before?.cognitive ?? null])).toEqual([
+      ['edited', 1],
+      ['added', null],
+    ]);
+
+    stdout = '';
+    runCli(['--diff-base', 'HEAD', '--compare'], io);
+    expect(stdout).toMatch(/1 → 6 +2 → 4 +edited/);
+    expect(stdout).toMatch(/new → 1 +new → 2 +added/);
+
+    expect(runCli(['--compare'], io)).toBe(2);
+    expect(stderr).toContain('--compare requires --diff-base');
+  });
+
+  it('reports git errors', () => {
+    let stderr = '';
+    const io: CliIO = { stdout: () => {}, stderr: (text) => (stderr += text), cwd: dir };
+
+    expect(runCli(['sarif', '--diff-base', 'no-such-revision'], io)).toBe(1);
+    expect(stderr).toContain('git diff no-such-revision failed');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { Diagnostic, Fixer } from '@oxlint/plugins';
+import { applyTextEdits, type TextEdit } from '#src/extraction/index.js';
+import { complexity } from '#src/rules/complexity.js';
+import { parseSource } from '#src/standalone/index.js';
+import { runRule } from './utils/rule-runner';
+
+const fixer = {
+  replaceTextRange: (range: [number, number], text: string) => ({ range, text }),
+} as unknown as Fixer;
+
+function lintSuggestions(code: string, filename = 'test.js', cognitive = 3) {
+  const diagnostics = runRule(complexity, code, { cognitive, minLines: 0 }, filename);
+  return diagnostics.flatMap((d: Diagnostic) => d.suggest ?? []);
+}
+
+function applySuggestion(code: string, filename = 'test.js', index = 0): string {
+  const suggestion = lintSuggestions(code, filename)[index];
+  const edits = suggestion.fix(fixer) as unknown as TextEdit[];
+  return applyTextEdits(code, edits);
+}
+
+/** Two independent blocks, each a high-confidence extraction candidate */
+function handler(statement: string, modifier = ''): string {
+  return `${modifier}function handle(event, logger) {
+  const type = event.type;
+  const payload = event.payload;
+  if (payload.retry) {
+    for (const attempt of payload.attempts) {
+      if (attempt.failed) {
+        logger.warn(type, attempt.id);
+      }
+    }
+  }
+
+  logger.debug(type);
+  for (const step of payload.steps) {
+    if (type === 'done') {
+      if (step.visible) {
+        ${statement}
+      }
+    }
+  }
+  return type;
+}`;
+}
+
+describe('extraction autofix', () => {
+  it('extracts a block without outputs into a call', () => {
+    const code = handler('logger.info(step.name);');
+
+    expect(lintSuggestions(code).map((s) => s.desc)).toEqual([
+      "Extract lines 4-10 into function 'extracted'",
+      "Extract lines 13-19 into function 'extracted'",
+    ]);
+    expect(applySuggestion(code)).toBe(`function handle(event, logger) {
+  const type = event.type;
+  const payload = event.payload;
+  extracted(logger, type, payload);
+
+  logger.debug(type);
+  for (const step of payload.steps) {
+    if (type === 'done') {
+      if (step.visible) {
+        logger.info(step.name);
+      }
+    }
+  }
+  return type;
+}
+
+function extracted(logger, type, payload) {
+  if (payload.retry) {
+    for (const attempt of payload.attempts) {
+      if (attempt.failed) {
+        logger.warn(type, attempt.id);
+      }
+    }
+  }
+}`);
+  });
+
+  it('returns the single output and keeps parameter types', () => {
+    const code = `export function price(order: Order, rates: Rates): number {
+  const base: number = order.amount;
+  const discount =
+    order.coupon && rates.coupons ? (order.vip ? rates.vipCoupon : rates.coupon) : 0;
+
+  notify(order.id);
+  notify(order.user);
+  notify(base);
+
+  if (order.express) {
+    for (const fee of rates.fees) {
+      if (fee.express) {
+        notify(fee.name);
+      }
+    }
+  }
+  return base - discount;
+}`;
+
+    const fixed = applySuggestion(code, 'test.ts');
+    expect(fixed).toContain('  const discount = extracted(order, rates);\n');
+    expect(fixed).toContain(`}
+
+function extracted(order: Order, rates: Rates) {
+  const discount =
+    order.coupon && rates.coupons ? (order.vip ? rates.vipCoupon : rates.coupon) : 0;
+  return discount;
+}`);
+    expect(() => parseSource(fixed, 'test.ts')).not.toThrow();
+  });
+
+  it.each([
+    ['returns early', 'return step.name;', ''],
+    ['uses this', 'this.count++;', ''],
+    ['awaits', 'await step.run();', 'async '],
+  ])('offers no fix when the block %s', (_, statement, modifier) => {
+    const suggestions = lintSuggestions(handler(statement, modifier));
+    expect(suggestions.map((s) => s.desc)).toEqual([
+      "Extract lines 4-10 into function 'extracted'",
+    ]);
+  });
+});
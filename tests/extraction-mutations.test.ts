@@ -1,7 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import type { ExtractionCandidate } from '#src/extraction/types.js';
 import { analyzeVariableFlow } from '#src/extraction/flow-analyzer.js';
-import { extractConstructFromMessage } from '#src/utils.js';
 import { calculateCognitiveWithTracking } from './utils/extraction-helpers.js';
 
 describe('Smart Extraction Detection', () => {
@@ -34,7 +33,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -70,7 +69,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -106,7 +105,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -142,7 +141,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -180,7 +179,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -218,7 +217,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -254,7 +253,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -290,7 +289,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -326,7 +325,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -362,7 +361,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -399,7 +398,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
@@ -435,7 +434,7 @@ describe('Smart Extraction Detection', () => {
         complexity: result.total,
         complexityPercentage: 50,
         points: result.points,
-        constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+        constructs: result.points.map((p) => p.construct),
       };
       const flow = analyzeVariableFlow(candidate, result.variables, result.node);
 
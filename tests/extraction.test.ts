@@ -239,6 +239,11 @@ describe('Smart Extraction Detection', () => {
       expect(formatted).toContain('Smart extraction suggestions');
       expect(formatted).toContain('Lines');
       expect(formatted).toContain('Complexity');
+
+      expect(formatExtractionSuggestions(suggestions, 'summary')).toMatch(
+        /^ Extraction candidates: lines \d+-\d+, lines \d+-\d+\.$/
+      );
+      expect(formatExtractionSuggestions(suggestions, 'minimal')).toBe('');
     });
 
     it('returns empty string when no suggestions', () => {
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateScores, getFileBudgetViolations } from '#src/file-budget.js';
+import { complexity } from '#src/rules/complexity.js';
+import { runRule } from './utils/rule-runner';
+
+const CODE = `function parse(input) {
+  if (input) {
+    for (const ch of input) {
+      if (ch === ' ') continue;
+    }
+  }
+}
+
+function format(value) {
+  return value ? String(value) : '';
+}
+
+function validate(a, b) {
+  if (a && b) return true;
+  return false;
+}`;
+
+const scores = [
+  { name: 'a', cyclomatic: 4, cognitive: 6, loc: undefined },
+  { name: 'b', cyclomatic: 1, cognitive: 0, loc: undefined },
+  { name: 'c', cyclomatic: 2, cognitive: 3, loc: undefined },
+];
+
+describe('file budget aggregates', () => {
+  it('computes sum, max and mean', () => {
+    expect(aggregateScores(scores, 'cognitive')).toEqual({ sum: 9, max: 6, mean: 3 });
+    expect(aggregateScores([], 'cyclomatic')).toEqual({ sum: 0, max: 0, mean: 0 });
+  });
+
+  it('lists every aggregate over its limit', () => {
+    expect(
+      getFileBudgetViolations(scores, {
+        cognitive: { sum: 8, mean: 3 },
+        cyclomatic: { max: 3 },
+      })
+    ).toEqual([
+      { metric: 'cognitive', aggregate: 'sum', value: 9, limit: 8 },
+      { metric: 'cyclomatic', aggregate: 'max', value: 4, limit: 3 },
+    ]);
+  });
+});
+
+describe('fileBudget option', () => {
+  it('reports once on the Program node with the top functions', () => {
+    const diagnostics = runRule(complexity, CODE, {
+      fileBudget: { cognitive: { sum: 8, mean: 2 } },
+    });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].node?.type).toBe('Program');
+    expect(diagnostics[0].message).toBe(
+      `File exceeds its complexity budget across 4 functions: cognitive sum 9 (max 8), cognitive mean 2.3 (max 2).
+
+Top functions by cognitive:
+  Line 1: parse (cognitive 6, cyclomatic 4)
+  Line 13: validate (cognitive 2, cyclomatic 3)
+  Line 9: format (cognitive 1, cyclomatic 2)`
+    );
+  });
+
+  it('counts functions below minLines and module code', () => {
+    expect(runRule(complexity, CODE, { fileBudget: { cyclomatic: { sum: 10 } } })).toHaveLength(0);
+    expect(runRule(complexity, CODE, { fileBudget: { cyclomatic: { sum: 9 } } })).toHaveLength(1);
+  });
+});
@@ -1,10 +1,8 @@
-// @complexity isEven:cyclomatic=2,cognitive=1 isOdd:cyclomatic=2,cognitive=1 ping:cyclomatic=2,cognitive=1 pong:cyclomatic=2,cognitive=1
+// @complexity isEven:cyclomatic=2,cognitive=2 isOdd:cyclomatic=2,cognitive=2 ping:cyclomatic=2,cognitive=2 pong:cyclomatic=2,cognitive=2
 
 // Mutual recursion: isEven calls isOdd, isOdd calls isEven
-// Note: Mutual recursion is NOT detected by the recursion detector
-// (which only detects self-recursion like foo() inside foo)
-// This is expected behavior - mutual recursion detection requires
-// call graph analysis which is out of scope.
+// Every function in a recursion cycle gets +1 for recursion, found from the
+// file's call graph once the whole file has been walked.
 
 function isEven(n) {
   if (n === 0) return true;
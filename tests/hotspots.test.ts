@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  countRangeChanges,
+  parseNumstatLog,
+  parsePatchLog,
+  readChangeHistory,
+} from '#src/standalone/churn.js';
+import { analyzeProject } from '#src/standalone/index.js';
+import { findHotspots, formatHotspots } from '#src/hotspots.js';
+import { layoutTreemap } from '#src/treemap.js';
+import { runCli, type CliIO } from '#src/cli/index.js';
+
+describe('parseNumstatLog', () => {
+  it('counts commits and lines per file, following renames to the current path', () => {
+    const log = [
+      '\0c3',
+      '',
+      '4\t1\tsrc/{util => lib}/format.ts',
+      '2\t0\tsrc/index.ts',
+      '\0c2',
+      '',
+      '10\t3\tsrc/util/format.ts',
+      '-\t-\tlogo.png',
+      '\0c1',
+      '',
+      '20\t0\tsrc/util/format.ts',
+    ].join('\n');
+
+    expect(parseNumstatLog(log)).toEqual([
+      { path: 'src/lib/format.ts', commits: 3, added: 34, deleted: 4 },
+      { path: 'src/index.ts', commits: 1, added: 2, deleted: 0 },
+      { path: 'logo.png', commits: 1, added: 0, deleted: 0 },
+    ]);
+  });
+});
+
+describe('parsePatchLog', () => {
+  it('reads hunks per commit, renames and added files, skipping hunk bodies', () => {
+    const log = [
+      '\0c2',
+      '',
+      'diff --git a/old.ts b/new.ts',
+      'similarity index 90%',
+      'rename from old.ts',
+      'rename to new.ts',
+      '--- a/old.ts',
+      '+++ b/new.ts',
+      '@@ -3,0 +4,2 @@ function a() {',
+      '+--- not a header',
+      '++++ not a header',
+      '@@ -10 +11 @@',
+      '-a',
+      '+b',
+      '\0c1',
+      '',
+      'diff --git a/old.ts b/old.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/old.ts',
+      '@@ -0,0 +1,12 @@',
+      ...Array.from({ length: 12 }, () => '+x'),
+    ].join('\n');
+
+    expect(parsePatchLog(log)).toEqual([
+      {
+        hash: 'c2',
+        files: [
+          {
+            path: 'new.ts',
+            oldPath: 'old.ts',
+            hunks: [
+              { oldStart: 3, oldCount: 0, newStart: 4, newCount: 2 },
+              { oldStart: 10, oldCount: 1, newStart: 11, newCount: 1 },
+            ],
+          },
+        ],
+      },
+      {
+        hash: 'c1',
+        files: [
+          {
+            path: 'old.ts',
+            oldPath: null,
+            hunks: [{ oldStart: 0, oldCount: 0, newStart: 1, newCount: 12 }],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('countRangeChanges', () => {
+  const file = (path: string, oldPath: string | null, hunks: number[][]) => ({
+    path,
+    oldPath,
+    hunks: hunks.map(([oldStart, oldCount, newStart, newCount]) => ({
+      oldStart,
+      oldCount,
+      newStart,
+      newCount,
+    })),
+  });
+
+  it('follows ranges back through line shifts and renames', () => {
+    const history = {
+      uncommitted: [],
+      commits: [
+        // Renamed, and two lines inserted at the top
+        { hash: 'c3', files: [file('b.ts', 'a.ts', [[0, 0, 1, 2]])] },
+        // Touches line 12, which is line 14 today
+        { hash: 'c2', files: [file('a.ts', 'a.ts', [[12, 1, 12, 1]])] },
+        // Removes lines after line 3, inside the first function only
+        { hash: 'c1', files: [file('a.ts', 'a.ts', [[4, 2, 3, 0]])] },
+      ],
+    };
+
+    expect(
+      countRangeChanges(
+        'b.ts',
+        [
+          { start: 3, end: 8 },
+          { start: 10, end: 16 },
+        ],
+        history
+      )
+    ).toEqual([1, 1]);
+  });
+
+  it('stops at the commit that added a range and lines up uncommitted changes', () => {
+    const history = {
+      uncommitted: [file('a.ts', 'a.ts', [[0, 0, 1, 5]])],
+      commits: [
+        { hash: 'c2', files: [file('a.ts', 'a.ts', [[5, 0, 6, 4]])] },
+        { hash: 'c1', files: [file('a.ts', 'a.ts', [[6, 1, 6, 1]])] },
+      ],
+    };
+
+    // Lines 11-14 today are lines 6-9 at HEAD, added by c2
+    expect(countRangeChanges('a.ts', [{ start: 11, end: 14 }], history)).toEqual([1]);
+    expect(countRangeChanges('a.ts', [{ start: 1, end: 5 }], history)).toEqual([0]);
+  });
+});
+
+describe('layoutTreemap', () => {
+  it('fills the bounds with tiles proportional to the weights', () => {
+    const tiles = layoutTreemap(
+      [6, 6, 4, 3, 2, 2, 1, 0].map((weight) => ({ weight, data: weight })),
+      { x: 0, y: 0, width: 6, height: 4 }
+    );
+
+    expect(tiles.map((tile) => tile.data)).toEqual([6, 6, 4, 3, 2, 2, 1]);
+    for (const tile of tiles) {
+      expect(tile.width * tile.height).toBeCloseTo(tile.data);
+      expect(tile.x + tile.width).toBeLessThanOrEqual(6 + 1e-9);
+      expect(tile.y + tile.height).toBeLessThanOrEqual(4 + 1e-9);
+    }
+    expect(tiles[0]).toMatchObject({ x: 0, y: 0, width: 3, height: 2 });
+  });
+});
+
+const SIMPLE = `export function simple(a) {
+  return a;
+}
+`;
+
+const BRANCHY = `export function branchy(a, b) {
+  if (a) {
+    if (b) return 1;
+  }
+  return 0;
+}
+`;
+
+describe('hotspots', () => {
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+  let io: CliIO;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: dir,
+      stdio: 'ignore',
+    });
+  const commit = (files: Record<string, string>) => {
+    for (const [name, code] of Object.entries(files)) writeFileSync(join(dir, name), code);
+    git('add', '.');
+    git('commit', '-qm', 'change');
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complexity-hotspots-'));
+    git('init', '-q');
+    commit({ 'a.js': `${SIMPLE}\n${BRANCHY}`, 'b.js': BRANCHY });
+    commit({ 'a.js': `${SIMPLE}\n${BRANCHY.replace('return 0', 'return -1')}` });
+    commit({
+      'a.js': `${SIMPLE.replace('a;', 'a + 1;')}\n${BRANCHY.replace('return 0', 'return 2')}`,
+    });
+    stdout = '';
+    stderr = '';
+    io = { stdout: (text) => (stdout += text), stderr: (text) => (stderr += text), cwd: dir };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ranks functions and files by changes × cognitive complexity', () => {
+    const project = analyzeProject(['.'], { root: dir });
+    const analysis = findHotspots(project, readChangeHistory(['.'], { root: dir }));
+
+    expect(analysis.commits).toBe(3);
+    expect(
+      analysis.functions.map(({ file, name, changes, score }) => [file, name, changes, score])
+    ).toEqual([
+      ['a.js', 'branchy', 3, 9],
+      ['b.js', 'branchy', 1, 3],
+    ]);
+    expect(analysis.files.map(({ file, commits, score }) => [file, commits, score])).toEqual([
+      ['a.js', 3, 9],
+      ['b.js', 1, 3],
+    ]);
+    expect(formatHotspots(analysis, 'table', 1)).toContain('Functions (top 1 of 2)');
+  });
+
+  it('writes an HTML treemap', () => {
+    expect(runCli(['hotspots', '--format', 'html', '--output', 'hotspots.html'], io)).toBe(0);
+    const html = readFileSync(join(dir, 'hotspots.html'), 'utf-8');
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html.match(/<rect /g)).toHaveLength(2);
+    expect(html).toContain('<title>a.js\nScore 9: 3 commits × cognitive 3</title>');
+  });
+
+  it('prints JSON and reports git errors', () => {
+    expect(runCli(['hotspots', '--format', 'json', '--since', '1 year ago'], io)).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ since: '1 year ago', commits: 3 });
+
+    rmSync(join(dir, '.git'), { recursive: true, force: true });
+    expect(runCli(['hotspots'], io)).toBe(1);
+    expect(stderr).toContain('git log failed');
+  });
+});
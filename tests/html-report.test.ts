@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeSource, type ProjectAnalysis } from '#src/standalone/index.js';
+import { formatHtmlReport } from '#src/html-report.js';
+import { runCli, type CliIO } from '#src/cli/index.js';
+
+const CODE = `function process(items, options) {
+  const result = [];
+  for (const item of items) {
+    if (item.valid) {
+      if (options.strict && item.value > 10) {
+        result.push(item);
+      }
+    }
+  }
+
+  for (const tag of options.tags) {
+    if (tag.active) {
+      if (tag.pending) {
+        console.warn(tag);
+      }
+    }
+  }
+
+  if (options.log) {
+    for (const entry of result) {
+      if (entry.debug) {
+        console.log(entry);
+      }
+    }
+  }
+  return result;
+}
+
+const simple = (a) => a + 1;
+`;
+
+function project(code: string, filename = 'src/<a>.js'): ProjectAnalysis {
+  return {
+    root: '/project',
+    files: [{ ...analyzeSource(code, filename, { cognitive: 3 }), filename }],
+    errors: [],
+  };
+}
+
+describe('formatHtmlReport', () => {
+  const html = formatHtmlReport(project(CODE), {
+    sources: new Map([['src/<a>.js', CODE]]),
+    thresholds: { cyclomatic: 20, cognitive: 3, minLines: 0 },
+    title: 'Report & review',
+  });
+
+  it('is a single page without external resources', () => {
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Report &amp; review</title>');
+    expect(html).not.toMatch(/<(?:script|link|img)[^>]+(?:src|href)=/);
+  });
+
+  it('lists every function in a sortable table, most complex first', () => {
+    const table = html.slice(html.indexOf('<section id="functions">'));
+    const rows = table.slice(0, table.indexOf('</section>')).match(/<tr><td>.*<\/tr>/g) ?? [];
+
+    expect(table).toContain('<table class="sortable">');
+    expect(table).toContain('<th data-type="number">Cognitive</th>');
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toContain('<a href="#fn-0-0">process</a>');
+    expect(rows[0]).toContain('<a href="#file-0">src/&lt;a&gt;.js</a>');
+    expect(rows[0]).toMatch(/<td class="over">\d+<\/td>/);
+  });
+
+  it('shows the source with per-line increments and anchors', () => {
+    expect(html).toContain('<details id="file-0">');
+    expect(html).toContain(
+      '<td class="ln"><a id="fn-0-0"></a><a id="fn-0-2"></a>1</td><td class="inc"></td><td class="code">function process(items, options) {</td>'
+    );
+    expect(html).toMatch(
+      /<td class="ln">5<\/td><td class="inc" title="\+3 \(incl\. 2 for nesting\): if\n\+1: logical operator '&amp;&amp;'">\+4<\/td>/
+    );
+  });
+
+  it('highlights extraction candidates', () => {
+    expect(html).toContain(
+      '<tr class="extract"><td class="ln">11</td><td class="inc" title="+1: for-of">+1</td><td class="code">  for (const tag of options.tags) {<span class="candidate">Extraction candidate in process: lines 11-15, +6 cognitive, high confidence</span></td></tr>'
+    );
+    expect(html.match(/<tr class="extract">/g)).toHaveLength(13);
+  });
+
+  it('charts the distribution of both metrics', () => {
+    expect(html).toContain('<figcaption>Cognitive complexity (median');
+    expect(html).toContain('<figcaption>Cyclomatic complexity (median');
+    expect(html.match(/<svg class="chart"/g)).toHaveLength(2);
+  });
+
+  it('renders files without source', () => {
+    expect(formatHtmlReport(project(CODE))).toContain('<p>Source not available.</p>');
+  });
+});
+
+describe('html command', () => {
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+  let io: CliIO;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complexity-html-'));
+    writeFileSync(join(dir, 'a.js'), CODE);
+    stdout = '';
+    stderr = '';
+    io = { stdout: (text) => (stdout += text), stderr: (text) => (stderr += text), cwd: dir };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the report with the source of each file', () => {
+    expect(runCli(['html', '--output', 'report.html', '--title', 'Project'], io)).toBe(0);
+    expect(stdout).toBe('');
+
+    const html = readFileSync(join(dir, 'report.html'), 'utf-8');
+    expect(html).toContain('<h1>Project</h1>');
+    expect(html).toContain('<td class="code">const simple = (a) =&gt; a + 1;</td>');
+  });
+
+  it('prints the report to stdout', () => {
+    expect(runCli(['html', '--cognitive', '100'], io)).toBe(0);
+    expect(stdout).toContain('0 over the thresholds (cyclomatic 20, cognitive 100)');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { calculateJsxComplexity } from '#src/jsx.js';
+import { complexity } from '#src/rules/complexity.js';
+import { parseSource } from '#src/standalone/index.js';
+import type { ESTreeNode } from '#src/types.js';
+import { runRule } from './utils/rule-runner';
+
+function jsx(code: string) {
+  const { program } = parseSource(code, 'test.tsx');
+  return calculateJsxComplexity((program as unknown as { body: ESTreeNode[] }).body[0]);
+}
+
+const ORDER_LIST = `function OrderList({ orders, loading, error }) {
+  if (error) return <Error error={error} />;
+  return (
+    <section>
+      {loading && <Spinner />}
+      <ul>
+        {orders.map((order) => (
+          <li key={order.id}>
+            {order.paid ? <Paid /> : order.overdue ? <Overdue /> : <Pending />}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}`;
+
+describe('calculateJsxComplexity', () => {
+  it('is 0 for functions without conditional or list rendering', () => {
+    expect(jsx('function Title({ text }) { return <h1 className={a || b}>{text}</h1>; }')).toEqual({
+      total: 0,
+      points: [],
+      maxDepth: 1,
+    });
+  });
+
+  it('scores conditional and list rendering with nesting', () => {
+    const result = jsx(ORDER_LIST);
+
+    expect(result.points.map((p) => `${p.location.start.line}: ${p.message}`)).toEqual([
+      '5: +1: conditional rendering (&&)',
+      '7: +1: list rendering (.map)',
+      '9: +2 (incl. 1 for nesting): conditional rendering (ternary)',
+      '9: +3 (incl. 2 for nesting): conditional rendering (ternary)',
+    ]);
+    expect([result.total, result.maxDepth]).toEqual([7, 4]);
+  });
+
+  it('scores conditional rendering outside the returned tree', () => {
+    const code = `function Panel({ user }) {
+      const badge = user.admin ? <AdminBadge /> : null;
+      return <div>{badge}</div>;
+    }`;
+    expect(jsx(code).points.map((p) => p.construct)).toEqual(['conditional rendering (ternary)']);
+  });
+
+  it('ignores nested functions other than list-rendering callbacks', () => {
+    const code = `function Form({ fields }) {
+      const onSubmit = () => (valid ? <Ok /> : <Error />);
+      const names = fields.map((field) => field.name);
+      return <form onSubmit={onSubmit}>{names}</form>;
+    }`;
+    expect(jsx(code).total).toBe(0);
+  });
+});
+
+describe('jsx option', () => {
+  it('is not checked by default', () => {
+    expect(runRule(complexity, ORDER_LIST, { minLines: 0 }, 'test.tsx')).toEqual([]);
+  });
+
+  it('reports components over the threshold once, with the breakdown', () => {
+    const diagnostics = runRule(complexity, ORDER_LIST, { minLines: 0, jsx: 5 }, 'test.tsx');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe(
+      `Function 'OrderList' has JSX render complexity of 7. Maximum allowed is 5. Deepest element nesting is 4.
+
+Breakdown:
+    Line 5: +1 for 'conditional rendering (&&)'
+    Line 7: +1 for 'list rendering (.map)'
+    Line 9: +2 for 'conditional rendering (ternary)' (incl. +1 nesting)
+>>> Line 9: +3 for 'conditional rendering (ternary)' (incl. +2 nesting) [top offender]`
+    );
+  });
+
+  it('honors a jsx budget directive', () => {
+    const code = `// complexity-budget jsx=10 -- legacy list
+${ORDER_LIST}`;
+    expect(runRule(complexity, code, { minLines: 0, jsx: 5 }, 'test.tsx')).toEqual([]);
+  });
+});
+
+describe('jsxDepth option', () => {
+  const DEEP = `function Layout() {
+  return (
+    <main>
+      <section>
+        <article>
+          <div>
+            <p>
+              <span>Hello</span>
+            </p>
+          </div>
+        </article>
+      </section>
+    </main>
+  );
+}`;
+
+  it('reports deep element trees without branches', () => {
+    const diagnostics = runRule(complexity, DEEP, { minLines: 0, jsx: 0, jsxDepth: 4 }, 'test.tsx');
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Function 'Layout' has JSX element nesting depth of 6. Maximum allowed is 4.",
+    ]);
+  });
+
+  it('honors a jsxDepth budget directive', () => {
+    const code = `// complexity-budget jsxDepth=6 -- page shell
+${DEEP}`;
+    expect(runRule(complexity, code, { minLines: 0, jsxDepth: 4 }, 'test.tsx')).toEqual([]);
+  });
+});
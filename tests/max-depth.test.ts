@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { maxDepth } from '#src/rules/max-depth.js';
+import { analyzeSource } from '#src/standalone/index.js';
+import { runRule } from './utils/rule-runner';
+
+const DEEP = `function sync(items, store) {
+  for (const item of items) {
+    if (item.dirty) {
+      try {
+        if (item.remote) {
+          store.push(item);
+        }
+      } catch (error) {
+        store.fail(item, error);
+      }
+    }
+  }
+}`;
+
+function chainOf(code: string) {
+  const [fn] = analyzeSource(code, 'test.js').functions;
+  return fn.deepestNesting.map((step) => `${step.construct}@${step.location.start.line}`);
+}
+
+describe('nesting depth', () => {
+  it('tracks the deepest chain of constructs', () => {
+    expect(chainOf(DEEP)).toEqual(['for-of@2', 'if@3', 'try@4', 'if@5']);
+  });
+
+  it('keeps else-if chains at the depth of their if', () => {
+    const code = `function f(a) {
+      if (a === 1) {
+        x();
+      } else if (a === 2) {
+        while (a) { a--; }
+      } else {
+        switch (a) { case 3: y(); }
+      }
+    }`;
+    expect(chainOf(code)).toEqual(['else if@4', 'while@5']);
+  });
+
+  it('does not count ternaries or nested functions', () => {
+    const code = `function f(items) {
+      if (items) {
+        return items.map((item) => { if (item) { return item ? 1 : 2; } });
+      }
+    }`;
+    const [callback, outer] = analyzeSource(code, 'test.js').functions;
+    expect([outer.maxDepth, callback.maxDepth]).toEqual([1, 1]);
+  });
+});
+
+describe('max-depth rule', () => {
+  it('reports functions deeper than max with the construct chain', () => {
+    const diagnostics = runRule(maxDepth, DEEP, { max: 3 });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message)
+      .toBe(`Function 'sync' has nesting depth of 4. Maximum allowed is 3.
+
+Deepest nesting: for-of > if > try > if
+  Line 2: for-of
+  Line 3:   if
+  Line 4:     try
+  Line 5:       if`);
+  });
+
+  it('defaults to a maximum of 4', () => {
+    expect(runRule(maxDepth, DEEP)).toEqual([]);
+  });
+});
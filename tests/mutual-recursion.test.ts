@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { complexity } from '#src/rules/complexity.js';
+import { analyzeSource } from '#src/standalone/index.js';
+import { runRule } from './utils/rule-runner';
+
+function recursionPoints(code: string) {
+  return analyzeSource(code, 'test.js').functions.map((fn) => [
+    fn.name,
+    fn.cognitivePoints
+      .filter((point) => point.kind === 'recursion')
+      .map((point) => `${point.construct}@${point.location.start.line}`),
+  ]);
+}
+
+describe('mutual recursion', () => {
+  it('adds one recursion point to every function in a cycle', () => {
+    const code = `function parseExpr(tokens) {
+  return parseTerm(tokens);
+}
+function parseTerm(tokens) {
+  if (tokens.peek() === '(') return parseGroup(tokens);
+  return tokens.next();
+}
+function parseGroup(tokens) {
+  tokens.next();
+  return parseExpr(tokens);
+}
+function main(tokens) {
+  return parseExpr(tokens);
+}`;
+    const cycle = 'mutual recursion (parseExpr, parseTerm, parseGroup)';
+
+    expect(recursionPoints(code)).toEqual([
+      ['parseExpr', [`${cycle}@2`]],
+      ['parseTerm', [`${cycle}@5`]],
+      ['parseGroup', [`${cycle}@10`]],
+      ['main', []],
+      ['<module>', []],
+    ]);
+  });
+
+  it('resolves method calls through this', () => {
+    const code = `class Walker {
+  visit(node) { return this.visitChildren(node); }
+  visitChildren(node) { for (const child of node.children) this.visit(child); }
+}`;
+    const points = Object.fromEntries(recursionPoints(code));
+
+    expect(points['Walker.visit']).toEqual(['mutual recursion (visit, visitChildren)@2']);
+    expect(points['Walker.visitChildren']).toEqual(['mutual recursion (visit, visitChildren)@3']);
+  });
+
+  it('resolves this calls only within the enclosing class', () => {
+    const code = `class Reader {
+  open() { return this.close(); }
+}
+class Writer {
+  close() { return this.open(); }
+  open() { return 1; }
+}`;
+    expect(recursionPoints(code).flatMap(([, points]) => points)).toEqual([]);
+  });
+
+  it('resolves plain calls only to functions that are not methods', () => {
+    const code = `const parser = {
+  parse(input) { return format(input); },
+  format(input) { return this.parse(input); },
+};
+function format(input) { return String(input); }`;
+    expect(recursionPoints(code).flatMap(([, points]) => points)).toEqual([]);
+  });
+
+  it('does not add a second point to self-recursive functions', () => {
+    const code = `function a(n) { if (n) { a(n - 1); b(n); } }
+function b(n) { return a(n); }`;
+    expect(recursionPoints(code).slice(0, 2)).toEqual([
+      ['a', ['recursive call@1']],
+      ['b', ['mutual recursion (a, b)@2']],
+    ]);
+  });
+
+  it('names the cycle members in the breakdown', () => {
+    const code = `function isEven(n) {
+  if (n === 0) return true;
+  return isOdd(n - 1);
+}
+function isOdd(n) {
+  if (n === 0) return false;
+  return isEven(n - 1);
+}`;
+    const [diagnostic] = runRule(complexity, code, { cognitive: 1, minLines: 0 });
+
+    expect(diagnostic.message).toContain('has Cognitive Complexity of 2');
+    expect(diagnostic.message).toContain("Line 3: +1 for 'mutual recursion (isEven, isOdd)'");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNPath } from '#src/npath.js';
+import { complexity } from '#src/rules/complexity.js';
+import { parseSource } from '#src/standalone/index.js';
+import type { ESTreeNode } from '#src/types.js';
+import { runRule } from './utils/rule-runner';
+
+function npath(code: string) {
+  const { program } = parseSource(code, 'test.js');
+  return calculateNPath((program as unknown as { body: ESTreeNode[] }).body[0]);
+}
+
+describe('calculateNPath', () => {
+  it('is 1 for straight-line code', () => {
+    expect(npath('function f(a) { const b = a + 1; return b; }').total).toBe(1);
+  });
+
+  it('multiplies sequential ifs', () => {
+    const code = `function f(a, b, c) {
+      if (a) log(1);
+      if (b) log(2);
+      if (c) log(3);
+    }`;
+    expect(npath(code).total).toBe(8);
+  });
+
+  it('adds branches of if/else and switch', () => {
+    expect(npath('function f(a) { if (a) x(); else if (a > 1) y(); else z(); }').total).toBe(3);
+    expect(
+      npath('function f(a) { switch (a) { case 1: x(); break; case 2: y(); break; } }').total
+    ).toBe(3);
+    expect(npath('function f(a) { switch (a) { case 1: x(); break; default: y(); } }').total).toBe(
+      2
+    );
+  });
+
+  it('accounts for logical operators and ternaries', () => {
+    expect(npath('function f(a, b) { if (a && b) x(); }').total).toBe(3);
+    expect(npath('function f(a, b) { return a ? b : 0; }').total).toBe(2);
+    expect(npath('function f(a, b, c) { return a && b ? c || 1 : 0; }').total).toBe(4);
+  });
+
+  it('counts loops as their body plus the skipped path', () => {
+    expect(npath('function f(xs) { for (const x of xs) { if (x) log(x); } }').total).toBe(3);
+    expect(npath('function f(a) { while (a && next()) step(); }').total).toBe(3);
+  });
+
+  it('multiplies try/catch by finally', () => {
+    const code = `function f(a) {
+      try { if (a) x(); } catch { y(); } finally { if (a) z(); }
+    }`;
+    expect(npath(code).total).toBe(6);
+  });
+
+  it('ignores nested functions', () => {
+    expect(npath('function f(xs) { return xs.map((x) => (x ? 1 : 2)); }').total).toBe(1);
+  });
+
+  it('lists the top-level statements as factors', () => {
+    const code = `function f(a, b) {
+      setup();
+      if (a && b) x();
+      for (const item of a) { if (item) y(); }
+    }`;
+    expect(npath(code).factors.map((f) => [f.construct, f.paths, f.location.start.line])).toEqual([
+      ['if', 3, 3],
+      ['for...of', 3, 4],
+    ]);
+  });
+});
+
+describe('npath option', () => {
+  const code = `function route(req) {
+  if (req.a) log('a');
+  if (req.b) log('b');
+  if (req.c || req.d) log('c');
+  if (req.e) log('e');
+}`;
+
+  it('is not checked by default', () => {
+    expect(runRule(complexity, code, { minLines: 0 })).toEqual([]);
+  });
+
+  it('reports functions over the threshold with the largest multipliers', () => {
+    const diagnostics = runRule(complexity, code, { minLines: 0, npath: 20 });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe(
+      `Function 'route' has NPath complexity of 24. Maximum allowed is 20.
+
+Largest path multipliers:
+  Line 4: ×3 paths through 'if'
+  Line 2: ×2 paths through 'if'
+  Line 3: ×2 paths through 'if'
+  Line 5: ×2 paths through 'if'`
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { complexity } from '#src/rules/complexity.js';
+import { resolveProfile, PROFILES } from '#src/profile.js';
+import { analyzeSource, type AnalyzeSourceOptions } from '#src/standalone/index.js';
+import { runRule } from './utils/rule-runner';
+
+function analyze(code: string, options: AnalyzeSourceOptions = {}) {
+  // The outermost function finishes last, before <module>
+  const fn = analyzeSource(code, 'test.tsx', options).functions.at(-2);
+  if (!fn) throw new Error('Expected a function');
+  return {
+    cyclomatic: fn.cyclomaticPoints.map((p) => p.construct),
+    cognitive: fn.cognitivePoints.map((p) => p.message),
+  };
+}
+
+describe('resolveProfile', () => {
+  it('defaults to the custom profile', () => {
+    expect(resolveProfile()).toBe(PROFILES.custom);
+    expect(resolveProfile({ profile: 'sonar' })).toBe(PROFILES.sonar);
+  });
+
+  it('applies weights on top of the profile', () => {
+    const profile = resolveProfile({ profile: 'eslint', weights: { cognitive: { else: 0 } } });
+    expect(profile.cognitive).toEqual({ ...PROFILES.eslint.cognitive, else: 0 });
+    expect(profile.cyclomatic).toEqual(PROFILES.eslint.cyclomatic);
+  });
+});
+
+describe('profiles', () => {
+  it('eslint counts default values and optional chaining', () => {
+    const code = 'function load({ page = 1 }, retries = 3) { return api?.get(page)?.data; }';
+
+    expect(analyze(code).cyclomatic).toEqual([]);
+    expect(analyze(code, { profile: 'eslint' }).cyclomatic).toEqual([
+      'default value',
+      'default value',
+      '?.',
+      '?.',
+    ]);
+  });
+
+  it('sonar counts fallbacks and JSX short-circuits, but not nested functions', () => {
+    const code = `function Panel({ items, show }) {
+  const list = items || [];
+  const onClick = () => select(list);
+  return <div onClick={onClick}>{show && <List items={list} />}</div>;
+}`;
+
+    expect(analyze(code).cognitive).toEqual(['+1: nested arrow function']);
+    expect(analyze(code, { profile: 'sonar' }).cognitive).toEqual([
+      "+1: logical operator '||'",
+      "+1: logical operator '&&'",
+    ]);
+  });
+
+  it('weights replace the increment and 0 stops counting a construct', () => {
+    const code = `function route(kind, input) {
+  if (kind) {
+    switch (input ?? kind) {
+      case 'a': return 1;
+      default: return 2;
+    }
+  } else {
+    return 0;
+  }
+}`;
+    const result = analyze(code, {
+      weights: {
+        cyclomatic: { defaultCase: 1, nullishCoalescing: 0 },
+        cognitive: { switch: 2, else: 0, nullishCoalescing: 0 },
+      },
+    });
+
+    expect(result.cyclomatic).toEqual(['if', 'case', 'default']);
+    expect(result.cognitive).toEqual(['+1: if', '+3 (incl. 1 for nesting): switch']);
+  });
+});
+
+describe('profile option', () => {
+  it('is applied by the complexity rule', () => {
+    const code = 'function f(a = 1, b = 2, c = 3) { return a?.b; }';
+    expect(runRule(complexity, code, { minLines: 0, cyclomatic: 4 })).toEqual([]);
+
+    const [diagnostic] = runRule(complexity, code, {
+      minLines: 0,
+      cyclomatic: 4,
+      profile: 'eslint',
+    });
+    expect(diagnostic.message).toMatch(/^Function 'f' has cyclomatic complexity of 5\./);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { complexity } from '#src/rules/complexity.js';
+import { analyzeSource } from '#src/standalone/index.js';
+import { runRule } from './utils/rule-runner';
+
+function names(code: string, filename = 'test.js') {
+  return analyzeSource(code, filename)
+    .functions.map((fn) => fn.name)
+    .filter((name) => name !== '<module>');
+}
+
+describe('qualified names', () => {
+  it('qualifies class members with the class name', () => {
+    const code = `class OrderService {
+  constructor() {}
+  handle(order) {}
+  #validate() {}
+  static [Symbol.iterator]() {}
+  onSubmit = () => {};
+}`;
+    expect(names(code)).toEqual([
+      'OrderService.constructor',
+      'OrderService.handle',
+      'OrderService.#validate',
+      'OrderService.[Symbol.iterator]',
+      'OrderService.onSubmit',
+    ]);
+  });
+
+  it('builds names from object literal and assignment ancestry', () => {
+    const code = `const api = {
+  users: {
+    get(id) {},
+    'delete': function () {},
+  },
+};
+module.exports.handler = () => {};
+Cart.prototype.total = function total() {};
+export default function () {}`;
+    expect(names(code)).toEqual([
+      'api.users.get',
+      'api.users.delete',
+      'module.exports.handler',
+      'Cart.prototype.total',
+      'default export',
+    ]);
+  });
+
+  it('names callbacks after their binding or callee and line', () => {
+    const code = `export function useCart(items) {
+  const onChange = useCallback((value) => value, []);
+  items.map((item) => item.id);
+  fetch(url).then(function (res) {});
+  return onChange;
+}`;
+    expect(names(code)).toEqual([
+      'useCart > onChange callback',
+      'useCart > items.map callback (line 3)',
+      'useCart > then callback (line 4)',
+      'useCart',
+    ]);
+  });
+
+  it('names JSX event handlers after the attribute', () => {
+    const code = 'const Form = () => <input onChange={(e) => setValue(e.target.value)} />;';
+    expect(names(code, 'test.jsx')).toEqual(['Form > onChange callback', 'Form']);
+  });
+
+  it('prefixes nested functions with the enclosing unit', () => {
+    const code = `function outer() {
+  function inner() {
+    return class { run() {} };
+  }
+}`;
+    expect(names(code)).toEqual(['outer > inner > <class>.run', 'outer > inner', 'outer']);
+  });
+
+  it('uses qualified names in rule messages', () => {
+    const code = `class OrderService {
+  handle(order) {
+    if (order) return 1;
+    return 0;
+  }
+}`;
+    const [diagnostic] = runRule(complexity, code, { cyclomatic: 1, minLines: 0 });
+    expect(diagnostic.message).toMatch(
+      /^Function 'OrderService\.handle' has cyclomatic complexity of 2\./
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { complexity } from '#src/rules/complexity.js';
+import { maxDepth } from '#src/rules/max-depth.js';
+import { classComplexity } from '#src/rules/class-complexity.js';
+import { runRule } from './utils/rule-runner';
+
+const NESTED = `function nested(a, b, c) {
+  if (a) {
+    for (const item of b) {
+      if (item && c) return item;
+    }
+  }
+  return null;
+}`;
+
+describe('report data', () => {
+  it('describes threshold reports with a messageId and machine-readable data', () => {
+    const [cognitive] = runRule(complexity, NESTED, {
+      minLines: 0,
+      cognitive: 2,
+      enableExtraction: false,
+    });
+
+    expect(cognitive.messageId).toBe('cognitive');
+    expect(cognitive.data).toMatchObject({
+      name: 'nested',
+      metric: 'cognitive',
+      score: 7,
+      max: 2,
+      budgetReason: null,
+      baseline: null,
+    });
+    expect(JSON.parse(String(cognitive.data?.categories))).toEqual([
+      { category: 'if', complexity: 4 },
+      { category: 'for-of', complexity: 2 },
+      { category: 'logical operators', complexity: 1 },
+    ]);
+    const points = JSON.parse(String(cognitive.data?.points)) as { construct: string }[];
+    expect(points.map((p) => p.construct)).toEqual(['if', 'for-of', 'if', "logical operator '&&'"]);
+    expect(JSON.parse(String(cognitive.data?.suggestions))).toEqual([]);
+    expect(cognitive.message).toMatch(/^Function 'nested' has Cognitive Complexity of 7\./);
+  });
+
+  it('includes the budget reason and the recorded metric of each rule', () => {
+    const code = `// complexity-budget cyclomatic=3 npath=2 -- legacy search\n${NESTED}`;
+    const diagnostics = runRule(complexity, code, { minLines: 0, cognitive: 20 });
+
+    expect(diagnostics.map((d) => [d.messageId, d.data?.score, d.data?.budgetReason])).toEqual([
+      ['cyclomatic', 5, 'legacy search'],
+      ['npath', 5, 'legacy search'],
+    ]);
+
+    const [depth] = runRule(maxDepth, NESTED, { max: 2 });
+    expect(depth.messageId).toBe('maxDepth');
+    expect(
+      JSON.parse(String(depth.data?.chain)).map((s: { construct: string }) => s.construct)
+    ).toEqual(['if', 'for-of', 'if']);
+  });
+
+  it('uses messageIds for budget and class reports', () => {
+    const [invalid] = runRule(complexity, '// complexity-budget cognitive=30\nfunction f() {}', {
+      minLines: 0,
+    });
+    expect([invalid.messageId, invalid.data]).toEqual([
+      'invalidBudget',
+      { error: '"complexity-budget" requires a reason after "--"' },
+    ]);
+
+    const [file] = runRule(complexity, NESTED, {
+      minLines: 0,
+      fileBudget: { cognitive: { sum: 5 } },
+    });
+    expect(file.messageId).toBe('fileBudget');
+    expect(JSON.parse(String(file.data?.violations))).toEqual([
+      { metric: 'cognitive', aggregate: 'sum', value: 7, limit: 5 },
+    ]);
+
+    const [cls] = runRule(classComplexity, `class Search {\n  run${NESTED.slice(15)}\n}`, {
+      cognitive: 5,
+    });
+    expect([cls.messageId, cls.data?.name, cls.data?.methods]).toEqual([
+      'classComplexity',
+      'Search',
+      1,
+    ]);
+    expect(JSON.parse(String(cls.data?.totals))).toEqual([
+      { metric: 'cognitive', total: 7, max: 5 },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { loadFixture } from './utils/fixture-loader';
+import { createSarifLog, SARIF_RULE_IDS } from '#src/sarif.js';
+import { analyzeSource } from '#src/standalone/index.js';
+import { runCli, type CliIO } from '#src/cli/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, 'fixtures');
+
+const CODE = `function check(a, b, c) {
+  if (a) {
+    if (b && c) {
+      return 1;
+    }
+  }
+  return 0;
+}
+
+function simple() {
+  return 1;
+}`;
+
+describe('createSarifLog', () => {
+  const analysis = analyzeSource(CODE, 'src/check.js');
+
+  it('emits a SARIF 2.1.0 run with both rules', () => {
+    const log = createSarifLog([analysis]);
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('oxlint-plugin-complexity');
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual([
+      'complexity/cyclomatic',
+      'complexity/cognitive',
+    ]);
+    expect(run.results).toEqual([]);
+  });
+
+  it('reports functions over the thresholds with stable rule IDs', () => {
+    const [run] = createSarifLog([analysis], { cyclomatic: 2, cognitive: 2, minLines: 0 }).runs;
+
+    expect(run.results.map((r) => [r.ruleId, r.ruleIndex])).toEqual([
+      [SARIF_RULE_IDS.cyclomatic, 0],
+      [SARIF_RULE_IDS.cognitive, 1],
+    ]);
+
+    const cognitive = run.results[1];
+    expect(cognitive.message.text).toBe(
+      "Function 'check' has Cognitive Complexity of 4. Maximum allowed is 2."
+    );
+    expect(cognitive.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/check.js' },
+      region: { startLine: 1, startColumn: 1, endLine: 8, endColumn: 2 },
+    });
+    expect(cognitive.locations[0].logicalLocations).toEqual([{ name: 'check', kind: 'function' }]);
+    expect(cognitive.properties).toMatchObject({ metric: 'cognitive', score: 4, threshold: 2 });
+  });
+
+  it('adds breakdown points as related locations', () => {
+    const [run] = createSarifLog([analysis], { cognitive: 2, minLines: 0 }).runs;
+    const related = run.results[0].relatedLocations;
+
+    expect(
+      related.map((loc) => [loc.physicalLocation.region.startLine, loc.message?.text])
+    ).toEqual([
+      [2, '+1: if'],
+      [3, '+2 (incl. 1 for nesting): if'],
+      [3, "+1: logical operator '&&'"],
+    ]);
+    expect(related.map((loc) => loc.id)).toEqual([0, 1, 2]);
+  });
+
+  it('adds extraction suggestions as hints', () => {
+    const fixture = loadFixture(join(fixturesDir, 'js/extraction-candidate.js'), fixturesDir);
+    const [run] = createSarifLog([analyzeSource(fixture.code, 'a.js', { cognitive: 10 })], {
+      cognitive: 10,
+    }).runs;
+    const result = run.results.find((r) => r.ruleId === SARIF_RULE_IDS.cognitive);
+    const suggestions = result?.properties.extractionSuggestions ?? [];
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    const hint = result?.relatedLocations.at(-1);
+    expect(hint?.message?.text).toMatch(/^Extract lines \d+-\d+/);
+    expect(hint?.physicalLocation.region.endLine).toBe(suggestions.at(-1)?.range.end);
+  });
+
+  it('resolves paths against %SRCROOT% when given', () => {
+    const [run] = createSarifLog([analysis], {
+      cognitive: 2,
+      minLines: 0,
+      srcRoot: 'file:///repo/',
+    }).runs;
+
+    expect(run.originalUriBaseIds).toEqual({ '%SRCROOT%': { uri: 'file:///repo/' } });
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation).toEqual({
+      uri: 'src/check.js',
+      uriBaseId: '%SRCROOT%',
+    });
+  });
+
+  it('keeps fingerprints stable when callbacks move', () => {
+    const callbacks = `items.forEach((a) => { if (a) { if (a.b) { log(a); } } });
+items.forEach((b) => { if (b) { log(b); } });`;
+    const fingerprints = (code: string) =>
+      createSarifLog([analyzeSource(code, 'src/list.js')], {
+        cognitive: 0,
+        minLines: 0,
+      }).runs[0].results.map((r) => r.partialFingerprints['complexityFunction/v1']);
+
+    expect(fingerprints(callbacks)).toEqual([
+      'src/list.js:items.forEach callback:cognitive',
+      'src/list.js:items.forEach callback #2:cognitive',
+    ]);
+    expect(fingerprints(`\n\n${callbacks}`)).toEqual(fingerprints(callbacks));
+  });
+});
+
+describe('sarif command', () => {
+  it('prints a SARIF log for the given paths', () => {
+    let stdout = '';
+    const io: CliIO = { stdout: (text) => (stdout += text), stderr: () => {}, cwd: fixturesDir };
+
+    expect(runCli(['sarif', 'js', '--cognitive', '10'], io)).toBe(0);
+    const log = JSON.parse(stdout);
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].results.length).toBeGreaterThan(0);
+    expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri).toMatch(
+      /^js\//
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSource } from '#src/standalone/index.js';
+
+const COMPONENT = `<script>
+  export let user;
+  export let orders = [];
+  export let load;
+</script>
+
+{#if user}
+  {#each orders as order (order.id)}
+    {#if order.items.length > 0 && order.paid}
+      <Order {order} class={order.urgent ? 'urgent' : ''} />
+    {:else}
+      <p>{order.note ?? 'Empty order'}</p>
+    {/if}
+  {/each}
+{:else if loading}
+  <Spinner />
+{/if}
+
+{#await load()}
+  <p>Loading</p>
+{:then data}
+  {#key data.id}
+    {#if data.error}<Error />{/if}
+  {/key}
+{:catch error}
+  <p>{error.message}</p>
+{/await}
+
+<style>
+  p { color: red; }
+</style>`;
+
+function getMarkup(code: string) {
+  return analyzeSource(code, 'Component.svelte').functions.find((fn) => fn.name === '<markup>');
+}
+
+describe('Svelte markup unit', () => {
+  it('scores blocks with nesting and inline expressions', () => {
+    const markup = getMarkup(COMPONENT);
+
+    expect(markup?.cognitivePoints.map((p) => `${p.location.start.line}: ${p.message}`)).toEqual([
+      '7: +1: if',
+      '8: +2 (incl. 1 for nesting): each',
+      '9: +3 (incl. 2 for nesting): if',
+      "9: +1: logical operator '&&'",
+      '10: +4 (incl. 3 for nesting): ternary operator',
+      '11: +1: else',
+      "12: +1: logical operator '??'",
+      '15: +1: else if',
+      '19: +1: await',
+      '21: +1: then',
+      '23: +2 (incl. 1 for nesting): if',
+      '25: +1: catch',
+    ]);
+    expect([markup?.cognitive, markup?.cyclomatic]).toEqual([19, 11]);
+  });
+
+  it('counts {#key} for depth only', () => {
+    const markup = getMarkup(COMPONENT);
+    expect(markup?.deepestNesting.map((step) => step.construct)).toEqual(['if', 'each', 'if']);
+    expect(getMarkup('{#key a}{#key b}{#if c}x{/if}{/key}{/key}')).toMatchObject({
+      cognitive: 1,
+      maxDepth: 3,
+    });
+  });
+
+  it('spans the markup outside script and style blocks', () => {
+    expect(getMarkup(COMPONENT)?.loc).toMatchObject({
+      start: { line: 7, column: 0 },
+      end: { line: 27, column: 8 },
+    });
+    expect(getMarkup('<script>let a = 1;</script>')).toBeUndefined();
+  });
+
+  it('ignores braces in strings and comments', () => {
+    const code = `<!-- {#if debug} -->
+<p title="{a || b}">{format({ open: '}' }, c ? 1 : 2)}</p>`;
+    expect(getMarkup(code)?.cognitivePoints.map((p) => p.construct)).toEqual([
+      "logical operator '||'",
+      'ternary operator',
+    ]);
+  });
+});
@@ -9,8 +9,8 @@ import {
   type ComplexityResultWithVariables,
 } from '#src/cognitive/visitor.js';
 import { analyzeVariableFlow } from '#src/extraction/flow-analyzer.js';
-import { extractConstructFromMessage } from '#src/utils.js';
-import { createMockContext, walkWithVisitor, parseAndPrepareAst } from './test-helpers.js';
+import { parseSource, walkAst } from '#src/standalone/parser.js';
+import { createStandaloneContext } from '#src/standalone/context.js';
 
 export interface ExtendedResult extends ComplexityResult {
   functionName: string;
@@ -20,21 +20,17 @@ export interface ExtendedResult extends ComplexityResult {
 
 /**
  * Calculate cognitive complexity with variable tracking.
- * Uses eslint-scope for scope analysis to match oxlint's behavior in tests.
+ * Uses the standalone scope analyzer to match oxlint's behavior in tests.
  */
 export function calculateCognitiveWithTracking(
   code: string,
   filename: string
 ): Map<string, ExtendedResult> {
-  const { program, errors } = parseAndPrepareAst(code, filename);
-  if (errors.length > 0) {
-    throw new Error(`Parse errors: ${errors.map((e) => e.message).join(', ')}`);
-  }
-
+  const parsed = parseSource(code, filename);
   const results = new Map<string, ExtendedResult>();
 
   // Create context with scope analysis enabled
-  const context = createMockContext(program);
+  const context = createStandaloneContext(parsed);
 
   const listener = createCognitiveVisitorWithTracking(
     context,
@@ -49,7 +45,7 @@ export function calculateCognitiveWithTracking(
     }
   );
 
-  walkWithVisitor(program, listener, code);
+  walkAst(parsed.program, listener);
   return results;
 }
 
@@ -60,7 +56,7 @@ export function buildCandidateFromResult(result: ExtendedResult): ExtractionCand
     complexity: result.total,
     complexityPercentage: 50,
     points: result.points,
-    constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+    constructs: result.points.map((p) => p.construct),
   };
 }
 
@@ -84,7 +80,7 @@ export function buildCandidateForRange(
     complexity: result.total,
     complexityPercentage: 50,
     points: result.points,
-    constructs: result.points.map((p) => extractConstructFromMessage(p.message)),
+    constructs: result.points.map((p) => p.construct),
   };
 }
 
@@ -0,0 +1,45 @@
+import type { CreateOnceRule, Diagnostic, Options } from '@oxlint/plugins';
+import type { Context, Rule, VisitorWithHooks } from '#src/types.js';
+import { createStandaloneContext, parseSource, walkAst } from '#src/standalone/index.js';
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+/** Fill in `message` from `meta.messages` and `data`, as oxlint does for a `messageId` */
+function resolveMessage(rule: Rule, diagnostic: Diagnostic): Diagnostic {
+  if (!diagnostic.messageId) return diagnostic;
+  const template = (rule as CreateOnceRule).meta?.messages?.[diagnostic.messageId];
+  if (template === undefined) throw new Error(`Unknown messageId '${diagnostic.messageId}'`);
+  const message = template.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const value = diagnostic.data?.[key.trim()];
+    return value === undefined ? match : String(value);
+  });
+  return { ...diagnostic, message };
+}
+
+/**
+ * Run a `createOnce` rule over a source string, the way oxlint would for a
+ * single file, and collect its reports with their messages resolved.
+ */
+export function runRule(
+  rule: Rule,
+  code: string,
+  options: Options[number] = {},
+  filename = 'test.ts',
+  cwd = process.cwd()
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const context: Context = {
+    ...createStandaloneContext(parseSource(code, filename)),
+    cwd,
+    options: [options],
+    report: (diagnostic: Diagnostic) => diagnostics.push(resolveMessage(rule, diagnostic)),
+  };
+
+  const visitor = (rule as CreateOnceRule).createOnce(context) as VisitorWithHooks;
+  const { before, after, ...handlers } = visitor;
+  if (before?.() === false) return diagnostics;
+
+  walkAst(context.sourceCode.ast, handlers);
+  after?.();
+  return diagnostics;
+}
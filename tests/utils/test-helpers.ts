@@ -7,10 +7,15 @@ import {
   createCombinedComplexityVisitor,
   type CombinedComplexityResult,
 } from '#src/combined-visitor.js';
-import { getFunctionName as getProductionFunctionName } from '#src/utils.js';
+import {
+  getFunctionName as getProductionFunctionName,
+  getUnitName,
+  isFunctionNode,
+} from '#src/utils.js';
 import type { ESTreeNode, FunctionNode, ComplexityResult, Context } from '#src/types.js';
-import type { ScopeManager } from 'oxlint/plugins';
-import { analyzeScope } from './test-scope-analyzer.js';
+import type { ScopeManager } from '@oxlint/plugins';
+import { analyzeScope } from '#src/standalone/scope-analyzer.js';
+import { createLineOffsetTable, offsetToLineCol } from '#src/standalone/parser.js';
 
 /**
  * Result of complexity calculation for a single function.
@@ -20,70 +25,6 @@ export interface ComplexityFunctionResult extends ComplexityResult {
   name: string;
 }
 
-/**
- * Create a lookup table to convert byte offsets to line/column.
- * oxc-parser returns `start`/`end` as byte offsets, not ESTree `loc` objects.
- */
-export function createLineOffsetTable(code: string): number[] {
-  const lineOffsets: number[] = [0];
-  for (let i = 0; i < code.length; i++) {
-    if (code[i] === '\n') {
-      lineOffsets.push(i + 1);
-    }
-  }
-  return lineOffsets;
-}
-
-/**
- * Convert a byte offset to line/column position.
- */
-export function offsetToLineCol(
-  offset: number,
-  lineOffsets: number[]
-): { line: number; column: number } {
-  for (let i = lineOffsets.length - 1; i >= 0; i--) {
-    if (offset >= lineOffsets[i]) {
-      return { line: i + 1, column: offset - lineOffsets[i] };
-    }
-  }
-  return { line: 1, column: offset };
-}
-
-/**
- * Add parent references and loc objects to all AST nodes.
- * Must be called before scope analysis.
- */
-function prepareAstForAnalysis(ast: ESTreeNode, code: string): void {
-  const lineOffsets = createLineOffsetTable(code);
-
-  walk(ast as EstreeWalkerNode, {
-    enter(node, parent) {
-      const esNode = node as unknown as ESTreeNode;
-      const nodeWithOffsets = node as unknown as { start?: number; end?: number };
-
-      // Convert byte offsets to loc
-      if (typeof nodeWithOffsets.start === 'number' && typeof nodeWithOffsets.end === 'number') {
-        const startLoc = offsetToLineCol(nodeWithOffsets.start, lineOffsets);
-        const endLoc = offsetToLineCol(nodeWithOffsets.end, lineOffsets);
-        Object.defineProperty(esNode, 'loc', {
-          value: { start: startLoc, end: endLoc },
-          writable: true,
-          enumerable: false,
-          configurable: true,
-        });
-      }
-
-      // Set parent reference
-      Object.defineProperty(esNode, 'parent', {
-        value: parent as unknown as ESTreeNode,
-        writable: true,
-        enumerable: false,
-        configurable: true,
-      });
-    },
-  });
-}
-
 /**
  * Create a mock oxlint Context for testing.
  *
@@ -106,8 +47,10 @@ export function createMockContext(ast?: ESTreeNode): Context {
 }
 
 function getFunctionName(node: ESTreeNode, index: number): string {
-  const funcNode = node as ESTreeNode & { parent?: ESTreeNode };
-  const name = getProductionFunctionName(funcNode as FunctionNode, funcNode.parent);
+  // Fixture annotations use bare function names rather than qualified unit names
+  const name = isFunctionNode(node)
+    ? getProductionFunctionName(node as FunctionNode, node.parent ?? undefined)
+    : getUnitName(node);
 
   // Replace production anonymous placeholders with indexed names for clearer test output
   if (name === '<arrow>' || name === '<anonymous>') {
@@ -166,25 +109,6 @@ export function walkWithVisitor(
   });
 }
 
-/**
- * Parse code and prepare AST with parent refs and loc for scope analysis.
- */
-export function parseAndPrepareAst(
-  code: string,
-  filename: string
-): { program: ESTreeNode; errors: Array<{ message: string }> } {
-  const { program, errors } = parseSync(filename, code);
-
-  if (errors.length === 0) {
-    prepareAstForAnalysis(program as unknown as ESTreeNode, code);
-  }
-
-  return {
-    program: program as unknown as ESTreeNode,
-    errors: errors as Array<{ message: string }>,
-  };
-}
-
 /**
  * Generic complexity calculator that works with any visitor factory.
  */
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { complexity } from '#src/rules/complexity.js';
+import { runRule } from './utils/rule-runner';
+
+const NESTED = `function nested(items, mode) {
+  for (const item of items) {
+    if (item.active) {
+      if (mode === 'strict' && item.required) {
+        return item;
+      }
+    }
+  }
+  return null;
+}`;
+
+function getCognitiveMessage(verbosity?: string): string | undefined {
+  const options = { minLines: 0, cognitive: 2, cyclomatic: 20, verbosity };
+  return runRule(complexity, NESTED, options).find((d) => d.messageId === 'cognitive')?.message;
+}
+
+describe('verbosity', () => {
+  it('reports a single sentence when minimal', () => {
+    expect(getCognitiveMessage('minimal')).toBe(
+      "Function 'nested' has Cognitive Complexity of 7. Maximum allowed is 2."
+    );
+  });
+
+  it('adds the top categories when summary', () => {
+    expect(getCognitiveMessage('summary')).toBe(
+      "Function 'nested' has Cognitive Complexity of 7. Maximum allowed is 2. [if: +5, for-of: +1, logical operators: +1]"
+    );
+  });
+
+  it('defaults to the full breakdown', () => {
+    const message = getCognitiveMessage();
+    expect(message).toBe(getCognitiveMessage('full'));
+    expect(message).toContain('\n\nBreakdown:\n');
+    expect(message).not.toContain(' | ');
+  });
+
+  it('annotates the breakdown with source lines when explain', () => {
+    expect(getCognitiveMessage('explain')).toContain(
+      [
+        ">>> Line 4: +3 for 'if' (incl. +2 nesting) [top offender]",
+        "      4 |       if (mode === 'strict' && item.required) {",
+        '        |       ^',
+      ].join('\n')
+    );
+  });
+
+  it('applies to the other metrics of the rule', () => {
+    const options = { minLines: 0, cognitive: 20, cyclomatic: 2, npath: 2, verbosity: 'minimal' };
+    expect(runRule(complexity, NESTED, options).map((d) => d.message)).toEqual([
+      "Function 'nested' has cyclomatic complexity of 5. Maximum allowed is 2.",
+      "Function 'nested' has NPath complexity of 5. Maximum allowed is 2.",
+    ]);
+  });
+});
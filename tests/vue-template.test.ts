@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSource } from '#src/standalone/index.js';
+
+const COMPONENT = `<template>
+  <section v-if="user">
+    <ul v-for="group in groups" :key="group.id">
+      <li v-if="group.items.length > 0 && group.visible">{{ group.name }}</li>
+      <li v-else>{{ emptyText ?? 'Nothing here' }}</li>
+    </ul>
+    <button :class="{ active: selected ? isOpen : false }" @click="open(group)" />
+  </section>
+  <p v-else-if="loading">Loading</p>
+</template>
+
+<script>
+export default {
+  methods: {
+    open(group) {
+      if (group) this.selected = group;
+    },
+  },
+};
+</script>`;
+
+function getTemplate(code: string) {
+  return analyzeSource(code, 'Component.vue').functions.find((fn) => fn.name === '<template>');
+}
+
+describe('Vue template unit', () => {
+  it('scores directives as structure nested by element depth', () => {
+    const template = getTemplate(COMPONENT);
+
+    expect(template?.cognitivePoints.map((p) => `${p.location.start.line}: ${p.message}`)).toEqual([
+      '2: +1: v-if',
+      '3: +2 (incl. 1 for nesting): v-for',
+      '4: +3 (incl. 2 for nesting): v-if',
+      "4: +1: logical operator '&&'",
+      '5: +1: v-else',
+      "5: +1: logical operator '??'",
+      '7: +2 (incl. 1 for nesting): ternary operator',
+      '9: +1: v-else-if',
+    ]);
+    expect([template?.cognitive, template?.cyclomatic]).toEqual([12, 8]);
+  });
+
+  it('tracks the deepest directive chain', () => {
+    const template = getTemplate(COMPONENT);
+    expect([template?.maxDepth, template?.deepestNesting.map((step) => step.construct)]).toEqual([
+      3,
+      ['v-if', 'v-for', 'v-if'],
+    ]);
+  });
+
+  it('is reported after the script units and spans the template block', () => {
+    const names = analyzeSource(COMPONENT, 'Component.vue').functions.map((fn) => fn.name);
+    expect(names.at(-1)).toBe('<template>');
+    expect(getTemplate(COMPONENT)?.loc).toMatchObject({ start: { line: 1 }, end: { line: 10 } });
+  });
+
+  it('ignores nested templates, slots and directives without expressions', () => {
+    const code = `<template>
+  <MyList>
+    <template #item="{ item }">
+      <span v-once v-show="item.visible || showAll">{{ item.label }}</span>
+    </template>
+  </MyList>
+</template>`;
+    expect(getTemplate(code)?.cognitivePoints.map((p) => p.construct)).toEqual([
+      "logical operator '||'",
+    ]);
+  });
+
+  it('skips non-HTML templates and other component formats', () => {
+    expect(getTemplate('<template lang="pug">div(v-if="a")</template>')).toBeUndefined();
+    expect(
+      analyzeSource('---\nconst a = 1;\n---\n<div>{a ? 1 : 2}</div>', 'Page.astro').functions.map(
+        (fn) => fn.name
+      )
+    ).toEqual(['<module>']);
+  });
+});